@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
 import { Stack } from "expo-router";
 import { ScrollView, Pressable, StyleSheet, View, Text, Platform, Dimensions } from "react-native";
 import { IconSymbol } from "@/components/IconSymbol";
@@ -7,69 +7,81 @@ import { colors } from "@/styles/commonStyles";
 import { ActivityCard } from "@/components/ActivityCard";
 import { StatsCard } from "@/components/StatsCard";
 import { WelcomeModal } from "@/components/WelcomeModal";
-import ActivityRecognitionService from "@/services/ActivityRecognitionService";
-import HealthDataService from "@/services/HealthDataService";
+import ActivityRecognitionService, { LOW_CONFIDENCE_THRESHOLD } from "@/services/ActivityRecognitionService";
+import HealthDataService, { DEFAULT_GOALS, HealthGoals } from "@/services/HealthDataService";
 import NotificationService from "@/services/NotificationService";
+import TrackingService from "@/services/TrackingService";
 
 const { width } = Dimensions.get('window');
 
+const checkGoalAchievements = (stats: any, previous: any, goals: HealthGoals) => {
+  // Check step goal
+  if (stats.steps >= goals.steps && previous.steps < goals.steps) {
+    NotificationService.sendGoalAchievement('steps', stats.steps);
+  }
+  
+  // Check active minutes goal
+  if (stats.activeMinutes >= goals.activeMinutes && previous.activeMinutes < goals.activeMinutes) {
+    NotificationService.sendGoalAchievement('activeMinutes', stats.activeMinutes);
+  }
+  
+  // Check calorie goal
+  if (stats.calories >= goals.calories && previous.calories < goals.calories) {
+    NotificationService.sendGoalAchievement('calories', stats.calories);
+  }
+};
+
 export default function HomeScreen() {
   const [currentActivity, setCurrentActivity] = useState<string>('idle');
+  const [activityConfidence, setActivityConfidence] = useState<number | null>(null);
   const [todayStats, setTodayStats] = useState({
     steps: 0,
     calories: 0,
     activeMinutes: 0,
     sleepHours: 0,
   });
-  const [isTracking, setIsTracking] = useState(false);
+  const [goals, setGoals] = useState<HealthGoals>(DEFAULT_GOALS);
+  const [isTracking, setIsTracking] = useState(TrackingService.isTracking());
   const [showWelcome, setShowWelcome] = useState(true);
+  // Last stats we compared goals against; a ref keeps updateStats stable across renders
+  const previousStats = useRef(todayStats);
+  const goalsRef = useRef(goals);
 
   const loadTodayStats = useCallback(async () => {
     try {
-      const stats = await HealthDataService.getTodayStats();
+      const [stats, savedGoals] = await Promise.all([
+        HealthDataService.getTodayStats(),
+        HealthDataService.getGoals(),
+      ]);
+      previousStats.current = stats;
+      goalsRef.current = savedGoals;
       setTodayStats(stats);
+      setGoals(savedGoals);
     } catch (error) {
       console.log('Error loading stats:', error);
     }
   }, []);
 
-  const updateStats = useCallback(async (activity: string) => {
+  const updateStats = useCallback(async () => {
     try {
-      await HealthDataService.recordActivity(activity);
       const newStats = await HealthDataService.getTodayStats();
-      setTodayStats(newStats);
       
       // Check for goal achievements and send notifications
-      checkGoalAchievements(newStats);
+      checkGoalAchievements(newStats, previousStats.current, goalsRef.current);
+      previousStats.current = newStats;
+      setTodayStats(newStats);
     } catch (error) {
       console.log('Error updating stats:', error);
     }
-  }, [todayStats]);
-
-  const checkGoalAchievements = (stats: any) => {
-    // Check step goal (10,000 steps)
-    if (stats.steps >= 10000 && todayStats.steps < 10000) {
-      NotificationService.sendGoalAchievement('steps', stats.steps);
-    }
-    
-    // Check active minutes goal (30 minutes)
-    if (stats.activeMinutes >= 30 && todayStats.activeMinutes < 30) {
-      NotificationService.sendGoalAchievement('activeMinutes', stats.activeMinutes);
-    }
-    
-    // Check calorie goal (2000 calories)
-    if (stats.calories >= 2000 && todayStats.calories < 2000) {
-      NotificationService.sendGoalAchievement('calories', stats.calories);
-    }
-  };
+  }, []);
 
   useEffect(() => {
     const initializeServices = async () => {
       try {
-        // Initialize services
-        await ActivityRecognitionService.initialize();
-        await HealthDataService.initialize();
+        // Initialize services; tracking resumes if it was on when the app last ran
+        await TrackingService.initialize();
         await NotificationService.initialize();
+        setIsTracking(TrackingService.isTracking());
         
         // Load today's stats
         await loadTodayStats();
@@ -85,30 +97,36 @@ export default function HomeScreen() {
 
     initializeServices();
     
-    // Subscribe to activity updates
-    const unsubscribe = ActivityRecognitionService.subscribe((activity) => {
-      console.log('Activity detected:', activity);
-      setCurrentActivity(activity);
-      updateStats(activity);
+    // Subscribe to activity updates, every window so the confidence stays current
+    const unsubscribe = ActivityRecognitionService.subscribe((event) => {
+      setCurrentActivity(event.activity);
+      setActivityConfidence(event.confidence);
       
-      // Notify notification service of activity
-      NotificationService.onActivityDetected(activity);
+      // Notify notification service of activity; a shaky guess shouldn't count as moving
+      if (event.confidence >= LOW_CONFIDENCE_THRESHOLD) {
+        NotificationService.onActivityDetected(event.activity);
+      }
+    });
+
+    // TrackingService saves sessions and steps, whether or not this screen is mounted
+    const unsubscribeData = TrackingService.subscribeDataChanges(() => {
+      updateStats();
+    });
+    const unsubscribeTracking = TrackingService.subscribeTracking(tracking => {
+      setActivityConfidence(null);
+      setIsTracking(tracking);
     });
 
     return () => {
       unsubscribe();
-      ActivityRecognitionService.cleanup();
+      unsubscribeData();
+      unsubscribeTracking();
       NotificationService.cleanup();
     };
   }, [loadTodayStats, updateStats]);
 
   const toggleTracking = () => {
-    if (isTracking) {
-      ActivityRecognitionService.stopTracking();
-    } else {
-      ActivityRecognitionService.startTracking();
-    }
-    setIsTracking(!isTracking);
+    TrackingService.setTracking(!isTracking).catch(error => console.error('Error toggling tracking:', error));
   };
 
   const renderHeaderRight = () => (
@@ -161,6 +179,7 @@ export default function HomeScreen() {
             <Text style={styles.sectionTitle}>Current Activity</Text>
             <ActivityCard 
               activity={currentActivity}
+              confidence={isTracking ? activityConfidence : null}
               isTracking={isTracking}
             />
           </View>
@@ -174,28 +193,28 @@ export default function HomeScreen() {
                 value={todayStats.steps.toString()}
                 icon="figure.walk"
                 color={colors.primary}
-                target="10,000"
+                target={goals.steps.toLocaleString('en-US')}
               />
               <StatsCard
                 title="Calories"
                 value={todayStats.calories.toString()}
                 icon="flame.fill"
                 color={colors.accent}
-                target="2,000"
+                target={goals.calories.toLocaleString('en-US')}
               />
               <StatsCard
                 title="Active Minutes"
                 value={todayStats.activeMinutes.toString()}
                 icon="timer"
                 color={colors.secondary}
-                target="30"
+                target={goals.activeMinutes.toString()}
               />
               <StatsCard
                 title="Sleep Hours"
                 value={todayStats.sleepHours.toFixed(1)}
                 icon="moon.fill"
                 color={colors.textSecondary}
-                target="8.0"
+                target={goals.sleepHours.toFixed(1)}
               />
             </View>
           </View>
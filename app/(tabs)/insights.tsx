@@ -1,9 +1,11 @@
 
-import React, { useState, useEffect } from 'react';
-import { ScrollView, View, Text, StyleSheet, Platform, Dimensions } from 'react-native';
-import { Stack } from 'expo-router';
+import React, { useState, useCallback } from 'react';
+import { ScrollView, View, Text, StyleSheet, Platform, Dimensions, Pressable } from 'react-native';
+import { Stack, router, useFocusEffect } from 'expo-router';
 import { colors } from '@/styles/commonStyles';
-import HealthDataService from '@/services/HealthDataService';
+import { IconSymbol } from '@/components/IconSymbol';
+import HealthDataService, { ActivityRecord } from '@/services/HealthDataService';
+import { addLocalDays, parseLocalDateKey, toLocalDateKey } from '@/utils/dateUtils';
 import { WeeklyChart } from '@/components/WeeklyChart';
 import { ActivityHistory } from '@/components/ActivityHistory';
 import { InsightCard } from '@/components/InsightCard';
@@ -18,6 +20,52 @@ interface WeeklyData {
   labels: string[];
 }
 
+const generateInsights = (weeklyStats: any[]): string[] => {
+  const insights = [];
+  
+  // Calculate averages
+  const avgSteps = weeklyStats.reduce((sum, stat) => sum + stat.steps, 0) / 7;
+  const avgSleep = weeklyStats.reduce((sum, stat) => sum + stat.sleepHours, 0) / 7;
+  const avgActiveMinutes = weeklyStats.reduce((sum, stat) => sum + stat.activeMinutes, 0) / 7;
+  
+  // Generate insights based on data
+  if (avgSteps < 5000) {
+    insights.push("💪 Try to increase your daily steps! Aim for at least 8,000 steps per day.");
+  } else if (avgSteps > 10000) {
+    insights.push("🎉 Great job! You're consistently hitting your step goals.");
+  }
+  
+  if (avgSleep < 7) {
+    insights.push("😴 Consider getting more sleep. Adults need 7-9 hours per night for optimal health.");
+  } else if (avgSleep > 8) {
+    insights.push("✨ Excellent sleep habits! You're getting quality rest.");
+  }
+  
+  if (avgActiveMinutes < 20) {
+    insights.push("🏃‍♂️ Try to be more active throughout the day. Even 30 minutes makes a difference!");
+  } else if (avgActiveMinutes > 60) {
+    insights.push("🔥 Amazing activity levels! You're staying very active.");
+  }
+  
+  // Trend analysis
+  const recentSteps = weeklyStats.slice(-3).map(s => s.steps);
+  const earlierSteps = weeklyStats.slice(0, 3).map(s => s.steps);
+  const recentAvg = recentSteps.reduce((a, b) => a + b, 0) / 3;
+  const earlierAvg = earlierSteps.reduce((a, b) => a + b, 0) / 3;
+  
+  if (recentAvg > earlierAvg * 1.1) {
+    insights.push("📈 Your activity is trending upward! Keep up the momentum.");
+  } else if (recentAvg < earlierAvg * 0.9) {
+    insights.push("📉 Your activity has decreased recently. Time to get moving!");
+  }
+  
+  if (insights.length === 0) {
+    insights.push("📊 Keep tracking your activities to get personalized insights!");
+  }
+  
+  return insights;
+};
+
 export default function InsightsScreen() {
   const [weeklyData, setWeeklyData] = useState<WeeklyData>({
     steps: [],
@@ -29,20 +77,17 @@ export default function InsightsScreen() {
   const [recentActivities, setRecentActivities] = useState<any[]>([]);
   const [insights, setInsights] = useState<string[]>([]);
 
-  useEffect(() => {
-    loadWeeklyData();
-    loadRecentActivities();
-  }, []);
-
-  const loadWeeklyData = async () => {
+  const loadWeeklyData = useCallback(async () => {
     try {
-      const weeklyStats = await HealthDataService.getWeeklyStats();
-      const labels = generateWeekLabels();
-      
-      // Pad data if we don't have 7 days
-      while (weeklyStats.length < 7) {
-        weeklyStats.unshift({ steps: 0, calories: 0, activeMinutes: 0, sleepHours: 0 });
-      }
+      const today = toLocalDateKey(new Date());
+      const weeklyStats = await HealthDataService.getStats({
+        from: addLocalDays(today, -6),
+        to: today,
+        granularity: 'day',
+      });
+      const labels = weeklyStats.map(stat =>
+        parseLocalDateKey(stat.start).toLocaleDateString('en-US', { weekday: 'short' })
+      );
 
       setWeeklyData({
         steps: weeklyStats.map(stat => stat.steps),
@@ -52,79 +97,25 @@ export default function InsightsScreen() {
         labels
       });
 
-      // Generate insights
-      generateInsights(weeklyStats);
+      setInsights(generateInsights(weeklyStats));
     } catch (error) {
       console.log('Error loading weekly data:', error);
     }
-  };
-
-  const loadRecentActivities = async () => {
-    try {
-      const activities = await HealthDataService.getRecentActivities(20);
-      setRecentActivities(activities);
-    } catch (error) {
-      console.log('Error loading recent activities:', error);
-    }
-  };
+  }, []);
 
-  const generateWeekLabels = () => {
-    const labels = [];
-    const today = new Date();
-    
-    for (let i = 6; i >= 0; i--) {
-      const date = new Date(today);
-      date.setDate(today.getDate() - i);
-      labels.push(date.toLocaleDateString('en-US', { weekday: 'short' }));
-    }
-    
-    return labels;
-  };
+  // Reload whenever the tab regains focus so activities logged or corrected in the modals show up,
+  // in the chart as well as the list
+  useFocusEffect(
+    useCallback(() => {
+      loadWeeklyData();
+      HealthDataService.getRecentActivities(20)
+        .then(setRecentActivities)
+        .catch(error => console.log('Error loading recent activities:', error));
+    }, [loadWeeklyData])
+  );
 
-  const generateInsights = (weeklyStats: any[]) => {
-    const insights = [];
-    
-    // Calculate averages
-    const avgSteps = weeklyStats.reduce((sum, stat) => sum + stat.steps, 0) / 7;
-    const avgSleep = weeklyStats.reduce((sum, stat) => sum + stat.sleepHours, 0) / 7;
-    const avgActiveMinutes = weeklyStats.reduce((sum, stat) => sum + stat.activeMinutes, 0) / 7;
-    
-    // Generate insights based on data
-    if (avgSteps < 5000) {
-      insights.push("💪 Try to increase your daily steps! Aim for at least 8,000 steps per day.");
-    } else if (avgSteps > 10000) {
-      insights.push("🎉 Great job! You're consistently hitting your step goals.");
-    }
-    
-    if (avgSleep < 7) {
-      insights.push("😴 Consider getting more sleep. Adults need 7-9 hours per night for optimal health.");
-    } else if (avgSleep > 8) {
-      insights.push("✨ Excellent sleep habits! You're getting quality rest.");
-    }
-    
-    if (avgActiveMinutes < 20) {
-      insights.push("🏃‍♂️ Try to be more active throughout the day. Even 30 minutes makes a difference!");
-    } else if (avgActiveMinutes > 60) {
-      insights.push("🔥 Amazing activity levels! You're staying very active.");
-    }
-    
-    // Trend analysis
-    const recentSteps = weeklyStats.slice(-3).map(s => s.steps);
-    const earlierSteps = weeklyStats.slice(0, 3).map(s => s.steps);
-    const recentAvg = recentSteps.reduce((a, b) => a + b, 0) / 3;
-    const earlierAvg = earlierSteps.reduce((a, b) => a + b, 0) / 3;
-    
-    if (recentAvg > earlierAvg * 1.1) {
-      insights.push("📈 Your activity is trending upward! Keep up the momentum.");
-    } else if (recentAvg < earlierAvg * 0.9) {
-      insights.push("📉 Your activity has decreased recently. Time to get moving!");
-    }
-    
-    if (insights.length === 0) {
-      insights.push("📊 Keep tracking your activities to get personalized insights!");
-    }
-    
-    setInsights(insights);
+  const handleSelectActivity = (activity: ActivityRecord) => {
+    router.push({ pathname: '/correct-activity', params: { id: String(activity.id) } });
   };
 
   return (
@@ -160,8 +151,14 @@ export default function InsightsScreen() {
 
           {/* Activity History Section */}
           <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Recent Activities</Text>
-            <ActivityHistory activities={recentActivities} />
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Recent Activities</Text>
+              <Pressable style={styles.headerButton} onPress={() => router.push('/log-activity')}>
+                <IconSymbol name="plus" color={colors.primary} size={16} />
+                <Text style={styles.headerButtonText}>Log Activity</Text>
+              </Pressable>
+            </View>
+            <ActivityHistory activities={recentActivities} onSelectActivity={handleSelectActivity} />
           </View>
         </ScrollView>
       </View>
@@ -190,4 +187,19 @@ const styles = StyleSheet.create({
     color: colors.text,
     marginBottom: 12,
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  headerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  headerButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
 });
@@ -1,10 +1,21 @@
-import React, { useState } from 'react';
+import React, { useCallback, useState } from 'react';
 import { ScrollView, View, Text, StyleSheet, Platform, Alert, Pressable } from 'react-native';
-import { Stack } from 'expo-router';
+import { Stack, router, useFocusEffect } from 'expo-router';
 import { IconSymbol } from '@/components/IconSymbol';
 import { colors } from '@/styles/commonStyles';
 import HealthDataService from '@/services/HealthDataService';
+import { calculateBMR, UserProfile } from '@/services/EnergyModel';
 import ActivityRecognitionService from '@/services/ActivityRecognitionService';
+import PersonalizationService from '@/services/PersonalizationService';
+import FeatureHistoryService from '@/services/FeatureHistoryService';
+import { PowerProfile } from '@/services/AdaptiveSampler';
+import FallDetectionService, { FallDetectionSettings } from '@/services/FallDetectionService';
+
+const POWER_PROFILE_SUMMARIES: { [profile in PowerProfile]: string } = {
+  'high-accuracy': 'High accuracy · sensors always at full rate',
+  balanced: "Balanced · sensors slow down while you're still",
+  'battery-saver': 'Battery saver · fewer checks, longer rests',
+};
 
 interface SettingItemProps {
   icon: string;
@@ -39,8 +50,34 @@ const SettingItem: React.FC<SettingItemProps> = ({
   </Pressable>
 );
 
+const formatProfile = (profile: UserProfile): string =>
+  `${profile.weightKg} kg · ${profile.heightCm} cm · ${profile.age} years`;
+
 export default function ProfileScreen() {
   const [isClearing, setIsClearing] = useState(false);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [personalExamples, setPersonalExamples] = useState(0);
+  const [powerProfile, setPowerProfile] = useState<PowerProfile>(
+    ActivityRecognitionService.getSamplingStatus().profile
+  );
+
+  const [fallDetection, setFallDetection] = useState<FallDetectionSettings | null>(null);
+
+  // Reload whenever the tab regains focus so edits made in the profile modal show up
+  useFocusEffect(
+    useCallback(() => {
+      HealthDataService.getProfile()
+        .then(setProfile)
+        .catch(error => console.error('Error loading profile:', error));
+      PersonalizationService.getSummary()
+        .then(summary => setPersonalExamples(summary.total))
+        .catch(error => console.error('Error loading personalization:', error));
+      setPowerProfile(ActivityRecognitionService.getSamplingStatus().profile);
+      FallDetectionService.getSettings()
+        .then(setFallDetection)
+        .catch(error => console.error('Error loading fall detection settings:', error));
+    }, [])
+  );
 
   const handleClearData = () => {
     Alert.alert(
@@ -58,6 +95,7 @@ export default function ProfileScreen() {
             setIsClearing(true);
             try {
               await HealthDataService.clearAllData();
+              await FeatureHistoryService.clear();
               Alert.alert('Success', 'All health data has been cleared.');
             } catch (error) {
               Alert.alert('Error', 'Failed to clear data. Please try again.');
@@ -71,10 +109,66 @@ export default function ProfileScreen() {
   };
 
   const handleExportData = () => {
+    router.push('/export-data');
+  };
+
+  const handleEditProfile = () => {
+    router.push('/edit-profile');
+  };
+
+  const handleImportData = () => {
+    router.push('/import-data');
+  };
+
+  const handleSensorTraces = () => {
+    router.push('/sensor-traces');
+  };
+
+  const handleSimulation = () => {
+    router.push('/simulation');
+  };
+
+  const handleClassifiers = () => {
+    router.push('/classifiers');
+  };
+
+  const handlePowerProfile = () => {
+    router.push('/power-profile');
+  };
+
+  const handleFallDetection = () => {
+    router.push('/fall-detection');
+  };
+
+  const handlePersonalization = () => {
+    if (personalExamples === 0) {
+      Alert.alert(
+        'Personalized Recognition',
+        'Tap an activity under Recent Activities in Insights to correct it. The app learns from your corrections on this device.',
+        [{ text: 'Got it' }]
+      );
+      return;
+    }
+
     Alert.alert(
-      'Export Data',
-      'Data export feature coming soon! Your data will remain private and secure on your device.',
-      [{ text: 'OK' }]
+      'Personalized Recognition',
+      `Activity recognition has learned from ${personalExamples} moments you corrected. Resetting forgets them and goes back to the standard model.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await PersonalizationService.reset();
+              setPersonalExamples(0);
+            } catch (error) {
+              console.error('Error resetting personalization:', error);
+              Alert.alert('Error', 'Failed to reset personalization. Please try again.');
+            }
+          },
+        },
+      ]
     );
   };
 
@@ -117,7 +211,25 @@ export default function ProfileScreen() {
               <IconSymbol name="person.fill" color={colors.card} size={32} />
             </View>
             <Text style={styles.profileName}>Health Tracker User</Text>
-            <Text style={styles.profileSubtitle}>Privacy-focused health monitoring</Text>
+            <Text style={styles.profileSubtitle}>
+              {profile ? formatProfile(profile) : 'Privacy-focused health monitoring'}
+            </Text>
+          </View>
+
+          {/* Personal Profile Section */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Personal Profile</Text>
+            <View style={styles.settingsGroup}>
+              <SettingItem
+                icon="person.crop.circle"
+                title="Body Measurements"
+                subtitle={profile
+                  ? `Resting energy ${Math.round(calculateBMR(profile)).toLocaleString()} kcal/day`
+                  : 'Add weight, height and age for accurate calories'}
+                onPress={handleEditProfile}
+                color={colors.accent}
+              />
+            </View>
           </View>
 
           {/* Data & Privacy Section */}
@@ -134,10 +246,17 @@ export default function ProfileScreen() {
               <SettingItem
                 icon="square.and.arrow.up"
                 title="Export Data"
-                subtitle="Export your health data"
+                subtitle="Save or share your data as JSON, CSV or ZIP"
                 onPress={handleExportData}
                 color={colors.primary}
               />
+              <SettingItem
+                icon="square.and.arrow.down"
+                title="Import Data"
+                subtitle="Restore from a previous export"
+                onPress={handleImportData}
+                color={colors.primary}
+              />
             </View>
           </View>
 
@@ -145,6 +264,52 @@ export default function ProfileScreen() {
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>App Settings</Text>
             <View style={styles.settingsGroup}>
+              <SettingItem
+                icon="waveform"
+                title="Sensor Traces"
+                subtitle="Record and replay sensor data for troubleshooting"
+                onPress={handleSensorTraces}
+                color={colors.accent}
+              />
+              <SettingItem
+                icon="play.fill"
+                title="Demo Scenarios"
+                subtitle="Play a simulated day or night through activity recognition"
+                onPress={handleSimulation}
+                color={colors.warning}
+              />
+              <SettingItem
+                icon="slider.horizontal.3"
+                title="Personalized Recognition"
+                subtitle={personalExamples > 0
+                  ? `Learned from ${personalExamples} corrected moments`
+                  : 'Correct activities in Insights to teach the app'}
+                onPress={handlePersonalization}
+                color={colors.secondary}
+              />
+              <SettingItem
+                icon="cpu"
+                title="Classifiers"
+                subtitle="Choose the activity classifier and compare others in the background"
+                onPress={handleClassifiers}
+                color={colors.accent}
+              />
+              <SettingItem
+                icon="battery.100"
+                title="Battery Use"
+                subtitle={POWER_PROFILE_SUMMARIES[powerProfile]}
+                onPress={handlePowerProfile}
+                color={colors.success}
+              />
+              <SettingItem
+                icon="figure.fall"
+                title="Fall Detection"
+                subtitle={fallDetection?.enabled
+                  ? `On · ${fallDetection.sensitivity} sensitivity`
+                  : 'Off · ask if you are OK after a hard fall'}
+                onPress={handleFallDetection}
+                color={colors.error}
+              />
               <SettingItem
                 icon="info.circle.fill"
                 title="About"
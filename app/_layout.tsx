@@ -16,6 +16,9 @@ import {
 import { StatusBar } from "expo-status-bar";
 import { Button } from "@/components/button";
 import { WidgetProvider } from "@/contexts/WidgetContext";
+// Also defines the background task, which has to happen when the bundle loads
+import TrackingService from "@/services/TrackingService";
+import FallDetectionService from "@/services/FallDetectionService";
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
@@ -37,6 +40,20 @@ export default function RootLayout() {
     }
   }, [loaded]);
 
+  // Tracking belongs to the app rather than to a screen, and picks up where the last run left off
+  useEffect(() => {
+    TrackingService.initialize();
+  }, []);
+
+  // A detected fall takes over the screen with the "Are you OK?" countdown, wherever the user is
+  useEffect(() => {
+    return FallDetectionService.subscribe(incident => {
+      if (incident.outcome === null) {
+        router.push("/fall-alert");
+      }
+    });
+  }, []);
+
   React.useEffect(() => {
     if (
       !networkState.isConnected &&
@@ -89,6 +106,86 @@ export default function RootLayout() {
               {/* Main app with tabs */}
               <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
 
+              {/* Profile and data management */}
+              <Stack.Screen
+                name="edit-profile"
+                options={{
+                  presentation: "modal",
+                  title: "Your Profile",
+                }}
+              />
+              <Stack.Screen
+                name="export-data"
+                options={{
+                  presentation: "modal",
+                  title: "Export Data",
+                }}
+              />
+              <Stack.Screen
+                name="import-data"
+                options={{
+                  presentation: "modal",
+                  title: "Import Data",
+                }}
+              />
+              <Stack.Screen
+                name="sensor-traces"
+                options={{
+                  presentation: "modal",
+                  title: "Sensor Traces",
+                }}
+              />
+              <Stack.Screen
+                name="simulation"
+                options={{
+                  presentation: "modal",
+                  title: "Demo Scenarios",
+                }}
+              />
+              <Stack.Screen
+                name="correct-activity"
+                options={{
+                  presentation: "modal",
+                  title: "Correct Activity",
+                }}
+              />
+              <Stack.Screen
+                name="classifiers"
+                options={{
+                  presentation: "modal",
+                  title: "Classifiers",
+                }}
+              />
+              <Stack.Screen
+                name="log-activity"
+                options={{
+                  presentation: "modal",
+                  title: "Log Activity",
+                }}
+              />
+              <Stack.Screen
+                name="power-profile"
+                options={{
+                  presentation: "modal",
+                  title: "Battery Use",
+                }}
+              />
+              <Stack.Screen
+                name="fall-detection"
+                options={{
+                  presentation: "modal",
+                  title: "Fall Detection",
+                }}
+              />
+              <Stack.Screen
+                name="fall-alert"
+                options={{
+                  presentation: "fullScreenModal",
+                  headerShown: false,
+                  gestureEnabled: false,
+                }}
+              />
+
               {/* Modal Demo Screens */}
               <Stack.Screen
                 name="modal"
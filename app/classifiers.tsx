@@ -0,0 +1,297 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ScrollView, View, Text, StyleSheet, Pressable, Alert } from 'react-native';
+import { router } from 'expo-router';
+import { IconSymbol } from '@/components/IconSymbol';
+import { colors } from '@/styles/commonStyles';
+import ClassifierRegistry from '@/services/ClassifierRegistry';
+import ClassifierComparisonService, {
+  ClassifierSelection,
+  ComparisonSummary,
+} from '@/services/ClassifierComparisonService';
+import { ClassifierInfo } from '@/services/ml/ActivityClassifier';
+
+interface ClassifierRow {
+  id: string;
+  info: ClassifierInfo;
+}
+
+// Says what the accuracy was measured on: a model trained and tested only on synthetic traces
+// will do worse on a real phone
+const formatAccuracy = ({ accuracy, evaluationData }: ClassifierInfo) =>
+  accuracy === null
+    ? 'Accuracy not measured'
+    : `${Math.round(accuracy * 100)}% accurate on ${evaluationData ?? 'held-out data'}`;
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+export default function ClassifiersScreen() {
+  const [classifiers, setClassifiers] = useState<ClassifierRow[]>([]);
+  const [primaryId, setPrimaryId] = useState('');
+  const [selection, setSelection] = useState<ClassifierSelection>({ primary: null, shadows: [] });
+  const [summary, setSummary] = useState<ComparisonSummary | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setClassifiers(ClassifierRegistry.getClassifiers().map(classifier => ({
+        id: classifier.id,
+        info: classifier.getInfo(),
+      })));
+      setPrimaryId(ClassifierRegistry.getPrimary().id);
+      setSelection(await ClassifierComparisonService.getSelection());
+      setSummary(await ClassifierComparisonService.getSummary());
+    } catch (error) {
+      console.error('Error loading classifiers:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const updateSelection = async (update: Partial<ClassifierSelection>) => {
+    try {
+      await ClassifierComparisonService.setSelection(update);
+      await load();
+    } catch (error) {
+      console.error('Error saving classifier selection:', error);
+      Alert.alert('Error', 'The selection could not be saved.');
+    }
+  };
+
+  const handleToggleShadow = (id: string) => {
+    const shadows = selection.shadows.includes(id)
+      ? selection.shadows.filter(shadow => shadow !== id)
+      : [...selection.shadows, id];
+    updateSelection({ shadows });
+  };
+
+  const handleClear = () => {
+    Alert.alert('Clear Comparison', 'Forget the agreement counts and the logged disagreements?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await ClassifierComparisonService.clear();
+            await load();
+          } catch (error) {
+            console.error('Error clearing classifier comparison:', error);
+          }
+        },
+      },
+    ]);
+  };
+
+  const getShadowStats = (id: string) => summary?.shadows.find(stats => stats.classifierId === id);
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContainer}>
+        <Text style={styles.intro}>
+          The primary classifier decides your activity. Shadow classifiers score the same moments in the
+          background, and where they disagree is logged on this device so they can be compared before
+          one takes over.
+        </Text>
+
+        <Text style={styles.sectionTitle}>Primary</Text>
+        <View style={styles.options}>
+          <Pressable
+            style={[styles.option, selection.primary === null && styles.optionSelected]}
+            onPress={() => updateSelection({ primary: null })}
+          >
+            <Text style={[styles.optionText, selection.primary === null && styles.optionTextSelected]}>
+              Automatic
+            </Text>
+          </Pressable>
+          {classifiers.map(({ id, info }) => (
+            <Pressable
+              key={id}
+              style={[styles.option, selection.primary === id && styles.optionSelected]}
+              onPress={() => updateSelection({ primary: id })}
+            >
+              <Text style={[styles.optionText, selection.primary === id && styles.optionTextSelected]}>
+                {info.name}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        <Text style={styles.sectionTitle}>Classifiers</Text>
+        <View style={styles.group}>
+          {classifiers.map(({ id, info }) => {
+            const isPrimary = id === primaryId;
+            const isShadow = selection.shadows.includes(id);
+            const stats = getShadowStats(id);
+            return (
+              <View key={id} style={styles.row}>
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowTitle}>
+                    {info.name} {info.version}{isPrimary ? ' · primary' : ''}
+                  </Text>
+                  <Text style={styles.rowMeta}>{formatAccuracy(info)}</Text>
+                  <Text style={styles.rowMeta}>
+                    {info.type === 'rules' ? info.trainingData : `Trained on ${info.trainingData}`}
+                  </Text>
+                  {stats && stats.agreementRate !== null && (
+                    <Text style={styles.rowMeta}>
+                      Agreed on {Math.round(stats.agreementRate * 100)}% of {stats.windows.toLocaleString()} moments
+                    </Text>
+                  )}
+                </View>
+                <Pressable
+                  style={styles.rowAction}
+                  onPress={() => handleToggleShadow(id)}
+                  disabled={isPrimary}
+                >
+                  <IconSymbol
+                    name={isShadow && !isPrimary ? 'checkmark.square.fill' : 'checkmark.square'}
+                    color={isPrimary ? colors.grey : colors.primary}
+                    size={22}
+                  />
+                  <Text style={[styles.rowActionText, isPrimary && styles.rowActionDisabled]}>Shadow</Text>
+                </Pressable>
+              </View>
+            );
+          })}
+        </View>
+
+        {summary && summary.loggedDisagreements > 0 && (
+          <Text style={styles.note}>
+            {summary.loggedDisagreements.toLocaleString()} disagreements logged since {formatDate(summary.since)}
+          </Text>
+        )}
+
+        <Pressable style={styles.secondaryButton} onPress={handleClear}>
+          <IconSymbol name="trash" color={colors.error} size={18} />
+          <Text style={styles.secondaryButtonText}>Clear Comparison</Text>
+        </Pressable>
+
+        <Pressable style={styles.cancelButton} onPress={() => router.back()}>
+          <Text style={styles.cancelButtonText}>Done</Text>
+        </Pressable>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 12,
+    marginTop: 24,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  option: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.grey,
+    backgroundColor: colors.card,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  optionSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  optionTextSelected: {
+    color: colors.card,
+  },
+  group: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.grey,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingLeft: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.grey,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  rowMeta: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  rowAction: {
+    alignItems: 'center',
+    padding: 10,
+  },
+  rowActionText: {
+    fontSize: 11,
+    color: colors.primary,
+    marginTop: 2,
+  },
+  rowActionDisabled: {
+    color: colors.grey,
+  },
+  note: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 8,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.error,
+    paddingVertical: 14,
+    marginTop: 16,
+  },
+  secondaryButtonText: {
+    color: colors.error,
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  cancelButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: colors.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { ScrollView, View, Text, StyleSheet, Pressable, Alert } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { colors } from '@/styles/commonStyles';
+import { ACTIVITIES, getActivityDefinition } from '@/constants/ActivityCatalog';
+import { ActivityType } from '@/services/ActivityRecognitionService';
+import HealthDataService, { ActivityRecord } from '@/services/HealthDataService';
+import PersonalizationService from '@/services/PersonalizationService';
+
+const ACTIVITY_OPTIONS: { key: ActivityType; label: string }[] =
+  ACTIVITIES.map(activity => ({ key: activity.id, label: activity.name }));
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+
+export default function CorrectActivityScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [session, setSession] = useState<ActivityRecord | null>(null);
+  const [activity, setActivity] = useState<ActivityType | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    HealthDataService.getActivity(Number(id))
+      .then(record => {
+        setSession(record);
+        setActivity(record ? (record.activity as ActivityType) : null);
+      })
+      .catch(error => console.error('Error loading activity:', error));
+  }, [id]);
+
+  const handleSave = async () => {
+    if (!session || !activity) return;
+
+    setIsSaving(true);
+    try {
+      const { windowsLearned } = await PersonalizationService.correctActivity(session, activity);
+      Alert.alert(
+        'Activity Corrected',
+        windowsLearned > 0
+          ? `The app learned from ${windowsLearned} moments of this activity and will recognise similar movement as ${getActivityDefinition(activity).name.toLowerCase()}.`
+          : 'The label was changed. The sensor data for this activity is no longer kept, so there was nothing to learn from; correct activities within a week to teach the app.',
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } catch (error) {
+      console.error('Error correcting activity:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'The activity could not be corrected.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!session) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.emptyText}>Loading activity…</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContainer}>
+        <Text style={styles.intro}>
+          Detected as {getActivityDefinition(session.activity).name} from {formatTime(session.timestamp)} to{' '}
+          {formatTime(session.endTimestamp)}. If that's wrong, pick what you were really doing. The app
+          learns from your corrections on this device only.
+        </Text>
+
+        <Text style={styles.sectionTitle}>What were you doing?</Text>
+        <View style={styles.options}>
+          {ACTIVITY_OPTIONS.map(option => (
+            <Pressable
+              key={option.key}
+              style={[styles.option, activity === option.key && styles.optionSelected]}
+              onPress={() => setActivity(option.key)}
+            >
+              <Text style={[styles.optionText, activity === option.key && styles.optionTextSelected]}>
+                {option.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        <Pressable
+          style={[styles.primaryButton, isSaving && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={isSaving}
+        >
+          <Text style={styles.primaryButtonText}>{isSaving ? 'Saving…' : 'Save Correction'}</Text>
+        </Pressable>
+
+        <Pressable style={styles.cancelButton} onPress={() => router.back()}>
+          <Text style={styles.cancelButtonText}>Cancel</Text>
+        </Pressable>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    padding: 16,
+    textAlign: 'center',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 12,
+    marginTop: 24,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  option: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.grey,
+    backgroundColor: colors.card,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  optionSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  optionTextSelected: {
+    color: colors.card,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    color: colors.card,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  cancelButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: colors.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,266 @@
+import React, { useEffect, useState } from 'react';
+import { ScrollView, View, Text, StyleSheet, Pressable, TextInput, Alert } from 'react-native';
+import { router } from 'expo-router';
+import { colors } from '@/styles/commonStyles';
+import HealthDataService from '@/services/HealthDataService';
+import {
+  BiologicalSex,
+  calculateBMR,
+  DEFAULT_PROFILE,
+  UserProfile,
+  validateProfile,
+} from '@/services/EnergyModel';
+
+const SEX_OPTIONS: { key: BiologicalSex; label: string }[] = [
+  { key: 'female', label: 'Female' },
+  { key: 'male', label: 'Male' },
+  { key: 'unspecified', label: 'Prefer not to say' },
+];
+
+interface NumberFieldProps {
+  label: string;
+  unit: string;
+  value: string;
+  placeholder?: string;
+  onChangeText: (text: string) => void;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, unit, value, placeholder, onChangeText }) => (
+  <View style={styles.field}>
+    <Text style={styles.fieldLabel}>{label}</Text>
+    <View style={styles.fieldInputRow}>
+      <TextInput
+        style={styles.fieldInput}
+        value={value}
+        onChangeText={onChangeText}
+        placeholder={placeholder}
+        placeholderTextColor={colors.textSecondary}
+        keyboardType="decimal-pad"
+      />
+      <Text style={styles.fieldUnit}>{unit}</Text>
+    </View>
+  </View>
+);
+
+const parseNumber = (text: string): number => parseFloat(text.replace(',', '.'));
+
+export default function EditProfileScreen() {
+  const [weight, setWeight] = useState('');
+  const [height, setHeight] = useState('');
+  const [age, setAge] = useState('');
+  const [sex, setSex] = useState<BiologicalSex>(DEFAULT_PROFILE.sex);
+  const [restingHeartRate, setRestingHeartRate] = useState('');
+
+  useEffect(() => {
+    const loadProfile = async () => {
+      const profile = await HealthDataService.getProfile();
+      if (profile) {
+        setWeight(profile.weightKg.toString());
+        setHeight(profile.heightCm.toString());
+        setAge(profile.age.toString());
+        setSex(profile.sex);
+        setRestingHeartRate(profile.restingHeartRate?.toString() ?? '');
+      }
+    };
+
+    loadProfile();
+  }, []);
+
+  const profile: UserProfile = {
+    weightKg: parseNumber(weight),
+    heightCm: parseNumber(height),
+    age: Math.round(parseNumber(age)),
+    sex,
+    restingHeartRate: restingHeartRate.trim() ? Math.round(parseNumber(restingHeartRate)) : null,
+  };
+  const problems = validateProfile(profile);
+
+  const handleSave = async () => {
+    if (problems.length > 0) {
+      Alert.alert('Check Your Profile', problems.join('\n'));
+      return;
+    }
+
+    try {
+      await HealthDataService.setProfile(profile);
+      router.back();
+    } catch (error) {
+      console.error('Error saving profile:', error);
+      Alert.alert('Error', 'Failed to save your profile. Please try again.');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContainer} keyboardShouldPersistTaps="handled">
+        <Text style={styles.intro}>
+          Your measurements are stored only on this device and are used to estimate calories burned.
+        </Text>
+
+        <View style={styles.group}>
+          <NumberField label="Weight" unit="kg" value={weight} placeholder="70" onChangeText={setWeight} />
+          <NumberField label="Height" unit="cm" value={height} placeholder="170" onChangeText={setHeight} />
+          <NumberField label="Age" unit="years" value={age} placeholder="30" onChangeText={setAge} />
+          <NumberField
+            label="Resting heart rate"
+            unit="bpm"
+            value={restingHeartRate}
+            placeholder="Optional"
+            onChangeText={setRestingHeartRate}
+          />
+        </View>
+
+        <Text style={styles.sectionTitle}>Sex</Text>
+        <View style={styles.segmented}>
+          {SEX_OPTIONS.map(option => (
+            <Pressable
+              key={option.key}
+              style={[styles.segment, sex === option.key && styles.segmentSelected]}
+              onPress={() => setSex(option.key)}
+            >
+              <Text style={[styles.segmentText, sex === option.key && styles.segmentTextSelected]}>
+                {option.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        <View style={styles.estimate}>
+          <Text style={styles.estimateLabel}>Resting energy (Mifflin-St Jeor)</Text>
+          <Text style={styles.estimateValue}>
+            {problems.length === 0 ? `${Math.round(calculateBMR(profile)).toLocaleString()} kcal/day` : '–'}
+          </Text>
+        </View>
+
+        <Pressable style={styles.saveButton} onPress={handleSave}>
+          <Text style={styles.saveButtonText}>Save</Text>
+        </Pressable>
+
+        <Pressable style={styles.cancelButton} onPress={() => router.back()}>
+          <Text style={styles.cancelButtonText}>Cancel</Text>
+        </Pressable>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  group: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.grey,
+    overflow: 'hidden',
+  },
+  field: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.grey,
+  },
+  fieldLabel: {
+    fontSize: 16,
+    color: colors.text,
+  },
+  fieldInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  fieldInput: {
+    minWidth: 80,
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    textAlign: 'right',
+    paddingVertical: 4,
+  },
+  fieldUnit: {
+    width: 44,
+    marginLeft: 8,
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 12,
+    marginTop: 24,
+  },
+  segmented: {
+    flexDirection: 'row',
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.grey,
+    overflow: 'hidden',
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  segmentSelected: {
+    backgroundColor: colors.primary,
+  },
+  segmentText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  segmentTextSelected: {
+    color: colors.card,
+  },
+  estimate: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginVertical: 24,
+  },
+  estimateLabel: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  estimateValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  saveButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: colors.card,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: colors.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
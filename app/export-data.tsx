@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { ScrollView, View, Text, StyleSheet, Pressable, ActivityIndicator, Alert, Platform } from 'react-native';
+import { router } from 'expo-router';
+import { IconSymbol, IconSymbolName } from '@/components/IconSymbol';
+import { colors } from '@/styles/commonStyles';
+import DataExportService, { ExportFileFormat, ExportRange } from '@/services/DataExportService';
+import { addLocalDays, toLocalDateKey } from '@/utils/dateUtils';
+
+type RangeOption = '7d' | '30d' | '12m' | 'all';
+
+const RANGE_OPTIONS: { key: RangeOption; label: string }[] = [
+  { key: '7d', label: 'Last 7 days' },
+  { key: '30d', label: 'Last 30 days' },
+  { key: '12m', label: 'Last 12 months' },
+  { key: 'all', label: 'All time' },
+];
+
+const FORMAT_OPTIONS: { key: ExportFileFormat; label: string; description: string; icon: IconSymbolName }[] = [
+  { key: 'json', label: 'JSON', description: 'One file with everything, can be imported again', icon: 'doc.text' },
+  { key: 'csv', label: 'CSV', description: 'One spreadsheet per table', icon: 'tablecells' },
+  { key: 'zip', label: 'ZIP archive', description: 'JSON and CSV files bundled together', icon: 'archivebox' },
+];
+
+const getRange = (option: RangeOption): ExportRange => {
+  const today = toLocalDateKey(new Date());
+  switch (option) {
+    case '7d':
+      return { from: addLocalDays(today, -6), to: today };
+    case '30d':
+      return { from: addLocalDays(today, -29), to: today };
+    case '12m':
+      return { from: addLocalDays(today, -364), to: today };
+    default:
+      return { from: null, to: null };
+  }
+};
+
+interface OptionRowProps {
+  label: string;
+  description?: string;
+  icon?: IconSymbolName;
+  selected: boolean;
+  onPress: () => void;
+}
+
+const OptionRow: React.FC<OptionRowProps> = ({ label, description, icon, selected, onPress }) => (
+  <Pressable style={styles.optionRow} onPress={onPress}>
+    {icon && (
+      <View style={styles.optionIcon}>
+        <IconSymbol name={icon} color={colors.primary} size={18} />
+      </View>
+    )}
+    <View style={styles.optionContent}>
+      <Text style={styles.optionLabel}>{label}</Text>
+      {description && <Text style={styles.optionDescription}>{description}</Text>}
+    </View>
+    <IconSymbol
+      name={selected ? 'checkmark.circle.fill' : 'circle'}
+      color={selected ? colors.primary : colors.textSecondary}
+      size={20}
+    />
+  </Pressable>
+);
+
+export default function ExportDataScreen() {
+  const [rangeOption, setRangeOption] = useState<RangeOption>('30d');
+  const [format, setFormat] = useState<ExportFileFormat>('json');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const data = await DataExportService.exportData(format, getRange(rangeOption));
+      if (Platform.OS === 'web') {
+        Alert.alert(
+          'Export Complete',
+          `Downloaded ${data.activities.length} activities and ${data.dailyStats.length} days of stats.`
+        );
+      }
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      Alert.alert('Export Failed', 'Your data could not be exported. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContainer}>
+        <Text style={styles.sectionTitle}>Date Range</Text>
+        <View style={styles.optionsGroup}>
+          {RANGE_OPTIONS.map(option => (
+            <OptionRow
+              key={option.key}
+              label={option.label}
+              selected={rangeOption === option.key}
+              onPress={() => setRangeOption(option.key)}
+            />
+          ))}
+        </View>
+
+        <Text style={styles.sectionTitle}>Format</Text>
+        <View style={styles.optionsGroup}>
+          {FORMAT_OPTIONS.map(option => (
+            <OptionRow
+              key={option.key}
+              label={option.label}
+              description={option.description}
+              icon={option.icon}
+              selected={format === option.key}
+              onPress={() => setFormat(option.key)}
+            />
+          ))}
+        </View>
+
+        <Text style={styles.note}>
+          Exports include activity sessions, daily stats, goals and your profile. Settings of this
+          device, such as tracking and fall detection, are left out. The file is created on this device
+          and only leaves it if you choose to share it.
+        </Text>
+
+        <Pressable
+          style={[styles.exportButton, isExporting && styles.exportButtonDisabled]}
+          onPress={handleExport}
+          disabled={isExporting}
+        >
+          {isExporting ? (
+            <ActivityIndicator color={colors.card} />
+          ) : (
+            <Text style={styles.exportButtonText}>Export</Text>
+          )}
+        </Pressable>
+
+        <Pressable style={styles.cancelButton} onPress={() => router.back()}>
+          <Text style={styles.cancelButtonText}>Done</Text>
+        </Pressable>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 12,
+    marginTop: 8,
+  },
+  optionsGroup: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.grey,
+    overflow: 'hidden',
+    marginBottom: 16,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.grey,
+  },
+  optionIcon: {
+    marginRight: 12,
+  },
+  optionContent: {
+    flex: 1,
+  },
+  optionLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  optionDescription: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  note: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 24,
+  },
+  exportButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  exportButtonDisabled: {
+    opacity: 0.6,
+  },
+  exportButtonText: {
+    color: colors.card,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: colors.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Pressable, Vibration } from 'react-native';
+import { router } from 'expo-router';
+import { IconSymbol } from '@/components/IconSymbol';
+import { colors } from '@/styles/commonStyles';
+import FallDetectionService, { FallIncident } from '@/services/FallDetectionService';
+
+const VIBRATION_PATTERN = [0, 600, 400];
+
+export default function FallAlertScreen() {
+  // Kept after the countdown ends, to say whether the alert went out
+  const [incident, setIncident] = useState<FallIncident | null>(FallDetectionService.getPendingIncident());
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    return FallDetectionService.subscribe(setIncident);
+  }, []);
+
+  const isPending = incident !== null && incident.outcome === null;
+  useEffect(() => {
+    if (!isPending) return;
+
+    Vibration.vibrate(VIBRATION_PATTERN, true);
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => {
+      clearInterval(interval);
+      Vibration.cancel();
+    };
+  }, [isPending]);
+
+  const close = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/');
+    }
+  };
+
+  const handleRespond = async (outcome: 'ok' | 'help') => {
+    try {
+      await FallDetectionService.respond(outcome);
+    } catch (error) {
+      console.error('Error answering fall alert:', error);
+    }
+    if (outcome === 'ok') {
+      close();
+    }
+  };
+
+  if (!incident) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.message}>No fall is being checked right now.</Text>
+        <Pressable style={styles.secondaryButton} onPress={close}>
+          <Text style={styles.secondaryButtonText}>Close</Text>
+        </Pressable>
+      </View>
+    );
+  }
+
+  if (!isPending) {
+    return (
+      <View style={styles.container}>
+        <IconSymbol name="bell.fill" color={colors.card} size={64} />
+        <Text style={styles.title}>
+          {incident.outcome === 'ok' ? "Glad you're OK" : incident.alertSent ? 'Alert Sent' : 'Alert Not Sent'}
+        </Text>
+        <Text style={styles.message}>
+          {incident.outcome === 'ok'
+            ? 'Nothing was sent.'
+            : incident.alertSent
+              ? 'A high-priority notification went out on this phone so anyone nearby can see it.'
+              : 'The alert could not be sent. Allow notifications for this app in the system settings so it can be next time.'}
+        </Text>
+        <Pressable style={styles.secondaryButton} onPress={close}>
+          <Text style={styles.secondaryButtonText}>Close</Text>
+        </Pressable>
+      </View>
+    );
+  }
+
+  const secondsLeft = Math.max(0, Math.ceil((incident.respondBy - now) / 1000));
+
+  return (
+    <View style={styles.container}>
+      <IconSymbol name="figure.fall" color={colors.card} size={64} />
+      <Text style={styles.title}>Are you OK?</Text>
+      <Text style={styles.message}>
+        It looks like you {incident.kind === 'fall' ? 'took a hard fall' : 'had a hard impact'}
+        {incident.source === 'replay' ? ' (in a replayed trace)' : ''}. If you don't answer, an alert
+        goes out in
+      </Text>
+      <Text style={styles.countdown}>{secondsLeft}</Text>
+
+      <Pressable style={styles.okButton} onPress={() => handleRespond('ok')}>
+        <Text style={styles.okButtonText}>I'm OK</Text>
+      </Pressable>
+      <Pressable style={styles.secondaryButton} onPress={() => handleRespond('help')}>
+        <Text style={styles.secondaryButtonText}>I Need Help</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+    backgroundColor: colors.error,
+  },
+  title: {
+    fontSize: 34,
+    fontWeight: '800',
+    color: colors.card,
+    marginTop: 16,
+  },
+  message: {
+    fontSize: 17,
+    color: colors.card,
+    textAlign: 'center',
+    lineHeight: 24,
+    marginTop: 12,
+  },
+  countdown: {
+    fontSize: 96,
+    fontWeight: '800',
+    color: colors.card,
+    marginVertical: 16,
+  },
+  okButton: {
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    backgroundColor: colors.card,
+    borderRadius: 16,
+    paddingVertical: 20,
+    marginTop: 16,
+  },
+  okButtonText: {
+    color: colors.success,
+    fontSize: 22,
+    fontWeight: '800',
+  },
+  secondaryButton: {
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: colors.card,
+    paddingVertical: 16,
+    marginTop: 16,
+  },
+  secondaryButtonText: {
+    color: colors.card,
+    fontSize: 18,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,296 @@
+import React, { useEffect, useState } from 'react';
+import { ScrollView, View, Text, StyleSheet, Pressable, Alert, Switch, Platform } from 'react-native';
+import { router } from 'expo-router';
+import { IconSymbol } from '@/components/IconSymbol';
+import { colors } from '@/styles/commonStyles';
+import FallDetectionService, { FallDetectionSettings, FallIncident } from '@/services/FallDetectionService';
+import { FallSensitivity } from '@/services/FallDetector';
+
+const SENSITIVITY_OPTIONS: { key: FallSensitivity; title: string; description: string }[] = [
+  {
+    key: 'low',
+    title: 'Low',
+    description: 'Only long drops with a hard landing. Fewest false alarms, but softer falls may be missed.',
+  },
+  {
+    key: 'medium',
+    title: 'Medium',
+    description: 'Falls from standing height onto a hard floor, and hard impacts such as a collision.',
+  },
+  {
+    key: 'high',
+    title: 'High',
+    description: 'Also short or cushioned falls. Putting the phone down hard may ask now and then.',
+  },
+];
+
+const OUTCOME_LABELS: { [outcome: string]: string } = {
+  ok: 'Answered OK',
+  help: 'Asked for help',
+  unanswered: 'No answer',
+};
+
+// Tracking keeps the sensors running in the background only on Android; see TrackingService
+const DETECTS_IN_BACKGROUND = Platform.OS === 'android';
+
+const formatOutcome = ({ outcome, alertSent }: FallIncident): string => {
+  if (outcome === null) return 'Waiting for an answer';
+  // Older logs didn't record whether the alert went out
+  if (outcome === 'ok' || alertSent === undefined) return OUTCOME_LABELS[outcome];
+  return `${OUTCOME_LABELS[outcome]}, ${alertSent ? 'alert sent' : 'alert could not be sent'}`;
+};
+
+const formatIncident = (incident: FallIncident): string =>
+  `${incident.kind === 'fall' ? 'Fall' : 'Impact'} · peak ${incident.peakAcceleration.toFixed(1)} g` +
+  (incident.freeFallDuration > 0 ? ` · ${incident.freeFallDuration} ms free fall` : '');
+
+export default function FallDetectionScreen() {
+  const [settings, setSettings] = useState<FallDetectionSettings | null>(null);
+  const [incidents, setIncidents] = useState<FallIncident[]>([]);
+
+  const loadIncidents = async () => {
+    try {
+      setIncidents(await FallDetectionService.getIncidents());
+    } catch (error) {
+      console.error('Error loading fall incidents:', error);
+    }
+  };
+
+  useEffect(() => {
+    FallDetectionService.getSettings()
+      .then(setSettings)
+      .catch(error => console.error('Error loading fall detection settings:', error));
+    loadIncidents();
+
+    // Picks up incidents from replayed traces while the screen is open
+    return FallDetectionService.subscribe(incident => {
+      if (incident.outcome !== null) {
+        loadIncidents();
+      }
+    });
+  }, []);
+
+  const handleChange = async (update: Partial<FallDetectionSettings>) => {
+    try {
+      await FallDetectionService.setSettings(update);
+      setSettings(await FallDetectionService.getSettings());
+    } catch (error) {
+      console.error('Error saving fall detection settings:', error);
+      Alert.alert('Error', 'The setting could not be saved.');
+    }
+  };
+
+  const handleClearLog = () => {
+    Alert.alert(
+      'Clear Incident Log',
+      'This removes every logged fall and impact from this device.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await FallDetectionService.clearIncidents();
+              setIncidents([]);
+            } catch (error) {
+              console.error('Error clearing fall incidents:', error);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContainer}>
+        <Text style={styles.intro}>
+          While tracking is on, the motion sensors are also watched for a hard fall followed by lying
+          still. The app then asks if you are OK, and if nobody answers within 30 seconds it sends a
+          high-priority notification on this phone. Nothing leaves the device, and the alert needs
+          notifications to be allowed. While it is on, the accelerometer keeps its full rate even when
+          the power profile would slow it down, so it uses a little more battery.
+        </Text>
+        <Text style={[styles.intro, !DETECTS_IN_BACKGROUND && styles.warning]}>
+          {DETECTS_IN_BACKGROUND
+            ? 'Falls are also detected while the app is in the background, as long as the tracking notification is showing.'
+            : 'Falls are only detected while the app is open. The motion sensors stop when it goes to the background, so a fall then is missed.'}
+        </Text>
+
+        <View style={styles.switchRow}>
+          <Text style={styles.switchLabel}>Detect falls</Text>
+          <Switch
+            value={settings?.enabled ?? false}
+            onValueChange={enabled => handleChange({ enabled })}
+            disabled={!settings}
+            trackColor={{ true: colors.primary, false: colors.grey }}
+          />
+        </View>
+
+        <Text style={styles.sectionTitle}>Sensitivity</Text>
+        <View style={styles.group}>
+          {SENSITIVITY_OPTIONS.map(option => {
+            const isSelected = settings?.sensitivity === option.key;
+            return (
+              <Pressable key={option.key} style={styles.row} onPress={() => handleChange({ sensitivity: option.key })}>
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowTitle}>{option.title}</Text>
+                  <Text style={styles.rowMeta}>{option.description}</Text>
+                </View>
+                <IconSymbol
+                  name={isSelected ? 'checkmark.circle.fill' : 'circle'}
+                  color={isSelected ? colors.primary : colors.grey}
+                  size={22}
+                />
+              </Pressable>
+            );
+          })}
+        </View>
+
+        <Pressable style={styles.testButton} onPress={() => router.push('/sensor-traces')}>
+          <IconSymbol name="waveform" color={colors.primary} size={18} />
+          <Text style={styles.testButtonText}>Test with a Recorded Trace</Text>
+        </Pressable>
+        <Text style={styles.note}>
+          Replaying a trace runs it through the same detector. Alerts from replays are marked as tests.
+        </Text>
+
+        <Text style={styles.sectionTitle}>Incidents</Text>
+        {incidents.length === 0 ? (
+          <Text style={styles.note}>No falls or impacts have been detected.</Text>
+        ) : (
+          <View style={styles.group}>
+            {incidents.map(incident => (
+              <View key={incident.id} style={styles.row}>
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowTitle}>
+                    {new Date(incident.detectedAt).toLocaleString()}
+                    {incident.source === 'replay' ? ' · test' : ''}
+                  </Text>
+                  <Text style={styles.rowMeta}>{formatIncident(incident)}</Text>
+                  <Text style={[styles.rowMeta, incident.alertSent === false && styles.warning]}>
+                    {formatOutcome(incident)}
+                  </Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {incidents.length > 0 && (
+          <Pressable style={styles.cancelButton} onPress={handleClearLog}>
+            <Text style={styles.clearButtonText}>Clear Log</Text>
+          </Pressable>
+        )}
+
+        <Pressable style={styles.cancelButton} onPress={() => router.back()}>
+          <Text style={styles.cancelButtonText}>Done</Text>
+        </Pressable>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  warning: {
+    color: colors.error,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginVertical: 16,
+  },
+  switchLabel: {
+    fontSize: 16,
+    color: colors.text,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  group: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.grey,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.grey,
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  rowMeta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 18,
+    marginTop: 2,
+  },
+  testButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    paddingVertical: 12,
+    marginTop: 16,
+  },
+  testButtonText: {
+    color: colors.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  note: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 8,
+  },
+  cancelButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  cancelButtonText: {
+    color: colors.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  clearButtonText: {
+    color: colors.error,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,268 @@
+import React, { useState } from 'react';
+import { ScrollView, View, Text, StyleSheet, Pressable, ActivityIndicator, Alert, Switch } from 'react-native';
+import { router } from 'expo-router';
+import { IconSymbol } from '@/components/IconSymbol';
+import { colors } from '@/styles/commonStyles';
+import DataImportService, { ImportPreview, ImportValidationError } from '@/services/DataImportService';
+
+interface PreviewRowProps {
+  label: string;
+  value: string;
+}
+
+const PreviewRow: React.FC<PreviewRowProps> = ({ label, value }) => (
+  <View style={styles.previewRow}>
+    <Text style={styles.previewLabel}>{label}</Text>
+    <Text style={styles.previewValue}>{value}</Text>
+  </View>
+);
+
+export default function ImportDataScreen() {
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [restoreSettings, setRestoreSettings] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleChooseFile = async () => {
+    setIsBusy(true);
+    try {
+      const picked = await DataImportService.pickExportFile();
+      if (picked) {
+        const nextPreview = await DataImportService.previewImport(picked.fileName, picked.data);
+        setPreview(nextPreview);
+        // Keep this device's goals and profile by default when they differ from the file
+        setRestoreSettings(nextPreview.conflicts.length === 0);
+      }
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      if (error instanceof ImportValidationError) {
+        Alert.alert('Invalid File', error.issues.slice(0, 5).join('\n'));
+      } else {
+        Alert.alert('Import Failed', 'The file could not be read. Make sure it is a Health Tracker export.');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Restoring settings alone is still worth doing when every activity is a duplicate
+  const canImport = !!preview && (preview.newActivities > 0 || restoreSettings);
+
+  const handleImport = async () => {
+    if (!preview) return;
+
+    setIsBusy(true);
+    try {
+      const result = await DataImportService.importData(preview.data, { restoreSettings });
+      Alert.alert(
+        'Import Complete',
+        `Added ${result.added} activities, skipped ${result.duplicates} duplicates.` +
+          (result.settingsRestored > 0 ? ' Goals and profile were restored.' : ''),
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } catch (error) {
+      console.error('Error importing data:', error);
+      Alert.alert('Import Failed', 'Nothing was imported. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContainer}>
+        <Text style={styles.intro}>
+          Restore data from a JSON or ZIP file created with Export Data. Activities that are already on
+          this device are skipped, and daily totals are recalculated afterwards.
+        </Text>
+
+        <Pressable
+          style={[styles.secondaryButton, isBusy && styles.buttonDisabled]}
+          onPress={handleChooseFile}
+          disabled={isBusy}
+        >
+          <IconSymbol name="doc" color={colors.primary} size={18} />
+          <Text style={styles.secondaryButtonText}>{preview ? 'Choose Another File' : 'Choose File'}</Text>
+        </Pressable>
+
+        {preview && (
+          <>
+            <Text style={styles.sectionTitle}>Preview</Text>
+            <View style={styles.previewGroup}>
+              <PreviewRow label="File" value={preview.fileName} />
+              <PreviewRow label="Exported" value={new Date(preview.data.exportedAt).toLocaleString()} />
+              <PreviewRow
+                label="Date range"
+                value={preview.dateRange ? `${preview.dateRange.from} – ${preview.dateRange.to}` : 'No activities'}
+              />
+              <PreviewRow label="Activities in file" value={preview.activityCount.toString()} />
+              <PreviewRow label="New activities" value={preview.newActivities.toString()} />
+              <PreviewRow label="Already on this device" value={preview.duplicateActivities.toString()} />
+              <PreviewRow label="Days with stats" value={preview.dailyStatsDays.toString()} />
+            </View>
+
+            {preview.conflicts.length > 0 && (
+              <View style={styles.conflicts}>
+                <View style={styles.conflictsHeader}>
+                  <IconSymbol name="exclamationmark.triangle.fill" color={colors.warning} size={16} />
+                  <Text style={styles.conflictsTitle}>Conflicts</Text>
+                </View>
+                {preview.conflicts.map(conflict => (
+                  <Text key={conflict} style={styles.conflictText}>{conflict}</Text>
+                ))}
+              </View>
+            )}
+
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>Restore goals and profile</Text>
+              <Switch
+                value={restoreSettings}
+                onValueChange={setRestoreSettings}
+                trackColor={{ true: colors.primary, false: colors.grey }}
+              />
+            </View>
+
+            <Pressable
+              style={[styles.primaryButton, (isBusy || !canImport) && styles.buttonDisabled]}
+              onPress={handleImport}
+              disabled={isBusy || !canImport}
+            >
+              {isBusy ? (
+                <ActivityIndicator color={colors.card} />
+              ) : (
+                <Text style={styles.primaryButtonText}>
+                  Import {preview.newActivities} {preview.newActivities === 1 ? 'Activity' : 'Activities'}
+                </Text>
+              )}
+            </Pressable>
+          </>
+        )}
+
+        <Pressable style={styles.cancelButton} onPress={() => router.back()}>
+          <Text style={styles.cancelButtonText}>Cancel</Text>
+        </Pressable>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 12,
+    marginTop: 24,
+  },
+  previewGroup: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.grey,
+    overflow: 'hidden',
+  },
+  previewRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    padding: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.grey,
+  },
+  previewLabel: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  previewValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+    flexShrink: 1,
+    marginLeft: 12,
+    textAlign: 'right',
+  },
+  conflicts: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.warning,
+    padding: 12,
+    marginTop: 16,
+  },
+  conflictsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  conflictsTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginLeft: 8,
+  },
+  conflictText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 18,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginVertical: 16,
+  },
+  switchLabel: {
+    fontSize: 16,
+    color: colors.text,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: colors.card,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    paddingVertical: 14,
+  },
+  secondaryButtonText: {
+    color: colors.primary,
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  cancelButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: colors.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { ScrollView, View, Text, StyleSheet, Pressable, Alert } from 'react-native';
+import { router } from 'expo-router';
+import { IconSymbol } from '@/components/IconSymbol';
+import { colors } from '@/styles/commonStyles';
+import { ACTIVITIES, getActivityDefinition } from '@/constants/ActivityCatalog';
+import { ActivityType } from '@/services/ActivityRecognitionService';
+import HealthDataService from '@/services/HealthDataService';
+
+// Activities the sensors can't recognise come first, as they are the ones that need logging
+const ACTIVITY_OPTIONS = [
+  ...ACTIVITIES.filter(activity => activity.detection === 'manual'),
+  ...ACTIVITIES.filter(activity => activity.detection === 'sensor'),
+];
+
+const DURATION_OPTIONS = [15, 30, 45, 60, 90]; // minutes
+
+const ENDED_OPTIONS: { key: number; label: string }[] = [
+  { key: 0, label: 'Just now' },
+  { key: 30, label: '30 min ago' },
+  { key: 60, label: '1 hour ago' },
+  { key: 120, label: '2 hours ago' },
+  { key: 240, label: '4 hours ago' },
+];
+
+const formatDuration = (minutes: number) =>
+  minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h${minutes % 60 ? ` ${minutes % 60} min` : ''}`;
+
+export default function LogActivityScreen() {
+  const [activity, setActivity] = useState<ActivityType | null>(null);
+  const [duration, setDuration] = useState(30);
+  const [endedAgo, setEndedAgo] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!activity) return;
+
+    setIsSaving(true);
+    try {
+      await HealthDataService.recordActivity(activity, duration, Date.now() - endedAgo * 60000);
+      Alert.alert(
+        'Activity Logged',
+        `${getActivityDefinition(activity).name} for ${formatDuration(duration)} was added to your activities.`,
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } catch (error) {
+      console.error('Error logging activity:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'The activity could not be logged.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContainer}>
+        <Text style={styles.intro}>
+          Add an activity the app didn't pick up, such as a swim, a yoga class or a workout at the gym.
+          It counts towards your calories and active minutes like a detected one.
+        </Text>
+
+        <Text style={styles.sectionTitle}>What were you doing?</Text>
+        <View style={styles.options}>
+          {ACTIVITY_OPTIONS.map(option => (
+            <Pressable
+              key={option.id}
+              style={[styles.option, activity === option.id && styles.optionSelected]}
+              onPress={() => setActivity(option.id)}
+            >
+              <IconSymbol
+                name={option.icon}
+                color={activity === option.id ? colors.card : colors[option.color]}
+                size={16}
+              />
+              <Text style={[styles.optionText, activity === option.id && styles.optionTextSelected]}>
+                {option.name}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        <Text style={styles.sectionTitle}>For how long?</Text>
+        <View style={styles.options}>
+          {DURATION_OPTIONS.map(minutes => (
+            <Pressable
+              key={minutes}
+              style={[styles.option, duration === minutes && styles.optionSelected]}
+              onPress={() => setDuration(minutes)}
+            >
+              <Text style={[styles.optionText, duration === minutes && styles.optionTextSelected]}>
+                {formatDuration(minutes)}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        <Text style={styles.sectionTitle}>When did it end?</Text>
+        <View style={styles.options}>
+          {ENDED_OPTIONS.map(option => (
+            <Pressable
+              key={option.key}
+              style={[styles.option, endedAgo === option.key && styles.optionSelected]}
+              onPress={() => setEndedAgo(option.key)}
+            >
+              <Text style={[styles.optionText, endedAgo === option.key && styles.optionTextSelected]}>
+                {option.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        <Pressable
+          style={[styles.primaryButton, (!activity || isSaving) && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={!activity || isSaving}
+        >
+          <Text style={styles.primaryButtonText}>{isSaving ? 'Saving…' : 'Log Activity'}</Text>
+        </Pressable>
+
+        <Pressable style={styles.cancelButton} onPress={() => router.back()}>
+          <Text style={styles.cancelButtonText}>Cancel</Text>
+        </Pressable>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 12,
+    marginTop: 24,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.grey,
+    backgroundColor: colors.card,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  optionSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  optionTextSelected: {
+    color: colors.card,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    color: colors.card,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  cancelButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: colors.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
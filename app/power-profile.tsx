@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { ScrollView, View, Text, StyleSheet, Pressable, Alert } from 'react-native';
+import { router } from 'expo-router';
+import { IconSymbol } from '@/components/IconSymbol';
+import { colors } from '@/styles/commonStyles';
+import ActivityRecognitionService, { SamplingStatus } from '@/services/ActivityRecognitionService';
+import HealthDataService from '@/services/HealthDataService';
+import { PowerProfile, POWER_PROFILE_SETTING } from '@/services/AdaptiveSampler';
+
+const PROFILE_OPTIONS: { key: PowerProfile; title: string; description: string }[] = [
+  {
+    key: 'high-accuracy',
+    title: 'High Accuracy',
+    description: 'Reads the motion sensors ten times a second and checks your activity every 2 seconds, all the time.',
+  },
+  {
+    key: 'balanced',
+    title: 'Balanced',
+    description: 'Full rate while you move. After 5 minutes of sitting or sleeping the sensors slow down until the phone moves again.',
+  },
+  {
+    key: 'battery-saver',
+    title: 'Battery Saver',
+    description: 'Checks your activity half as often while you move and rests after 2 minutes still. Short activities may be missed.',
+  },
+];
+
+const formatStatus = ({ mode, sampleInterval, classificationInterval, gyroscope }: SamplingStatus) =>
+  `${mode === 'resting' ? 'Resting' : 'Active'}: sensors at ${Math.round(1000 / sampleInterval)} Hz` +
+  `${gyroscope ? '' : ' without the gyroscope'}, activity checked every ${classificationInterval / 1000} s`;
+
+export default function PowerProfileScreen() {
+  const [status, setStatus] = useState<SamplingStatus>(ActivityRecognitionService.getSamplingStatus());
+
+  useEffect(() => {
+    // The mode changes as the phone rests and wakes
+    const timer = setInterval(() => setStatus(ActivityRecognitionService.getSamplingStatus()), 2000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleSelect = async (profile: PowerProfile) => {
+    try {
+      await HealthDataService.setSetting(POWER_PROFILE_SETTING, profile);
+      ActivityRecognitionService.setPowerProfile(profile);
+      setStatus(ActivityRecognitionService.getSamplingStatus());
+    } catch (error) {
+      console.error('Error saving power profile:', error);
+      Alert.alert('Error', 'The setting could not be saved.');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContainer}>
+        <Text style={styles.intro}>
+          Activity recognition reads the motion sensors while tracking is on. Choose how much battery it
+          may use; everything still runs on this device only.
+        </Text>
+
+        <View style={styles.group}>
+          {PROFILE_OPTIONS.map(option => {
+            const isSelected = status.profile === option.key;
+            return (
+              <Pressable key={option.key} style={styles.row} onPress={() => handleSelect(option.key)}>
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowTitle}>{option.title}</Text>
+                  <Text style={styles.rowMeta}>{option.description}</Text>
+                </View>
+                <IconSymbol
+                  name={isSelected ? 'checkmark.circle.fill' : 'circle'}
+                  color={isSelected ? colors.primary : colors.grey}
+                  size={22}
+                />
+              </Pressable>
+            );
+          })}
+        </View>
+
+        <Text style={styles.note}>{formatStatus(status)}</Text>
+
+        <Pressable style={styles.cancelButton} onPress={() => router.back()}>
+          <Text style={styles.cancelButtonText}>Done</Text>
+        </Pressable>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 24,
+  },
+  group: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.grey,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.grey,
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  rowMeta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 18,
+    marginTop: 2,
+  },
+  note: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 8,
+  },
+  cancelButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  cancelButtonText: {
+    color: colors.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,400 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ScrollView, View, Text, StyleSheet, Pressable, Alert } from 'react-native';
+import { router } from 'expo-router';
+import { IconSymbol } from '@/components/IconSymbol';
+import { colors } from '@/styles/commonStyles';
+import { ACTIVITIES } from '@/constants/ActivityCatalog';
+import ActivityRecognitionService, { ActivityType, RecordingStatus } from '@/services/ActivityRecognitionService';
+import { SensorTrace } from '@/services/SensorTrace';
+import SensorTraceService, { TraceFileInfo } from '@/services/SensorTraceService';
+
+// Recordings of activities that are only logged by hand today are what it takes to detect them later
+const LABEL_OPTIONS: { key: ActivityType | null; label: string }[] = [
+  ...ACTIVITIES.map(activity => ({ key: activity.id, label: activity.name })),
+  { key: null, label: 'Unlabeled' },
+];
+
+const SPEED_OPTIONS = [1, 10, 60];
+
+const formatElapsed = (ms: number): string => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+const formatSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+export default function SensorTracesScreen() {
+  const [label, setLabel] = useState<ActivityType | null>('walking');
+  const [recording, setRecording] = useState<RecordingStatus | null>(ActivityRecognitionService.getRecordingStatus());
+  const [traces, setTraces] = useState<TraceFileInfo[]>([]);
+  const [speed, setSpeed] = useState(10);
+  const [replaying, setReplaying] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const loadTraces = useCallback(async () => {
+    try {
+      setTraces(await SensorTraceService.listTraces());
+    } catch (error) {
+      console.error('Error listing sensor traces:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTraces();
+  }, [loadTraces]);
+
+  // Keep the recording timer and event count moving
+  const isRecording = recording !== null;
+  useEffect(() => {
+    if (!isRecording) return;
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      setRecording(ActivityRecognitionService.getRecordingStatus());
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  const handleSelectLabel = (key: ActivityType | null) => {
+    setLabel(key);
+    ActivityRecognitionService.setRecordingLabel(key);
+  };
+
+  const handleStartRecording = () => {
+    try {
+      ActivityRecognitionService.startRecording(label);
+      setRecording(ActivityRecognitionService.getRecordingStatus());
+      setNow(Date.now());
+    } catch (error) {
+      console.error('Error starting sensor recording:', error);
+      Alert.alert('Cannot Record', 'Start tracking on the Home tab first, then record a trace.');
+    }
+  };
+
+  const handleStopRecording = async () => {
+    try {
+      const saved = await ActivityRecognitionService.stopRecording();
+      setRecording(null);
+      if (saved) {
+        Alert.alert('Trace Saved', saved.name);
+      }
+      await loadTraces();
+    } catch (error) {
+      console.error('Error saving sensor trace:', error);
+      Alert.alert('Error', 'The trace could not be saved.');
+    }
+  };
+
+  const replay = async (name: string, trace: SensorTrace) => {
+    setReplaying(name);
+    try {
+      await ActivityRecognitionService.startReplay(trace, { speed });
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  const handleReplay = async (name: string) => {
+    try {
+      await replay(name, await SensorTraceService.loadTrace(name));
+    } catch (error) {
+      console.error('Error replaying sensor trace:', error);
+      Alert.alert('Replay Failed', error instanceof Error ? error.message : 'The trace could not be replayed.');
+    }
+  };
+
+  const handleOpenFile = async () => {
+    try {
+      const trace = await SensorTraceService.pickTraceFile();
+      if (trace) {
+        await replay('Opened file', trace);
+      }
+    } catch (error) {
+      console.error('Error opening sensor trace:', error);
+      Alert.alert('Replay Failed', error instanceof Error ? error.message : 'The file could not be read.');
+    }
+  };
+
+  const handleShare = async (name: string) => {
+    try {
+      await SensorTraceService.shareTrace(name);
+    } catch (error) {
+      console.error('Error sharing sensor trace:', error);
+      Alert.alert('Error', 'The trace could not be shared.');
+    }
+  };
+
+  const handleDelete = (name: string) => {
+    Alert.alert('Delete Trace', `Delete ${name}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await SensorTraceService.deleteTrace(name);
+          await loadTraces();
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContainer}>
+        <Text style={styles.intro}>
+          Record the raw motion sensors while you do a known activity, then replay the recording through
+          activity recognition to reproduce a misclassification.
+        </Text>
+
+        <Text style={styles.sectionTitle}>What are you doing?</Text>
+        <View style={styles.options}>
+          {LABEL_OPTIONS.map(option => (
+            <Pressable
+              key={option.label}
+              style={[styles.option, label === option.key && styles.optionSelected]}
+              onPress={() => handleSelectLabel(option.key)}
+            >
+              <Text style={[styles.optionText, label === option.key && styles.optionTextSelected]}>
+                {option.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        {recording ? (
+          <Pressable style={[styles.primaryButton, styles.recordingButton]} onPress={handleStopRecording}>
+            <IconSymbol name="stop.fill" color={colors.card} size={18} />
+            <Text style={styles.primaryButtonText}>
+              Stop & Save · {formatElapsed(now - recording.startedAt)} · {recording.eventCount.toLocaleString()} samples
+            </Text>
+          </Pressable>
+        ) : (
+          <Pressable
+            style={[styles.primaryButton, replaying !== null && styles.buttonDisabled]}
+            onPress={handleStartRecording}
+            disabled={replaying !== null}
+          >
+            <IconSymbol name="record.circle" color={colors.card} size={18} />
+            <Text style={styles.primaryButtonText}>Start Recording</Text>
+          </Pressable>
+        )}
+
+        <Text style={styles.sectionTitle}>Replay speed</Text>
+        <View style={styles.options}>
+          {SPEED_OPTIONS.map(option => (
+            <Pressable
+              key={option}
+              style={[styles.option, speed === option && styles.optionSelected]}
+              onPress={() => setSpeed(option)}
+            >
+              <Text style={[styles.optionText, speed === option && styles.optionTextSelected]}>{option}×</Text>
+            </Pressable>
+          ))}
+        </View>
+
+        {replaying !== null && (
+          <View style={styles.replayBanner}>
+            <Text style={styles.replayText} numberOfLines={1}>Replaying {replaying}</Text>
+            <Pressable onPress={() => ActivityRecognitionService.stopReplay()}>
+              <Text style={styles.replayStop}>Stop</Text>
+            </Pressable>
+          </View>
+        )}
+
+        <Text style={styles.sectionTitle}>Saved traces</Text>
+        <View style={styles.traceGroup}>
+          {traces.length === 0 && <Text style={styles.emptyText}>No traces recorded yet</Text>}
+          {traces.map(trace => (
+            <View key={trace.name} style={styles.traceRow}>
+              <View style={styles.traceInfo}>
+                <Text style={styles.traceName} numberOfLines={1}>{trace.name}</Text>
+                <Text style={styles.traceMeta}>{formatSize(trace.size)}</Text>
+              </View>
+              <Pressable
+                style={styles.traceAction}
+                onPress={() => handleReplay(trace.name)}
+                disabled={replaying !== null || isRecording}
+              >
+                <IconSymbol name="play.fill" color={colors.primary} size={20} />
+              </Pressable>
+              <Pressable style={styles.traceAction} onPress={() => handleShare(trace.name)}>
+                <IconSymbol name="square.and.arrow.up" color={colors.primary} size={20} />
+              </Pressable>
+              <Pressable style={styles.traceAction} onPress={() => handleDelete(trace.name)}>
+                <IconSymbol name="trash" color={colors.error} size={20} />
+              </Pressable>
+            </View>
+          ))}
+        </View>
+
+        <Pressable
+          style={[styles.secondaryButton, (replaying !== null || isRecording) && styles.buttonDisabled]}
+          onPress={handleOpenFile}
+          disabled={replaying !== null || isRecording}
+        >
+          <IconSymbol name="doc" color={colors.primary} size={18} />
+          <Text style={styles.secondaryButtonText}>Replay a Trace File</Text>
+        </Pressable>
+
+        <Pressable style={styles.cancelButton} onPress={() => router.back()}>
+          <Text style={styles.cancelButtonText}>Done</Text>
+        </Pressable>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 12,
+    marginTop: 24,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  option: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.grey,
+    backgroundColor: colors.card,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  optionSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  optionTextSelected: {
+    color: colors.card,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 8,
+  },
+  recordingButton: {
+    backgroundColor: colors.error,
+  },
+  primaryButtonText: {
+    color: colors.card,
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  replayBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    padding: 12,
+    marginTop: 8,
+  },
+  replayText: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.text,
+  },
+  replayStop: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.error,
+    marginLeft: 12,
+  },
+  traceGroup: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.grey,
+    overflow: 'hidden',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    padding: 16,
+    textAlign: 'center',
+  },
+  traceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingLeft: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.grey,
+  },
+  traceInfo: {
+    flex: 1,
+  },
+  traceName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  traceMeta: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  traceAction: {
+    padding: 10,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    paddingVertical: 14,
+    marginTop: 16,
+  },
+  secondaryButtonText: {
+    color: colors.primary,
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  cancelButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: colors.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
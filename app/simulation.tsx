@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import { ScrollView, View, Text, StyleSheet, Pressable, Alert } from 'react-native';
+import { router } from 'expo-router';
+import { IconSymbol } from '@/components/IconSymbol';
+import { colors } from '@/styles/commonStyles';
+import ActivityRecognitionService from '@/services/ActivityRecognitionService';
+import SensorTraceService from '@/services/SensorTraceService';
+import {
+  BUILT_IN_SCENARIOS,
+  getScenarioDuration,
+  Scenario,
+  streamScenario,
+} from '@/services/SimulationScenario';
+
+const formatDuration = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return `${Math.round(ms / 1000)} s`;
+  if (minutes < 60) return `${minutes} min`;
+  return minutes % 60 === 0 ? `${minutes / 60} h` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+const formatScenario = (scenario: Scenario): string => {
+  const duration = getScenarioDuration(scenario);
+  return scenario.speed === 1
+    ? `${formatDuration(duration)} in real time`
+    : `${formatDuration(duration)} played in ${formatDuration(duration / scenario.speed)} (${scenario.speed}×)`;
+};
+
+export default function SimulationScreen() {
+  const [scenarios, setScenarios] = useState<Scenario[]>(BUILT_IN_SCENARIOS);
+  const [playing, setPlaying] = useState<string | null>(null);
+
+  const play = async (scenario: Scenario) => {
+    setPlaying(scenario.name);
+    try {
+      await ActivityRecognitionService.startReplay(streamScenario(scenario), {
+        speed: scenario.speed,
+        endAtFinish: true,
+      });
+    } catch (error) {
+      console.error('Error playing scenario:', error);
+      Alert.alert('Scenario Failed', error instanceof Error ? error.message : 'The scenario could not be played.');
+    } finally {
+      setPlaying(null);
+    }
+  };
+
+  const handlePlay = (scenario: Scenario) => {
+    Alert.alert(
+      `Play ${scenario.name}?`,
+      'The recognised activities show on the home screen as the scenario plays, but nothing is saved ' +
+        'to your history. Live sensors pause until it finishes.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Play', onPress: () => play(scenario) },
+      ]
+    );
+  };
+
+  const handleOpenFile = async () => {
+    try {
+      const scenario = await SensorTraceService.pickScenarioFile();
+      if (scenario) {
+        setScenarios(current => [...current.filter(({ id }) => id !== scenario.id), scenario]);
+      }
+    } catch (error) {
+      console.error('Error opening scenario:', error);
+      Alert.alert('Cannot Open Scenario', error instanceof Error ? error.message : 'The file could not be read.');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContainer}>
+        <Text style={styles.intro}>
+          A scenario plays simulated sensor data through activity recognition in place of the real
+          sensors, to show the app off or to test it. Nothing is simulated unless you play one here, and
+          simulated activities and steps are never saved to your history.
+        </Text>
+
+        {playing !== null && (
+          <View style={styles.playingBanner}>
+            <Text style={styles.playingText} numberOfLines={1}>Playing {playing}</Text>
+            <Pressable onPress={() => ActivityRecognitionService.stopReplay()}>
+              <Text style={styles.playingStop}>Stop</Text>
+            </Pressable>
+          </View>
+        )}
+
+        <Text style={styles.sectionTitle}>Scenarios</Text>
+        <View style={styles.group}>
+          {scenarios.map(scenario => (
+            <View key={scenario.id} style={styles.row}>
+              <View style={styles.rowInfo}>
+                <Text style={styles.rowTitle}>{scenario.name}</Text>
+                {scenario.description !== '' && <Text style={styles.rowMeta}>{scenario.description}</Text>}
+                <Text style={styles.rowMeta}>{formatScenario(scenario)}</Text>
+              </View>
+              <Pressable
+                style={styles.rowAction}
+                onPress={() => handlePlay(scenario)}
+                disabled={playing !== null}
+              >
+                <IconSymbol name="play.fill" color={playing !== null ? colors.grey : colors.primary} size={22} />
+              </Pressable>
+            </View>
+          ))}
+        </View>
+
+        <Pressable
+          style={[styles.secondaryButton, playing !== null && styles.buttonDisabled]}
+          onPress={handleOpenFile}
+          disabled={playing !== null}
+        >
+          <IconSymbol name="doc" color={colors.primary} size={18} />
+          <Text style={styles.secondaryButtonText}>Open a Scenario File</Text>
+        </Pressable>
+        <Text style={styles.note}>
+          A scenario file is JSON listing activities with their minutes, optionally with a step rate for
+          walking and running, sensor noise and how much faster than real time to play.
+        </Text>
+
+        <Pressable style={styles.cancelButton} onPress={() => router.back()}>
+          <Text style={styles.cancelButtonText}>Done</Text>
+        </Pressable>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 12,
+    marginTop: 24,
+  },
+  playingBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    padding: 12,
+    marginTop: 16,
+  },
+  playingText: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.text,
+  },
+  playingStop: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.error,
+    marginLeft: 12,
+  },
+  group: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.grey,
+    overflow: 'hidden',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingLeft: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.grey,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  rowMeta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 18,
+    marginTop: 2,
+  },
+  rowAction: {
+    padding: 12,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    paddingVertical: 14,
+    marginTop: 16,
+  },
+  secondaryButtonText: {
+    color: colors.primary,
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  note: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    lineHeight: 18,
+    marginTop: 8,
+  },
+  cancelButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  cancelButtonText: {
+    color: colors.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -1,58 +1,39 @@
 
 import React from 'react';
 import { View, Text, StyleSheet, Dimensions } from 'react-native';
-import { IconSymbol } from './IconSymbol';
+import { IconSymbol, IconSymbolName } from './IconSymbol';
 import { colors } from '@/styles/commonStyles';
+import { getActivityDefinition } from '@/constants/ActivityCatalog';
+import { LOW_CONFIDENCE_THRESHOLD } from '@/services/ActivityRecognitionService';
 
 const { width } = Dimensions.get('window');
 
 interface ActivityCardProps {
   activity: string;
+  confidence?: number | null; // of the latest classification, null before there is one
   isTracking: boolean;
 }
 
-const getActivityIcon = (activity: string) => {
-  switch (activity.toLowerCase()) {
-    case 'walking':
-      return 'figure.walk';
-    case 'running':
-      return 'figure.run';
-    case 'cycling':
-      return 'bicycle';
-    case 'sleeping':
-      return 'moon.fill';
-    case 'driving':
-      return 'car.fill';
-    default:
-      return 'figure.stand';
+// 'unknown' isn't an activity in the catalog, just the lack of one
+const getActivityDisplay = (activity: string): { name: string; icon: IconSymbolName; color: string } => {
+  if (activity === 'unknown') {
+    return { name: 'Unknown', icon: 'questionmark.circle', color: colors.grey };
   }
+  const definition = getActivityDefinition(activity);
+  return { name: definition.name, icon: definition.icon, color: colors[definition.color] };
 };
 
-const getActivityColor = (activity: string) => {
-  switch (activity.toLowerCase()) {
-    case 'walking':
-      return colors.primary;
-    case 'running':
-      return colors.error;
-    case 'cycling':
-      return colors.secondary;
-    case 'sleeping':
-      return colors.textSecondary;
-    case 'driving':
-      return colors.warning;
-    default:
-      return colors.grey;
-  }
-};
-
-const formatActivityName = (activity: string) => {
-  return activity.charAt(0).toUpperCase() + activity.slice(1);
+const formatStatus = (activity: string, isTracking: boolean, confidence: number | null) => {
+  if (!isTracking) return 'Tracking paused';
+  if (confidence === null) return 'Tracking active';
+  if (activity === 'unknown') return 'Tracking active · Can\'t tell what you\'re doing';
+  return confidence < LOW_CONFIDENCE_THRESHOLD
+    ? 'Tracking active · Not sure yet'
+    : `Tracking active · ${Math.round(confidence * 100)}% confident`;
 };
 
-export const ActivityCard: React.FC<ActivityCardProps> = ({ activity, isTracking }) => {
-  const activityIcon = getActivityIcon(activity);
-  const activityColor = getActivityColor(activity);
-  const activityName = formatActivityName(activity);
+export const ActivityCard: React.FC<ActivityCardProps> = ({ activity, confidence = null, isTracking }) => {
+  const { name: activityName, icon: activityIcon, color: activityColor } = getActivityDisplay(activity);
 
   return (
     <View style={styles.container}>
@@ -67,7 +48,7 @@ export const ActivityCard: React.FC<ActivityCardProps> = ({ activity, isTracking
         <View style={styles.textContainer}>
           <Text style={styles.activityName}>{activityName}</Text>
           <Text style={styles.statusText}>
-            {isTracking ? 'Tracking active' : 'Tracking paused'}
+            {formatStatus(activity, isTracking, confidence)}
           </Text>
         </View>
         <View style={styles.statusIndicator}>
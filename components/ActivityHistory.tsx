@@ -1,54 +1,27 @@
 
 import React from 'react';
-import { View, Text, StyleSheet, FlatList } from 'react-native';
+import { View, Text, StyleSheet, FlatList, Pressable } from 'react-native';
 import { IconSymbol } from './IconSymbol';
 import { colors } from '@/styles/commonStyles';
+import { getActivityDefinition } from '@/constants/ActivityCatalog';
 
 interface ActivityRecord {
   id?: number;
   activity: string;
   timestamp: number;
+  endTimestamp: number;
   duration: number;
   date: string;
+  utcOffset: number | null;
+  isOpen: boolean;
 }
 
 interface ActivityHistoryProps {
   activities: ActivityRecord[];
+  // Called when a finished activity is tapped, e.g. to correct it
+  onSelectActivity?: (activity: ActivityRecord) => void;
 }
 
-const getActivityIcon = (activity: string) => {
-  switch (activity.toLowerCase()) {
-    case 'walking':
-      return 'figure.walk';
-    case 'running':
-      return 'figure.run';
-    case 'cycling':
-      return 'bicycle';
-    case 'sleeping':
-      return 'moon.fill';
-    case 'driving':
-      return 'car.fill';
-    default:
-      return 'figure.stand';
-  }
-};
-
-const getActivityColor = (activity: string) => {
-  switch (activity.toLowerCase()) {
-    case 'walking':
-      return colors.primary;
-    case 'running':
-      return colors.error;
-    case 'cycling':
-      return colors.secondary;
-    case 'sleeping':
-      return colors.textSecondary;
-    case 'driving':
-      return colors.warning;
-    default:
-      return colors.grey;
-  }
-};
 
 const formatTime = (timestamp: number) => {
   const date = new Date(timestamp);
@@ -77,38 +50,50 @@ const formatDate = (timestamp: number) => {
   }
 };
 
-const formatActivityName = (activity: string) => {
-  return activity.charAt(0).toUpperCase() + activity.slice(1);
+const formatDuration = (minutes: number) => {
+  if (minutes < 1) {
+    return '< 1 minute';
+  }
+  if (minutes < 60) {
+    const rounded = Math.round(minutes);
+    return `${rounded} ${rounded === 1 ? 'minute' : 'minutes'}`;
+  }
+  const hours = Math.floor(minutes / 60);
+  const remainingMinutes = Math.round(minutes % 60);
+  return remainingMinutes > 0 ? `${hours}h ${remainingMinutes}m` : `${hours}h`;
 };
 
-export const ActivityHistory: React.FC<ActivityHistoryProps> = ({ activities }) => {
+export const ActivityHistory: React.FC<ActivityHistoryProps> = ({ activities, onSelectActivity }) => {
   const renderActivityItem = ({ item }: { item: ActivityRecord }) => {
-    const activityIcon = getActivityIcon(item.activity);
-    const activityColor = getActivityColor(item.activity);
-    const activityName = formatActivityName(item.activity);
+    const definition = getActivityDefinition(item.activity);
+    const activityColor = colors[definition.color];
 
     return (
-      <View style={styles.activityItem}>
+      <Pressable
+        style={styles.activityItem}
+        onPress={onSelectActivity && !item.isOpen ? () => onSelectActivity(item) : undefined}
+        disabled={!onSelectActivity || item.isOpen}
+      >
         <View style={[styles.activityIcon, { backgroundColor: activityColor }]}>
           <IconSymbol 
-            name={activityIcon} 
+            name={definition.icon} 
             color={colors.card} 
             size={20} 
           />
         </View>
         <View style={styles.activityContent}>
           <View style={styles.activityHeader}>
-            <Text style={styles.activityName}>{activityName}</Text>
+            <Text style={styles.activityName}>{definition.name}</Text>
             <Text style={styles.activityTime}>{formatTime(item.timestamp)}</Text>
           </View>
           <View style={styles.activityDetails}>
             <Text style={styles.activityDate}>{formatDate(item.timestamp)}</Text>
             <Text style={styles.activityDuration}>
-              {item.duration} {item.duration === 1 ? 'minute' : 'minutes'}
+              {item.isOpen ? 'In progress' : formatDuration(item.duration)}
             </Text>
           </View>
         </View>
-      </View>
+      </Pressable>
     );
   };
 
@@ -109,6 +109,7 @@ const MAPPING = {
   "antenna.radiowaves.left.and.right": "signal-cellular-alt",
   "battery.100": "battery-full",
   "battery.25": "battery-2-bar",
+  "cpu": "memory",
   "lock.fill": "lock",
   "lock.open.fill": "lock-open",
 
@@ -148,6 +149,10 @@ const MAPPING = {
   "square.and.arrow.up": "share",
   "square.and.arrow.down": "download",
   "arrow.up.doc.fill": "upload-file",
+  "tablecells": "table-chart",
+  "archivebox": "archive",
+  "record.circle": "fiber-manual-record",
+  "waveform": "graphic-eq",
   "link": "link",
 
   // Search & Discovery
@@ -155,6 +160,18 @@ const MAPPING = {
   "line.3.horizontal.decrease": "filter-list",
   "arrow.up.arrow.down": "sort",
 
+  // Activities
+  "figure.stand": "accessibility-new",
+  "figure.walk": "directions-walk",
+  "figure.run": "directions-run",
+  "bicycle": "directions-bike",
+  "car.fill": "directions-car",
+  "figure.stairs": "stairs",
+  "dumbbell.fill": "fitness-center",
+  "figure.yoga": "self-improvement",
+  "figure.pool.swim": "pool",
+  "figure.fall": "personal-injury",
+
   // Visibility & Display
   "eye.fill": "visibility",
   "eye.slash.fill": "visibility-off",
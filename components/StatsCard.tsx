@@ -22,7 +22,7 @@ export const StatsCard: React.FC<StatsCardProps> = ({
   color, 
   target 
 }) => {
-  const progress = target ? (parseFloat(value) / parseFloat(target.replace(',', ''))) * 100 : 0;
+  const progress = target ? (parseFloat(value) / parseFloat(target.replace(/,/g, ''))) * 100 : 0;
   const clampedProgress = Math.min(progress, 100);
 
   return (
@@ -75,13 +75,13 @@ export const WelcomeModal: React.FC<WelcomeModalProps> = ({ visible, onClose })
           {/* Demo Notice */}
           <View style={styles.demoNotice}>
             <View style={styles.demoHeader}>
-              <IconSymbol name="play.circle.fill" color={colors.warning} size={20} />
-              <Text style={styles.demoTitle}>Demo Mode Active</Text>
+              <IconSymbol name="play.fill" color={colors.warning} size={20} />
+              <Text style={styles.demoTitle}>Want a Demo?</Text>
             </View>
             <Text style={styles.demoText}>
-              This app is running in demo mode with simulated sensor data. 
-              In a real deployment, it would use your device&apos;s actual sensors 
-              (accelerometer, gyroscope, pedometer) for accurate activity recognition.
+              The app reads your device&apos;s actual sensors (accelerometer, gyroscope, pedometer).
+              To see it in action without moving, play a simulated day or night from
+              Profile → Demo Scenarios.
             </Text>
           </View>
 
@@ -0,0 +1,167 @@
+// Every activity the app knows about, in one place. Services, the classifiers and the screens all
+// read from here, so adding an activity means adding an entry rather than another case to every
+// switch. Kept free of React Native imports so the Node scripts can use it too.
+
+import type { IconSymbolName } from "../components/IconSymbol";
+
+export const ACTIVITY_IDS = [
+  "idle",
+  "walking",
+  "running",
+  "cycling",
+  "sleeping",
+  "driving",
+  "stairs",
+  "strength",
+  "yoga",
+  "swimming",
+] as const;
+
+export type ActivityType = typeof ACTIVITY_IDS[number];
+
+// Names of the colors in styles/commonStyles
+export type ActivityColor = "primary" | "secondary" | "accent" | "error" | "warning" | "success" | "textSecondary" | "grey";
+
+export interface ActivityDefinition {
+  id: ActivityType;
+  name: string;
+  icon: IconSymbolName; // SF Symbol name, mapped for other platforms in components/IconSymbol
+  color: ActivityColor;
+  met: number; // metabolic equivalent, from the Compendium of Physical Activities (2011 update)
+  active: boolean; // counts towards active minutes
+  sleep: boolean; // counts towards sleep hours
+  // Steps per minute assumed when nothing measured them; 0 for activities without steps
+  stepsPerMinute: number;
+  // 'sensor' activities are recognised from the motion sensors; 'manual' ones are logged by hand or
+  // taught through corrections, as the phone can't reliably tell them apart on its own
+  detection: "sensor" | "manual";
+}
+
+export const ACTIVITY_CATALOG: { [id in ActivityType]: ActivityDefinition } = {
+  idle: {
+    id: "idle",
+    name: "Idle",
+    icon: "figure.stand",
+    color: "grey",
+    met: 1.3, // sitting or standing quietly
+    active: false,
+    sleep: false,
+    stepsPerMinute: 0,
+    detection: "sensor",
+  },
+  walking: {
+    id: "walking",
+    name: "Walking",
+    icon: "figure.walk",
+    color: "primary",
+    met: 3.5, // 2.8-3.2 mph, level ground
+    active: true,
+    sleep: false,
+    stepsPerMinute: 100,
+    detection: "sensor",
+  },
+  running: {
+    id: "running",
+    name: "Running",
+    icon: "figure.run",
+    color: "error",
+    met: 9.8, // 6 mph
+    active: true,
+    sleep: false,
+    stepsPerMinute: 180,
+    detection: "sensor",
+  },
+  cycling: {
+    id: "cycling",
+    name: "Cycling",
+    icon: "bicycle",
+    color: "secondary",
+    met: 7.5, // general, leisure
+    active: true,
+    sleep: false,
+    stepsPerMinute: 0,
+    detection: "sensor",
+  },
+  sleeping: {
+    id: "sleeping",
+    name: "Sleeping",
+    icon: "moon.fill",
+    color: "textSecondary",
+    met: 0.95,
+    active: false,
+    sleep: true,
+    stepsPerMinute: 0,
+    detection: "sensor",
+  },
+  driving: {
+    id: "driving",
+    name: "Driving",
+    icon: "car.fill",
+    color: "warning",
+    met: 2.0, // driving a car
+    active: false,
+    sleep: false,
+    stepsPerMinute: 0,
+    detection: "sensor",
+  },
+  stairs: {
+    id: "stairs",
+    name: "Climbing Stairs",
+    icon: "figure.stairs",
+    color: "accent",
+    met: 4.0, // stair climbing, slow pace
+    active: true,
+    sleep: false,
+    stepsPerMinute: 90,
+    detection: "manual",
+  },
+  strength: {
+    id: "strength",
+    name: "Strength Training",
+    icon: "dumbbell.fill",
+    color: "error",
+    met: 3.5, // resistance training, multiple exercises, 8-15 repetitions
+    active: true,
+    sleep: false,
+    stepsPerMinute: 0,
+    detection: "manual",
+  },
+  yoga: {
+    id: "yoga",
+    name: "Yoga",
+    icon: "figure.yoga",
+    color: "success",
+    met: 2.5, // Hatha
+    active: true,
+    sleep: false,
+    stepsPerMinute: 0,
+    detection: "manual",
+  },
+  swimming: {
+    id: "swimming",
+    name: "Swimming",
+    icon: "figure.pool.swim",
+    color: "primary",
+    met: 6.0, // leisurely, not lap swimming
+    active: true,
+    sleep: false,
+    stepsPerMinute: 0,
+    detection: "manual",
+  },
+};
+
+export const ACTIVITIES: ActivityDefinition[] = ACTIVITY_IDS.map(id => ACTIVITY_CATALOG[id]);
+
+// The activities the motion sensors can tell apart, i.e. what the model and the rules classify
+export const SENSOR_ACTIVITIES: ActivityType[] = ACTIVITIES
+  .filter(activity => activity.detection === "sensor")
+  .map(activity => activity.id);
+
+export const isActivityType = (value: string): value is ActivityType =>
+  (ACTIVITY_IDS as readonly string[]).includes(value);
+
+// Stored sessions carry the activity as a string; anything unrecognised, e.g. from a newer export,
+// is treated as idle under its own name
+export const getActivityDefinition = (activity: string): ActivityDefinition =>
+  ACTIVITY_CATALOG[activity.toLowerCase() as ActivityType] ??
+  { ...ACTIVITY_CATALOG.idle, name: activity.charAt(0).toUpperCase() + activity.slice(1) };
@@ -0,0 +1,24 @@
+const { AndroidConfig, withAndroidManifest } = require("expo/config-plugins");
+
+// Tracking runs in the background on Android inside the foreground service of
+// react-native-background-actions. Android 14 only lets a foreground service start with a type
+// declared in the manifest, and the library declares none, so this marks it as a health service.
+const SERVICE_NAME = "com.asterinet.react.bgactions.RNBackgroundActionsTask";
+
+module.exports = function withTrackingService(config) {
+  return withAndroidManifest(config, (config) => {
+    const application = AndroidConfig.Manifest.getMainApplicationOrThrow(config.modResults);
+    const services = (application.service ?? []).filter(
+      (service) => service.$["android:name"] !== SERVICE_NAME
+    );
+    services.push({
+      $: {
+        "android:name": SERVICE_NAME,
+        "android:foregroundServiceType": "health",
+        "android:exported": "false",
+      },
+    });
+    application.service = services;
+    return config;
+  });
+};
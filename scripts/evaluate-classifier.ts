@@ -0,0 +1,283 @@
+// Measures the activity classifier on labelled sensor traces, so a change to the features, the model
+// or the rules can be judged on numbers rather than impressions.
+//
+//   npm run evaluate -- [options] <trace files or directories>
+//
+//   --rules                  evaluate the rule-based scorer instead of the bundled model
+//   --model <file>           evaluate another model file, e.g. a fresh one from npm run train-model
+//   --synthetic              add generated traces that switch between activities (see syntheticTraces.ts)
+//   --scenario <id or file>  add the trace of a simulation scenario, built in or from a scenario file
+//                            (see SimulationScenario.ts), e.g. --scenario full-day
+//   --calibrate              fit the classifier's temperature on these traces and evaluate with it; a
+//                            model's fitted calibration is saved into its file, the rules' is printed
+//   --json <file>            also write the full report as JSON
+//   --min-accuracy <0-1>     fail if the smoothed accuracy is lower
+//   --max-false-transitions <n>   fail if the smoothed predictions change wrongly more than n times an hour
+//
+// Every trace is cut into the windows the app classifies, each window goes through classify() and the
+// ActivitySmoother as it would live, and both the raw and the smoothed predictions are scored, along
+// with how well the classifier's probabilities are calibrated.
+
+import * as fs from 'fs';
+import { SENSOR_ACTIVITIES } from '../constants/ActivityCatalog';
+import type { ActivityType } from '../services/ActivityRecognitionService';
+import { ActivitySmoother } from '../services/ActivitySmoother';
+import ClassifierRegistry from '../services/ClassifierRegistry';
+import { ActivityClassifier } from '../services/ml/ActivityClassifier';
+import { validateModelFile } from '../services/ml/ActivityModel';
+import {
+  CalibrationMetrics,
+  CalibrationSample,
+  fitTemperature,
+  getCalibrationMetrics,
+  softmax,
+} from '../services/ml/calibration';
+import {
+  ClassificationMetrics,
+  getClassificationMetrics,
+  getTransitionMetrics,
+  PredictedWindow,
+  TransitionMetrics,
+} from '../services/ml/evaluation';
+import { createRandom, synthesizeTrace, TraceSegment } from '../services/ml/syntheticTraces';
+import { getTraceWindows } from '../services/ml/traceWindows';
+import { BUILT_IN_SCENARIOS, getScenarioSegments, parseScenario } from '../services/SimulationScenario';
+import { NamedTrace, readTraces } from './traceFiles';
+
+const ACTIVITIES = SENSOR_ACTIVITIES;
+const DEFAULT_MODEL = 'assets/models/activity-model.json';
+const WINDOW_INTERVAL = 2000; // ms, as ActivityRecognitionService classifies
+// A change of activity reported later than this counts as missed
+const MAX_TRANSITION_DELAY = 20000;
+
+const SYNTHETIC_SEED = 7; // not the training seed, so the traces are new to a model trained on synthetic data
+const SYNTHETIC_TRACES = 12;
+const SYNTHETIC_SEGMENTS = 4;
+
+const VALUE_OPTIONS = ['--model', '--scenario', '--json', '--min-accuracy', '--max-false-transitions'];
+
+const parseArgs = (args: string[]) => {
+  const values: { [option: string]: string } = {};
+  const flags = new Set<string>();
+  const inputs: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (VALUE_OPTIONS.includes(args[i])) {
+      values[args[i]] = args[++i];
+    } else if (args[i].startsWith('--')) {
+      flags.add(args[i]);
+    } else {
+      inputs.push(args[i]);
+    }
+  }
+  return { values, flags, inputs };
+};
+
+// Realistic days switch activity every few minutes, with the phone in the same pocket throughout
+const createSyntheticTraces = (): NamedTrace[] => {
+  const random = createRandom(SYNTHETIC_SEED);
+  return Array.from({ length: SYNTHETIC_TRACES }, (_, i) => {
+    const segments: TraceSegment[] = [];
+    while (segments.length < SYNTHETIC_SEGMENTS) {
+      const activity = ACTIVITIES[Math.floor(random() * ACTIVITIES.length)];
+      if (activity !== segments[segments.length - 1]?.activity) {
+        segments.push({ activity, duration: Math.round(60000 + random() * 120000) });
+      }
+    }
+    return { name: `synthetic ${i + 1}`, trace: synthesizeTrace(segments, random) };
+  });
+};
+
+const createScenarioTrace = (idOrFile: string): NamedTrace => {
+  const scenario = BUILT_IN_SCENARIOS.find(({ id }) => id === idOrFile) ??
+    parseScenario(fs.readFileSync(idOrFile, 'utf8'));
+  return {
+    name: `scenario ${scenario.name}`,
+    trace: synthesizeTrace(getScenarioSegments(scenario), createRandom(scenario.seed)),
+  };
+};
+
+const percent = (value: number | null) => (value === null ? '   -  ' : `${(value * 100).toFixed(1).padStart(5)}%`);
+
+const printClassification = (title: string, metrics: ClassificationMetrics) => {
+  console.log(`\n${title}: accuracy ${percent(metrics.accuracy)} on ${metrics.windows} windows, ` +
+    `${metrics.unknown} unknown (${percent(metrics.coveredAccuracy).trim()} of the rest right)`);
+  console.log(`  ${'activity'.padEnd(9)} ${'support'.padStart(7)} ${'precision'.padStart(9)} ${'recall'.padStart(7)} ${'f1'.padStart(7)}`);
+  metrics.classes.forEach(({ activity, support, precision, recall, f1 }) => {
+    console.log(`  ${activity.padEnd(9)} ${String(support).padStart(7)} ${percent(precision).padStart(9)} ${percent(recall).padStart(7)} ${percent(f1).padStart(7)}`);
+  });
+};
+
+const printConfusion = (metrics: ClassificationMetrics) => {
+  console.log('\nConfusion matrix, smoothed (rows are the truth, columns the prediction)');
+  const columns = [...ACTIVITIES, 'unknown'];
+  console.log(`  ${''.padEnd(9)}${columns.map(activity => activity.slice(0, 8).padStart(9)).join('')}`);
+  ACTIVITIES.forEach(truth => {
+    const row = metrics.confusion[truth] ?? {};
+    console.log(`  ${truth.padEnd(9)}${columns.map(predicted => String(row[predicted] ?? 0).padStart(9)).join('')}`);
+  });
+};
+
+const printCalibration = (title: string, metrics: CalibrationMetrics) => {
+  const logLoss = metrics.logLoss === null ? '-' : metrics.logLoss.toFixed(3);
+  console.log(`  ${title.padEnd(9)} log loss ${logLoss}, expected calibration error ${percent(metrics.expectedCalibrationError).trim()}`);
+};
+
+const printReliability = (metrics: CalibrationMetrics) => {
+  console.log(`  ${'confidence'.padEnd(12)} ${'windows'.padStart(7)} ${'mean'.padStart(7)} ${'right'.padStart(7)}`);
+  metrics.reliability.filter(bin => bin.windows > 0).forEach(({ from, to, windows, meanConfidence, accuracy }) => {
+    console.log(`  ${`${from.toFixed(1)}-${to.toFixed(1)}`.padEnd(12)} ${String(windows).padStart(7)} ` +
+      `${percent(meanConfidence).padStart(7)} ${percent(accuracy).padStart(7)}`);
+  });
+};
+
+// The classifier's uncalibrated output for every labelled window that has enough readings
+const getCalibrationSamples = (classifier: ActivityClassifier, traces: NamedTrace[]): CalibrationSample[] =>
+  traces.flatMap(({ trace }) => getTraceWindows(trace, { interval: WINDOW_INTERVAL })
+    .filter(window => window.activity !== null && !window.labelChanged && window.readings.length >= 10)
+    .map(window => ({
+      logits: classifier.logits(ClassifierRegistry.extractFeatures(window.readings)),
+      truth: window.activity as ActivityType,
+    })));
+
+const calibrate = (classifier: ActivityClassifier, traces: NamedTrace[], modelPath: string | null) => {
+  const samples = getCalibrationSamples(classifier, traces);
+  const toProbabilities = (temperature: number) =>
+    samples.map(({ logits, truth }) => ({ probabilities: softmax(logits, temperature), truth }));
+
+  const before = getCalibrationMetrics(toProbabilities(classifier.temperature));
+  const temperature = fitTemperature(samples);
+  const after = getCalibrationMetrics(toProbabilities(temperature));
+  console.log(`\nCalibration fit on ${samples.length} windows: temperature ${classifier.temperature.toPrecision(3)} -> ${temperature.toPrecision(3)}`);
+  printCalibration('Before', before);
+  printCalibration('After', after);
+  classifier.temperature = temperature;
+
+  if (modelPath) {
+    const file = validateModelFile(JSON.parse(fs.readFileSync(modelPath, 'utf8')));
+    file.metadata.calibration = {
+      method: 'temperature',
+      temperature,
+      fittedOn: `${samples.length} windows from ${traces.length} evaluation traces`,
+    };
+    fs.writeFileSync(modelPath, JSON.stringify(file));
+    console.log(`Saved the calibration in ${modelPath}`);
+  } else {
+    console.log(`Set ${classifier.id}'s temperature to ${temperature.toPrecision(3)} to use it in the app`);
+  }
+};
+
+const printTransitions = (title: string, metrics: TransitionMetrics) => {
+  const delay = metrics.meanDelay === null ? '-' : `${(metrics.meanDelay / 1000).toFixed(1)} s`;
+  const falsePerHour = metrics.falseTransitionsPerHour === null ? '-' : metrics.falseTransitionsPerHour.toFixed(1);
+  console.log(`  ${title.padEnd(9)} ${metrics.missedTransitions}/${metrics.trueTransitions} missed, mean delay ${delay}, ` +
+    `${metrics.falseTransitions}/${metrics.predictedTransitions} reported changes wrong (${falsePerHour} per hour)`);
+};
+
+const main = async () => {
+  const { values, flags, inputs } = parseArgs(process.argv.slice(2));
+
+  const traces = readTraces(inputs);
+  if (flags.has('--synthetic')) {
+    traces.push(...createSyntheticTraces());
+  }
+  if (values['--scenario']) {
+    traces.push(createScenarioTrace(values['--scenario']));
+  }
+  if (traces.length === 0) {
+    console.error('No traces given. Pass trace files or directories, --synthetic and/or --scenario.');
+    process.exit(1);
+  }
+
+  const modelPath = flags.has('--rules') ? null : values['--model'] ?? DEFAULT_MODEL;
+  if (flags.has('--rules')) {
+    ClassifierRegistry.setPrimary('rules');
+  } else {
+    const model = values['--model']
+      ? validateModelFile(JSON.parse(fs.readFileSync(values['--model'], 'utf8')))
+      : undefined;
+    if (!(await ClassifierRegistry.loadModel(model))) {
+      console.error('The model could not be loaded; pass --rules to evaluate the rule-based scorer.');
+      process.exit(1);
+    }
+    ClassifierRegistry.setPrimary('tfjs');
+  }
+  if (flags.has('--calibrate')) {
+    calibrate(ClassifierRegistry.getPrimary(), traces, modelPath);
+  }
+  const info = ClassifierRegistry.getModelInfo();
+  console.log(`\nClassifier: ${info.name} ${info.version} (${info.type}, feature set ${info.featureSetVersion}, ` +
+    `temperature ${info.temperature.toPrecision(3)})`);
+
+  const raw: PredictedWindow[][] = [];
+  const smoothed: PredictedWindow[][] = [];
+  const probabilities: { probabilities: { [activity: string]: number }; truth: ActivityType }[] = [];
+  traces.forEach(({ trace }) => {
+    const smoother = new ActivitySmoother();
+    const rawWindows: PredictedWindow[] = [];
+    const smoothedWindows: PredictedWindow[] = [];
+    getTraceWindows(trace, { interval: WINDOW_INTERVAL }).forEach(window => {
+      const result = ClassifierRegistry.classify(window.readings);
+      const prediction = smoother.update(result.scores);
+      const labels = { truth: window.activity, labelChanged: window.labelChanged, windowEnd: window.windowEnd };
+      rawWindows.push({ ...labels, predicted: result.activity });
+      smoothedWindows.push({ ...labels, predicted: prediction.activity });
+      if (window.activity !== null && !window.labelChanged && result.features) {
+        probabilities.push({ probabilities: result.scores, truth: window.activity });
+      }
+    });
+    raw.push(rawWindows);
+    smoothed.push(smoothedWindows);
+  });
+
+  const report = {
+    classifier: info,
+    traces: traces.map(({ name }) => name),
+    raw: {
+      classification: getClassificationMetrics(raw.flat(), ACTIVITIES),
+      transitions: getTransitionMetrics(raw, WINDOW_INTERVAL, MAX_TRANSITION_DELAY),
+      calibration: getCalibrationMetrics(probabilities),
+    },
+    smoothed: {
+      classification: getClassificationMetrics(smoothed.flat(), ACTIVITIES),
+      transitions: getTransitionMetrics(smoothed, WINDOW_INTERVAL, MAX_TRANSITION_DELAY),
+    },
+  };
+
+  console.log(`Traces: ${traces.length}`);
+  printClassification('Raw windows', report.raw.classification);
+  printClassification('Smoothed', report.smoothed.classification);
+  printConfusion(report.smoothed.classification);
+  console.log(`\nTransitions (within ${MAX_TRANSITION_DELAY / 1000} s)`);
+  printTransitions('Raw', report.raw.transitions);
+  printTransitions('Smoothed', report.smoothed.transitions);
+  console.log('\nCalibration of the raw windows (confidence is the probability of the likeliest activity)');
+  printCalibration('Raw', report.raw.calibration);
+  printReliability(report.raw.calibration);
+
+  if (values['--json']) {
+    fs.writeFileSync(values['--json'], JSON.stringify(report, null, 2));
+    console.log(`\nSaved ${values['--json']}`);
+  }
+
+  // Gates, for CI or a before/after comparison
+  const failures: string[] = [];
+  const minAccuracy = values['--min-accuracy'] !== undefined ? Number(values['--min-accuracy']) : null;
+  const accuracy = report.smoothed.classification.accuracy ?? 0;
+  if (minAccuracy !== null && accuracy < minAccuracy) {
+    failures.push(`smoothed accuracy ${percent(accuracy).trim()} is below ${percent(minAccuracy).trim()}`);
+  }
+  const maxFalse = values['--max-false-transitions'] !== undefined ? Number(values['--max-false-transitions']) : null;
+  const falsePerHour = report.smoothed.transitions.falseTransitionsPerHour ?? 0;
+  if (maxFalse !== null && falsePerHour > maxFalse) {
+    failures.push(`${falsePerHour.toFixed(1)} wrong activity changes per hour, more than ${maxFalse}`);
+  }
+  if (failures.length > 0) {
+    console.error(`\nFAILED: ${failures.join('; ')}`);
+    process.exit(1);
+  }
+};
+
+main().catch(error => {
+  console.error('Error evaluating the classifier:', error);
+  process.exit(1);
+});
@@ -0,0 +1,17 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseTrace, SensorTrace } from '../services/SensorTrace';
+
+export interface NamedTrace {
+  name: string;
+  trace: SensorTrace;
+}
+
+// Reads trace files, and every .json file in the given directories
+export const readTraces = (inputs: string[]): NamedTrace[] =>
+  inputs.flatMap(input => {
+    const files = fs.statSync(input).isDirectory()
+      ? fs.readdirSync(input).filter(name => name.endsWith('.json')).map(name => path.join(input, name))
+      : [input];
+    return files.map(file => ({ name: file, trace: parseTrace(fs.readFileSync(file, 'utf8')) }));
+  });
@@ -0,0 +1,179 @@
+// Trains the activity model bundled with the app from labelled sensor traces (recorded on the Sensor
+// Traces screen and shared off the device).
+//
+//   npm run train-model -- [--synthetic] [--out assets/models/activity-model.json] <trace files or directories>
+//
+// Every fifth trace is held out, and the accuracy on its windows is stored in the model's metadata.
+// --synthetic adds generated traces of every activity; they only approximate real sensor data, so use
+// them to bootstrap or to fill in activities nobody has recorded yet.
+// A new model comes without a calibration; fit one with npm run evaluate -- --calibrate.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as tf from '@tensorflow/tfjs-core';
+import { initializers, layers, sequential } from '@tensorflow/tfjs-layers';
+import { SENSOR_ACTIVITIES } from '../constants/ActivityCatalog';
+import type { SensorTrace } from '../services/SensorTrace';
+import { ActivityModel } from '../services/ml/ActivityModel';
+import { extractFeatures, FEATURE_NAMES, FEATURE_SET, toFeatureVector } from '../services/ml/features';
+import { createRandom, synthesizeTrace } from '../services/ml/syntheticTraces';
+import { getTraceWindows } from '../services/ml/traceWindows';
+import { readTraces } from './traceFiles';
+
+// Windows labelled with an activity that is only logged by hand are left out
+const ACTIVITIES = SENSOR_ACTIVITIES;
+const DEFAULT_OUTPUT = 'assets/models/activity-model.json';
+const HOLD_OUT_EVERY = 5;
+const HIDDEN_UNITS = 16;
+const EPOCHS = 80;
+const BATCH_SIZE = 32;
+const SEED = 42;
+
+const SYNTHETIC_TRACES_PER_ACTIVITY = 25;
+const SYNTHETIC_DURATION = 60000; // ms
+
+// Seeded so a retrain on the same input gives the same model
+const random = createRandom(SEED);
+
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+interface Sample {
+  features: number[];
+  label: number;
+}
+
+const getSamples = (trace: SensorTrace): Sample[] =>
+  getTraceWindows(trace).flatMap(window => {
+    const label = window.activity ? ACTIVITIES.indexOf(window.activity) : -1;
+    if (label < 0 || window.labelChanged) return [];
+    return [{ features: toFeatureVector(extractFeatures(window.readings)), label }];
+  });
+
+// e.g. "4 recorded and 20 synthetic sensor traces"
+const describeTraces = (traces: SensorTrace[]): string => {
+  const recorded = traces.filter(trace => trace.platform !== 'synthetic').length;
+  return [
+    recorded > 0 ? `${recorded} recorded` : null,
+    traces.length > recorded ? `${traces.length - recorded} synthetic` : null,
+  ].filter(Boolean).join(' and ') + ' sensor traces';
+};
+
+const getNormalization = (samples: Sample[]) => {
+  const mean = FEATURE_NAMES.map((_, i) => samples.reduce((sum, s) => sum + s.features[i], 0) / samples.length);
+  const std = FEATURE_NAMES.map((_, i) =>
+    Math.sqrt(samples.reduce((sum, s) => sum + (s.features[i] - mean[i]) ** 2, 0) / samples.length));
+  return { mean, std };
+};
+
+const main = async () => {
+  const args = process.argv.slice(2);
+  const synthetic = args.includes('--synthetic');
+  const outIndex = args.indexOf('--out');
+  const output = outIndex >= 0 ? args[outIndex + 1] : DEFAULT_OUTPUT;
+  const inputs = args.filter((arg, i) => !arg.startsWith('--') && !(outIndex >= 0 && i === outIndex + 1));
+
+  const traces = readTraces(inputs);
+  if (synthetic) {
+    ACTIVITIES.forEach(activity => {
+      for (let i = 0; i < SYNTHETIC_TRACES_PER_ACTIVITY; i++) {
+        traces.push({
+          name: `synthetic ${activity} ${i + 1}`,
+          trace: synthesizeTrace([{ activity, duration: SYNTHETIC_DURATION }], random),
+        });
+      }
+    });
+  }
+  if (traces.length === 0) {
+    console.error('No traces given. Pass trace files or directories, and/or --synthetic.');
+    process.exit(1);
+  }
+
+  const training: Sample[] = [];
+  const evaluation: Sample[] = [];
+  const trainingTraces: SensorTrace[] = [];
+  const evaluationTraces: SensorTrace[] = [];
+  shuffle(traces).forEach(({ trace }, i) => {
+    const heldOut = i % HOLD_OUT_EVERY === HOLD_OUT_EVERY - 1;
+    (heldOut ? evaluation : training).push(...getSamples(trace));
+    (heldOut ? evaluationTraces : trainingTraces).push(trace);
+  });
+  if (training.length === 0) {
+    console.error('The traces have no labelled windows to train on.');
+    process.exit(1);
+  }
+  ACTIVITIES.forEach((activity, label) => {
+    const count = training.filter(sample => sample.label === label).length;
+    console.log(`${activity.padEnd(9)} ${count} training windows`);
+    if (count === 0) console.warn(`  no ${activity} windows, the model will not learn to recognise it`);
+  });
+
+  const normalization = getNormalization(training);
+  const toInputs = (samples: Sample[]) => tf.tensor2d(samples.map(({ features }) =>
+    features.map((value, i) => (value - normalization.mean[i]) / (normalization.std[i] || 1))));
+  const toLabels = (samples: Sample[]) => tf.tensor2d(samples.map(({ label }) =>
+    ACTIVITIES.map((_, i) => (i === label ? 1 : 0))));
+
+  await tf.setBackend('cpu');
+  const model = sequential({
+    layers: [
+      layers.dense({
+        inputShape: [FEATURE_NAMES.length],
+        units: HIDDEN_UNITS,
+        activation: 'relu',
+        kernelInitializer: initializers.glorotUniform({ seed: SEED }),
+      }),
+      layers.dense({
+        units: ACTIVITIES.length,
+        activation: 'softmax',
+        kernelInitializer: initializers.glorotUniform({ seed: SEED + 1 }),
+      }),
+    ],
+  });
+  model.compile({ optimizer: 'adam', loss: 'categoricalCrossentropy', metrics: ['accuracy'] });
+
+  const shuffled = shuffle(training);
+  await model.fit(toInputs(shuffled), toLabels(shuffled), {
+    epochs: EPOCHS,
+    batchSize: BATCH_SIZE,
+    shuffle: false,
+    verbose: 0,
+  });
+
+  let accuracy: number | null = null;
+  if (evaluation.length > 0) {
+    const predictions = tf.argMax(model.predict(toInputs(evaluation)) as tf.Tensor, 1).dataSync();
+    accuracy = evaluation.filter((sample, i) => predictions[i] === sample.label).length / evaluation.length;
+    console.log(`Accuracy on ${evaluation.length} held-out windows: ${(accuracy * 100).toFixed(1)}%`);
+  } else {
+    console.warn('Too few traces to hold any out, the model is saved without an accuracy');
+  }
+
+  const file = await ActivityModel.pack(model, {
+    name: 'activity-dense',
+    version: new Date().toISOString().slice(0, 10).replace(/-/g, '.'),
+    createdAt: new Date().toISOString(),
+    activities: ACTIVITIES,
+    featureSet: { version: FEATURE_SET.version, names: [...FEATURE_SET.names] },
+    normalization,
+    accuracy: accuracy === null ? null : Math.round(accuracy * 1000) / 1000,
+    evaluationWindows: evaluation.length,
+    trainingData: `${training.length} windows from ${describeTraces(trainingTraces)}`,
+    evaluationData: `${evaluation.length} windows from ${describeTraces(evaluationTraces)}`,
+  });
+
+  fs.mkdirSync(path.dirname(output), { recursive: true });
+  fs.writeFileSync(output, JSON.stringify(file));
+  console.log(`Saved ${output}`);
+};
+
+main().catch(error => {
+  console.error('Error training the activity model:', error);
+  process.exit(1);
+});
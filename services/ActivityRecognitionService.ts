@@ -1,29 +1,146 @@
 
-import { Accelerometer, Gyroscope, Pedometer } from 'expo-sensors';
+import { Accelerometer, AccelerometerMeasurement, Gyroscope, GyroscopeMeasurement, Pedometer } from 'expo-sensors';
 import { Platform } from 'react-native';
-import MLActivityClassifier from './MLActivityClassifier';
+import { ActivityType } from '../constants/ActivityCatalog';
+import { RingBuffer } from '../utils/RingBuffer';
+import { ActivitySmoother, SmoothingOptions } from './ActivitySmoother';
+import { AdaptiveSampler, PowerProfile, SamplingMode } from './AdaptiveSampler';
+import ClassifierRegistry from './ClassifierRegistry';
+import FeatureHistoryService from './FeatureHistoryService';
+import { SensorFusionBuffer, SensorReading, TimedVector } from './SensorFusionBuffer';
+import { MotionSensor, SensorTrace, SensorTraceRecorder, streamTrace, TraceEvent, TraceStream } from './SensorTrace';
+import SensorTraceService, { TraceFileInfo } from './SensorTraceService';
+import { StepDetector } from './StepDetector';
+import type { ActivityScores, ClassificationResult } from './ml/ActivityClassifier';
+import { FEATURE_SET_VERSION, toFeatureVector } from './ml/features';
+import type { MeasuredStepSource } from './storage/StorageAdapter';
+
+// The fusion grid stays at 10Hz whatever rate the sensors are read at, so the features mean the same
+// thing when the adaptive sampler slows the sensors down; slower readings are interpolated
+const SAMPLE_INTERVAL = 100; // ms
+// Resampled readings per classification, i.e. the last 3.2 seconds. Windows overlap, but the rhythm
+// features need a few full strides, and a power of two suits the FFT.
+const CLASSIFICATION_WINDOW = 32;
+const REPLAY_TICK = 100; // ms of real time between replay steps
+const RECENT_EVENT_COUNT = 150; // classification windows kept for getRecentEvents, i.e. 5 minutes
+
+// Below this the reported activity is a best guess rather than a clear reading
+export const LOW_CONFIDENCE_THRESHOLD = 0.5;
+
+export type { ActivityType };
+
+// What a window or a stretch of time is reported as: one of the activities, or 'unknown' when the
+// evidence doesn't point clearly at any of them
+export type ActivityOutcome = ActivityType | 'unknown';
+
+export interface ActivitySession {
+  activity: ActivityType;
+  startTime: number;
+  endTime: number;
+  source: ActivityEventSource; // 'replay' for sessions of a replayed trace or scenario
+}
+
+export type SessionEventType = 'start' | 'extend' | 'end';
+
+export type ActivityEventSource = 'live' | 'replay';
+
+// The outcome of one classification window
+export interface ActivityEvent {
+  activity: ActivityOutcome; // the reported activity, after smoothing
+  confidence: number; // smoothed probability of that activity, or of the likeliest one when unknown
+  perClassScores: ActivityScores; // the classifier's calibrated probabilities for this window alone
+  windowStart: number; // timestamps of the first and last sensor reading classified
+  windowEnd: number;
+  source: ActivityEventSource;
+}
+
+export interface ActivityEventQuery {
+  activities?: ActivityOutcome[]; // only events reporting one of these
+  minConfidence?: number;
+}
+
+export interface ActivityEventFilter extends ActivityEventQuery {
+  changesOnly?: boolean; // only events where the reported activity differs from the previous one
+}
+
+export type ActivityEventCallback = (event: ActivityEvent) => void;
+
+const matchesQuery = (event: ActivityEvent, { activities, minConfidence }: ActivityEventQuery): boolean =>
+  (!activities || activities.includes(event.activity)) &&
+  (minConfidence === undefined || event.confidence >= minConfidence);
+
+export type StepCallback = (
+  steps: number,
+  source: MeasuredStepSource,
+  timestamp: number,
+  eventSource: ActivityEventSource
+) => void;
 
-interface SensorData {
-  accelerometer: { x: number; y: number; z: number };
-  gyroscope: { x: number; y: number; z: number };
-  timestamp: number;
+export type AccelerometerCallback = (sample: TimedVector, source: ActivityEventSource) => void;
+
+export interface ReplayOptions {
+  speed?: number; // 1 replays in real time, 10 ten times faster
+  // Dates the trace so it ends when the replay does, rather than starting when it starts, so nothing
+  // replayed faster than real time lands in the future
+  endAtFinish?: boolean;
+}
+
+// The features of one classification window, in the order of the feature set version they were made with
+export interface FeatureWindow {
+  windowStart: number;
+  windowEnd: number;
+  features: number[];
+  featureSetVersion: number;
 }
 
-type ActivityType = 'idle' | 'walking' | 'running' | 'cycling' | 'sleeping' | 'driving';
+export interface RecordingStatus {
+  startedAt: number;
+  eventCount: number;
+}
+
+export interface SamplingStatus {
+  profile: PowerProfile;
+  mode: SamplingMode;
+  sampleInterval: number; // ms
+  classificationInterval: number; // ms
+  gyroscope: boolean;
+}
 
 class ActivityRecognitionService {
   private accelerometerSubscription: any = null;
   private gyroscopeSubscription: any = null;
   private pedometerSubscription: any = null;
-  private sensorBuffer: SensorData[] = [];
-  private activityCallbacks: ((activity: ActivityType) => void)[] = [];
-  private currentActivity: ActivityType = 'idle';
+  private sensorBuffer = new SensorFusionBuffer({ sampleInterval: SAMPLE_INTERVAL });
+  // Sensor timestamps count seconds on the device's own clock, shared by both sensors; this maps them
+  // onto Date.now() milliseconds
+  private sensorClockOffset: number | null = null;
+  private activitySubscriptions: { callback: ActivityEventCallback; filter: ActivityEventFilter }[] = [];
+  private recentEvents = new RingBuffer<ActivityEvent>(RECENT_EVENT_COUNT);
+  private sessionCallbacks: ((type: SessionEventType, session: ActivitySession) => void)[] = [];
+  private currentSession: ActivitySession | null = null;
+  private lastSessionExtension = 0;
+  private readonly SESSION_EXTEND_INTERVAL = 30 * 1000; // Persist session progress every 30 seconds
+  private currentActivity: ActivityOutcome = 'unknown';
+  // Sits between the classifier and activity changes so one odd window doesn't start a new session
+  private smoother = new ActivitySmoother();
+  // Slows sensors and classification down while the phone lies still
+  private sampler = new AdaptiveSampler();
   private isInitialized = false;
   private isTracking = false;
+  // Tracking but with the motion sensors stopped, while the app is in the background
+  private isPaused = false;
+  private stepCallbacks: StepCallback[] = [];
+  private accelerometerCallbacks: AccelerometerCallback[] = [];
   private lastStepCount = 0;
-  private stepCountWindow: number[] = [];
-  private demoMode = true; // Enable demo mode for testing
-  private demoInterval: NodeJS.Timeout | null = null;
+  // Accelerometer step counting, used on web and on devices without a step counter
+  private stepDetector = new StepDetector();
+  private useStepDetector = false;
+  private detectedSteps = 0;
+  private classificationInterval: ReturnType<typeof setInterval> | null = null;
+  private recorder: SensorTraceRecorder | null = null;
+  private replay: { timer: ReturnType<typeof setInterval>; resumeLiveTracking: boolean; finish: () => void } | null = null;
+  // Time as the pipeline sees it; a replay runs on trace time instead of the wall clock
+  private clock: () => number = Date.now;
 
   async initialize() {
     if (this.isInitialized) return;
@@ -44,12 +161,8 @@ class ActivityRecognitionService {
         console.warn('Gyroscope not available on this device');
       }
 
-      // Set update intervals
-      Accelerometer.setUpdateInterval(100); // 10Hz
-      Gyroscope.setUpdateInterval(100); // 10Hz
-
       // Load ML model
-      await MLActivityClassifier.loadModel();
+      await ClassifierRegistry.loadModel();
 
       this.isInitialized = true;
       console.log('ActivityRecognitionService initialized');
@@ -62,32 +175,16 @@ class ActivityRecognitionService {
     if (!this.isInitialized || this.isTracking) return;
 
     console.log('Starting activity tracking...');
+    this.resetPipeline(Platform.OS === 'web');
     this.isTracking = true;
-    this.sensorBuffer = [];
-    this.stepCountWindow = [];
-
-    // Subscribe to accelerometer
-    this.accelerometerSubscription = Accelerometer.addListener((data) => {
-      this.processSensorData('accelerometer', data);
-    });
-
-    // Subscribe to gyroscope
-    this.gyroscopeSubscription = Gyroscope.addListener((data) => {
-      this.processSensorData('gyroscope', data);
-    });
+    this.isPaused = false;
 
     // Subscribe to pedometer (if available)
     if (Platform.OS !== 'web') {
       this.startPedometerTracking();
     }
 
-    // Start activity classification
-    this.startActivityClassification();
-
-    // Start demo mode if enabled
-    if (this.demoMode) {
-      this.startDemoMode();
-    }
+    this.startMotionSensors();
   }
 
   stopTracking() {
@@ -95,6 +192,82 @@ class ActivityRecognitionService {
 
     console.log('Stopping activity tracking...');
     this.isTracking = false;
+    this.isPaused = false;
+
+    // Close the running session with the real stop time
+    const now = this.clock();
+    this.endCurrentSession(now);
+    this.flushDetectedSteps(now);
+
+    if (this.recorder) {
+      this.stopRecording().catch(error => console.error('Error saving sensor trace:', error));
+    }
+
+    this.stopMotionSensors();
+    this.stopPedometerTracking();
+
+    if (this.replay) {
+      clearInterval(this.replay.timer);
+      const { finish } = this.replay;
+      this.replay = null;
+      this.clock = Date.now;
+      finish();
+    }
+  }
+
+  // The motion sensors stop reporting while the app is in the background, so without a pause the
+  // running session would stretch over all the time away. Pausing ends the session and stops the
+  // motion sensors and classification until resumeTracking(). The step counter goes on counting
+  // meanwhile and its subscription reports the steps on return, unless `stopPedometer` is set
+  // because the caller fills the gap from the step history instead.
+  pauseTracking({ stopPedometer = false }: { stopPedometer?: boolean } = {}) {
+    if (!this.isTracking || this.replay || this.isPaused) return;
+
+    console.log('Pausing activity tracking...');
+    this.isPaused = true;
+
+    const now = this.clock();
+    this.endCurrentSession(now);
+    this.flushDetectedSteps(now);
+
+    if (this.recorder) {
+      this.stopRecording().catch(error => console.error('Error saving sensor trace:', error));
+    }
+
+    this.stopMotionSensors();
+    if (stopPedometer) {
+      this.stopPedometerTracking();
+    }
+  }
+
+  resumeTracking() {
+    if (!this.isTracking || !this.isPaused) return;
+
+    console.log('Resuming activity tracking...');
+    this.isPaused = false;
+    this.resetMotionPipeline();
+
+    if (Platform.OS !== 'web' && !this.useStepDetector && !this.pedometerSubscription) {
+      this.startPedometerTracking();
+    }
+    this.startMotionSensors();
+  }
+
+  private startMotionSensors() {
+    // Subscribe to accelerometer
+    this.accelerometerSubscription = Accelerometer.addListener((data) => {
+      this.processSensorData('accelerometer', data);
+    });
+
+    // Set the sensor rates, subscribe to the gyroscope and start classification
+    this.applySamplingRates();
+  }
+
+  private stopMotionSensors() {
+    if (this.classificationInterval) {
+      clearInterval(this.classificationInterval);
+      this.classificationInterval = null;
+    }
 
     // Unsubscribe from sensors
     if (this.accelerometerSubscription) {
@@ -106,242 +279,452 @@ class ActivityRecognitionService {
       this.gyroscopeSubscription.remove();
       this.gyroscopeSubscription = null;
     }
+  }
 
+  private stopPedometerTracking() {
     if (this.pedometerSubscription) {
       this.pedometerSubscription.remove();
       this.pedometerSubscription = null;
     }
+    this.lastStepCount = 0;
+  }
+
+  private resetPipeline(useStepDetector: boolean) {
+    this.lastStepCount = 0;
+    this.detectedSteps = 0;
+    this.useStepDetector = useStepDetector;
+    this.resetMotionPipeline();
+  }
+
+  private resetMotionPipeline() {
+    this.sensorBuffer.clear();
+    this.sensorClockOffset = null;
+    this.stepDetector.reset();
+    this.currentActivity = 'unknown';
+    this.smoother.reset();
+    this.sampler.reset();
+  }
+
+  // Puts the adaptive sampler's current rates into effect. A replay reads the rates as it goes and
+  // leaves the sensors alone.
+  private applySamplingRates() {
+    if (!this.isTracking || this.isPaused || this.replay) return;
+
+    const { sampleInterval, classificationInterval, gyroscope } = this.sampler.getRates();
+    Accelerometer.setUpdateInterval(sampleInterval);
+
+    if (gyroscope && !this.gyroscopeSubscription) {
+      this.gyroscopeSubscription = Gyroscope.addListener((data) => {
+        this.processSensorData('gyroscope', data);
+      });
+    } else if (!gyroscope && this.gyroscopeSubscription) {
+      this.gyroscopeSubscription.remove();
+      this.gyroscopeSubscription = null;
+    }
+    Gyroscope.setUpdateInterval(sampleInterval);
 
-    // Stop demo mode
-    if (this.demoInterval) {
-      clearInterval(this.demoInterval);
-      this.demoInterval = null;
+    if (this.classificationInterval) {
+      clearInterval(this.classificationInterval);
     }
+    this.classificationInterval = setInterval(() => this.runClassification(Date.now()), classificationInterval);
   }
 
   private async startPedometerTracking() {
     try {
       const isAvailable = await Pedometer.isAvailableAsync();
       if (!isAvailable) {
-        console.warn('Pedometer not available on this device');
+        console.warn('Pedometer not available on this device, counting steps from the accelerometer');
+        this.useStepDetector = true;
         return;
       }
+      if (!this.isTracking || this.replay) return;
 
-      const end = new Date();
-      const start = new Date();
-      start.setDate(end.getDate() - 1);
-
+      // watchStepCount reports the total since the subscription started; pass on the increase
       this.pedometerSubscription = Pedometer.watchStepCount((result) => {
-        const stepCount = result.steps;
-        this.stepCountWindow.push(stepCount);
-        
-        // Keep only last 10 readings
-        if (this.stepCountWindow.length > 10) {
-          this.stepCountWindow.shift();
+        const steps = result.steps - this.lastStepCount;
+        this.lastStepCount = result.steps;
+        if (steps > 0) {
+          const timestamp = Date.now();
+          this.recorder?.recordSteps(steps, timestamp);
+          this.notifySteps(steps, 'pedometer', timestamp);
         }
       });
     } catch (error) {
-      console.error('Error starting pedometer tracking:', error);
+      console.error('Error starting pedometer tracking, counting steps from the accelerometer:', error);
+      this.useStepDetector = true;
     }
   }
 
-  private processSensorData(sensorType: 'accelerometer' | 'gyroscope', data: any) {
-    const timestamp = Date.now();
-    
+  private processSensorData(sensorType: MotionSensor, data: AccelerometerMeasurement | GyroscopeMeasurement) {
+    const sample = { x: data.x, y: data.y, z: data.z, timestamp: this.toWallClock(data.timestamp) };
+    this.recorder?.recordMotion(sensorType, sample);
+    this.addMotionSample(sensorType, sample);
+  }
+
+  // Shared by live sensors and trace replay
+  private addMotionSample(sensorType: MotionSensor, sample: TimedVector) {
     if (sensorType === 'accelerometer') {
-      // Add to buffer with gyroscope placeholder
-      this.sensorBuffer.push({
-        accelerometer: data,
-        gyroscope: { x: 0, y: 0, z: 0 }, // Will be updated when gyroscope data arrives
-        timestamp
-      });
-    } else if (sensorType === 'gyroscope') {
-      // Update the most recent entry with gyroscope data
-      if (this.sensorBuffer.length > 0) {
-        const lastEntry = this.sensorBuffer[this.sensorBuffer.length - 1];
-        if (Math.abs(lastEntry.timestamp - timestamp) < 50) { // Within 50ms
-          lastEntry.gyroscope = data;
-        }
+      if (this.sampler.addAccelerometer(sample)) {
+        console.log('Motion detected, sampling at full rate');
+        this.applySamplingRates();
       }
+      const source = this.replay ? 'replay' : 'live';
+      this.accelerometerCallbacks.forEach(callback => callback(sample, source));
+      if (this.useStepDetector) {
+        this.detectedSteps += this.stepDetector.addSample(sample.x, sample.y, sample.z, sample.timestamp);
+      }
+      this.sensorBuffer.addAccelerometer(sample);
+    } else {
+      this.sensorBuffer.addGyroscope(sample);
     }
+  }
 
-    // Keep buffer size manageable
-    if (this.sensorBuffer.length > 50) {
-      this.sensorBuffer.shift();
+  private toWallClock(sensorTimestamp: number): number {
+    if (!Number.isFinite(sensorTimestamp)) {
+      return Date.now();
+    }
+    if (this.sensorClockOffset === null) {
+      this.sensorClockOffset = Date.now() - sensorTimestamp * 1000;
     }
+    return sensorTimestamp * 1000 + this.sensorClockOffset;
   }
 
-  private startActivityClassification() {
-    // Run classification every 2 seconds
-    const classificationInterval = setInterval(() => {
-      if (!this.isTracking) {
-        clearInterval(classificationInterval);
-        return;
-      }
+  private runClassification(now: number) {
+    const readings = this.sensorBuffer.getReadings(CLASSIFICATION_WINDOW);
+    const result = this.classifyActivity(readings);
+    const smoothed = this.smoother.update(result.scores);
+    const event: ActivityEvent = {
+      activity: smoothed.activity,
+      confidence: smoothed.confidence,
+      perClassScores: result.scores,
+      windowStart: readings.length > 0 ? readings[0].timestamp : now - this.sampler.getRates().classificationInterval,
+      windowEnd: readings.length > 0 ? readings[readings.length - 1].timestamp : now,
+      source: this.replay ? 'replay' : 'live',
+    };
 
-      const activity = this.classifyActivity();
-      if (activity !== this.currentActivity) {
-        this.currentActivity = activity;
-        this.notifyActivityChange(activity);
+    const changed = event.activity !== this.currentActivity;
+    if (changed) {
+      this.currentActivity = event.activity;
+      console.log('Activity changed to:', event.activity);
+    }
+    this.recentEvents.push(event);
+    // Kept with the session so correcting it later can teach the classifier
+    if (result.features && this.currentSession && !this.replay) {
+      FeatureHistoryService.addWindow({
+        windowStart: event.windowStart,
+        windowEnd: event.windowEnd,
+        features: toFeatureVector(result.features),
+        featureSetVersion: FEATURE_SET_VERSION,
+      });
+    }
+    this.notifyActivityEvent(event, changed);
+    this.updateSession(event.activity, now);
+    this.flushDetectedSteps(now);
+
+    if (this.sampler.update(event.activity, now)) {
+      console.log(`Sampling mode changed to: ${this.sampler.getMode()}`);
+      this.applySamplingRates();
+    }
+  }
+
+  // Accelerometer steps are reported in batches rather than one event per step
+  private flushDetectedSteps(timestamp: number) {
+    if (this.detectedSteps > 0) {
+      const steps = this.detectedSteps;
+      this.detectedSteps = 0;
+      this.notifySteps(steps, 'accelerometer', timestamp);
+    }
+  }
+
+  private notifySteps(steps: number, source: MeasuredStepSource, timestamp: number) {
+    const eventSource = this.replay ? 'replay' : 'live';
+    this.stepCallbacks.forEach(callback => callback(steps, source, timestamp, eventSource));
+  }
+
+  // Unknown stretches end the current session without starting one, so time the classifier can't
+  // account for isn't counted as any activity
+  private updateSession(activity: ActivityOutcome, timestamp: number) {
+    if (activity === 'unknown') {
+      this.endCurrentSession(timestamp);
+      return;
+    }
+
+    if (this.currentSession && this.currentSession.activity === activity) {
+      // Same activity - extend the running session
+      this.currentSession.endTime = timestamp;
+      if (timestamp - this.lastSessionExtension >= this.SESSION_EXTEND_INTERVAL) {
+        this.lastSessionExtension = timestamp;
+        this.notifySessionEvent('extend', this.currentSession);
       }
-    }, 2000);
+      return;
+    }
+
+    // New activity - close the previous session where the new one begins
+    this.endCurrentSession(timestamp);
+    this.currentSession = { activity, startTime: timestamp, endTime: timestamp, source: this.replay ? 'replay' : 'live' };
+    this.lastSessionExtension = timestamp;
+    this.notifySessionEvent('start', this.currentSession);
   }
 
-  private classifyActivity(): ActivityType {
-    if (this.sensorBuffer.length < 10) {
-      return 'idle';
+  private endCurrentSession(timestamp: number) {
+    if (!this.currentSession) return;
+
+    const session = { ...this.currentSession, endTime: Math.max(timestamp, this.currentSession.startTime) };
+    this.currentSession = null;
+    if (session.source === 'replay') {
+      FeatureHistoryService.discardSession();
+    } else {
+      FeatureHistoryService.endSession(session.startTime, session.endTime);
     }
+    this.notifySessionEvent('end', session);
+  }
 
-    // Get recent sensor data (last 2 seconds)
-    const recentData = this.sensorBuffer.slice(-20);
-    
-    // Use ML classifier for activity recognition
-    const result = MLActivityClassifier.classify(recentData);
+  private notifySessionEvent(type: SessionEventType, session: ActivitySession) {
+    const snapshot = { ...session };
+    this.sessionCallbacks.forEach(callback => callback(type, snapshot));
+  }
+
+  // Classifies the last window on its own; the smoother decides whether that changes the activity
+  private classifyActivity(recentData: SensorReading[]): ClassificationResult {
+    // The primary classifier decides; too few readings classify as idle
+    const result = ClassifierRegistry.classify(recentData);
     
     console.log(`ML Classification: ${result.activity} (confidence: ${result.confidence.toFixed(2)})`);
     
-    return result.activity;
+    return result;
   }
 
-  private notifyActivityChange(activity: ActivityType) {
-    console.log('Activity changed to:', activity);
-    this.activityCallbacks.forEach(callback => callback(activity));
+  private notifyActivityEvent(event: ActivityEvent, changed: boolean) {
+    this.activitySubscriptions.forEach(({ callback, filter }) => {
+      if ((changed || !filter.changesOnly) && matchesQuery(event, filter)) {
+        callback(event);
+      }
+    });
   }
 
-  subscribe(callback: (activity: ActivityType) => void): () => void {
-    this.activityCallbacks.push(callback);
+  // Called after every classification window that passes the filter, e.g.
+  // subscribe(callback, { changesOnly: true }) for activity changes only, or
+  // subscribe(callback, { activities: ['sleeping'], minConfidence: 0.8 }) for confident sleep
+  subscribe(callback: ActivityEventCallback, filter: ActivityEventFilter = {}): () => void {
+    const subscription = { callback, filter };
+    this.activitySubscriptions.push(subscription);
     
     // Return unsubscribe function
     return () => {
-      const index = this.activityCallbacks.indexOf(callback);
+      const index = this.activitySubscriptions.indexOf(subscription);
       if (index > -1) {
-        this.activityCallbacks.splice(index, 1);
+        this.activitySubscriptions.splice(index, 1);
       }
     };
   }
 
-  getCurrentActivity(): ActivityType {
-    return this.currentActivity;
+  // The newest `count` events matching the query, oldest first
+  getRecentEvents(count: number = RECENT_EVENT_COUNT, query: ActivityEventQuery = {}): ActivityEvent[] {
+    const events = this.recentEvents.toArray().filter(event => matchesQuery(event, query));
+    return events.slice(Math.max(0, events.length - count));
   }
 
-  private startDemoMode() {
-    console.log('Starting demo mode with simulated sensor data');
-    
-    const activities: ActivityType[] = ['walking', 'running', 'idle', 'cycling', 'sleeping'];
-    let currentActivityIndex = 0;
-    let activityDuration = 0;
-    
-    this.demoInterval = setInterval(() => {
-      // Change activity every 30 seconds (15 intervals)
-      if (activityDuration >= 15) {
-        currentActivityIndex = (currentActivityIndex + 1) % activities.length;
-        activityDuration = 0;
-        console.log(`Demo: Switching to ${activities[currentActivityIndex]}`);
+  subscribeSessions(callback: (type: SessionEventType, session: ActivitySession) => void): () => void {
+    this.sessionCallbacks.push(callback);
+
+    // Return unsubscribe function
+    return () => {
+      const index = this.sessionCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.sessionCallbacks.splice(index, 1);
       }
-      
-      const currentActivity = activities[currentActivityIndex];
-      
-      // Generate simulated sensor data based on current activity
-      const sensorData = this.generateSimulatedSensorData(currentActivity);
-      
-      // Add to buffer
-      this.sensorBuffer.push(sensorData);
-      
-      // Keep buffer size manageable
-      if (this.sensorBuffer.length > 50) {
-        this.sensorBuffer.shift();
+    };
+  }
+
+  // Measured steps as they come in; sessions without any step source fall back to estimates
+  subscribeSteps(callback: StepCallback): () => void {
+    this.stepCallbacks.push(callback);
+
+    // Return unsubscribe function
+    return () => {
+      const index = this.stepCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.stepCallbacks.splice(index, 1);
       }
-      
-      activityDuration++;
-    }, 2000); // Every 2 seconds
+    };
   }
 
-  private generateSimulatedSensorData(activity: ActivityType): SensorData {
-    const timestamp = Date.now();
-    let accelerometer = { x: 0, y: 0, z: 0 };
-    let gyroscope = { x: 0, y: 0, z: 0 };
-    
-    // Generate realistic sensor data based on activity
-    switch (activity) {
-      case 'walking':
-        accelerometer = {
-          x: (Math.random() - 0.5) * 2,
-          y: (Math.random() - 0.5) * 2,
-          z: 9.8 + (Math.random() - 0.5) * 4
-        };
-        gyroscope = {
-          x: (Math.random() - 0.5) * 0.5,
-          y: (Math.random() - 0.5) * 0.5,
-          z: (Math.random() - 0.5) * 0.3
-        };
-        break;
-        
-      case 'running':
-        accelerometer = {
-          x: (Math.random() - 0.5) * 6,
-          y: (Math.random() - 0.5) * 6,
-          z: 9.8 + (Math.random() - 0.5) * 8
-        };
-        gyroscope = {
-          x: (Math.random() - 0.5) * 1.0,
-          y: (Math.random() - 0.5) * 1.0,
-          z: (Math.random() - 0.5) * 0.8
-        };
-        break;
-        
-      case 'cycling':
-        accelerometer = {
-          x: (Math.random() - 0.5) * 3,
-          y: (Math.random() - 0.5) * 2,
-          z: 9.8 + (Math.random() - 0.5) * 2
-        };
-        gyroscope = {
-          x: (Math.random() - 0.5) * 1.5,
-          y: (Math.random() - 0.5) * 0.8,
-          z: (Math.random() - 0.5) * 1.2
-        };
+  // Every accelerometer sample, live or replayed, for detectors that run alongside the classifier
+  subscribeAccelerometer(callback: AccelerometerCallback): () => void {
+    this.accelerometerCallbacks.push(callback);
+
+    // Return unsubscribe function
+    return () => {
+      const index = this.accelerometerCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.accelerometerCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  // Tunes how readily the reported activity changes, e.g. a higher stayProbability or more
+  // minDwellWindows for fewer, longer sessions
+  setSmoothingOptions(options: Partial<SmoothingOptions>) {
+    this.smoother.setOptions(options);
+  }
+
+  getSmoothingOptions(): SmoothingOptions {
+    return this.smoother.getOptions();
+  }
+
+  // Trades recognition accuracy for battery life; see AdaptiveSampler for the profiles
+  setPowerProfile(profile: PowerProfile) {
+    if (profile === this.sampler.getProfile()) return;
+
+    this.sampler.setProfile(profile);
+    this.applySamplingRates();
+    console.log(`Power profile set to: ${profile}`);
+  }
+
+  // The fall detector needs the accelerometer at full rate while the phone rests, too
+  setFallDetection(enabled: boolean) {
+    const { sampleInterval } = this.sampler.getRates();
+    this.sampler.setFallDetection(enabled);
+    if (this.sampler.getRates().sampleInterval !== sampleInterval) {
+      this.applySamplingRates();
+    }
+  }
+
+  getSamplingStatus(): SamplingStatus {
+    return { profile: this.sampler.getProfile(), mode: this.sampler.getMode(), ...this.sampler.getRates() };
+  }
+
+  getCurrentSession(): ActivitySession | null {
+    return this.currentSession ? { ...this.currentSession } : null;
+  }
+
+  getCurrentActivity(): ActivityOutcome {
+    return this.currentActivity;
+  }
+
+  // Records the raw sensor streams of live tracking, labelled with what the user is doing, until
+  // stopRecording() or tracking stops
+  startRecording(label: ActivityType | null) {
+    if (!this.isTracking || this.replay) {
+      throw new Error('Sensor traces can only be recorded while tracking live sensors');
+    }
+    if (this.recorder) return;
+
+    this.recorder = new SensorTraceRecorder(Date.now(), label, Platform.OS);
+    console.log('Started recording sensor trace');
+  }
+
+  // Marks the ground truth from now on, e.g. when the user starts walking
+  setRecordingLabel(label: ActivityType | null) {
+    this.recorder?.setLabel(label, Date.now());
+  }
+
+  getRecordingStatus(): RecordingStatus | null {
+    return this.recorder ? { startedAt: this.recorder.startedAt, eventCount: this.recorder.eventCount } : null;
+  }
+
+  async stopRecording(): Promise<TraceFileInfo | null> {
+    if (!this.recorder) return null;
+
+    const trace = this.recorder.finish(Date.now());
+    this.recorder = null;
+    return SensorTraceService.saveTrace(trace);
+  }
+
+  // Feeds a recorded or simulated trace through the same pipeline as live sensors, in place of them:
+  // fusion buffer, step counting, classification and sessions. Trace time starts at the moment of the
+  // call unless endAtFinish is set, and classification runs as often in trace time as the power
+  // profile would run it live, however fast the replay goes, so reported sessions match what live
+  // tracking would have produced. Live tracking resumes afterwards if it was running. Resolves when
+  // the trace ends or the replay is stopped.
+  startReplay(trace: SensorTrace | TraceStream, { speed = 1, endAtFinish = false }: ReplayOptions = {}): Promise<void> {
+    if (!this.isInitialized) {
+      return Promise.reject(new Error('ActivityRecognitionService is not initialized'));
+    }
+    if (this.replay) {
+      return Promise.reject(new Error('A sensor trace is already being replayed'));
+    }
+
+    const stream = 'format' in trace ? streamTrace(trace) : trace;
+    const resumeLiveTracking = this.isTracking;
+    this.stopTracking();
+    // Traces recorded on a device with a step counter replay its counts instead of detecting steps
+    this.resetPipeline(!stream.hasStepCounter);
+    this.isTracking = true;
+
+    const startedAt = Date.now();
+    const origin = endAtFinish ? startedAt + stream.duration / speed - stream.duration : startedAt;
+    const getTraceTime = () => Math.min((Date.now() - startedAt) * speed, stream.duration);
+    this.clock = () => origin + getTraceTime();
+    let next = stream.events.next();
+    let nextClassification = this.sampler.getRates().classificationInterval;
+    const nextEventTime = () => next.done ? Infinity : next.value.t;
+
+    console.log(`Replaying ${Math.round(stream.duration / 1000)} s of sensor data at ${speed}x`);
+    return new Promise(resolve => {
+      const timer = setInterval(() => {
+        const traceTime = getTraceTime();
+        // Events and classification ticks in trace order, as they would have happened live
+        while (Math.min(nextEventTime(), nextClassification) <= traceTime) {
+          if (nextClassification <= nextEventTime()) {
+            this.runClassification(origin + nextClassification);
+            nextClassification += this.sampler.getRates().classificationInterval;
+          } else {
+            this.replayEvent(next.value, origin);
+            next = stream.events.next();
+          }
+        }
+
+        if (traceTime >= stream.duration) {
+          console.log('Sensor trace replay finished');
+          this.stopReplay();
+        }
+      }, REPLAY_TICK);
+      this.replay = { timer, resumeLiveTracking, finish: resolve };
+    });
+  }
+
+  stopReplay() {
+    if (!this.replay) return;
+
+    const { resumeLiveTracking } = this.replay;
+    this.stopTracking();
+    if (resumeLiveTracking) {
+      this.startTracking();
+    }
+  }
+
+  isReplaying(): boolean {
+    return this.replay !== null;
+  }
+
+  private replayEvent(event: TraceEvent, origin: number) {
+    const timestamp = origin + event.t;
+    switch (event.type) {
+      case 'accelerometer':
+      case 'gyroscope':
+        this.addMotionSample(event.type, { x: event.x, y: event.y, z: event.z, timestamp });
         break;
-        
-      case 'sleeping':
-        accelerometer = {
-          x: (Math.random() - 0.5) * 0.2,
-          y: (Math.random() - 0.5) * 0.2,
-          z: 9.8 + (Math.random() - 0.5) * 0.3
-        };
-        gyroscope = {
-          x: (Math.random() - 0.5) * 0.1,
-          y: (Math.random() - 0.5) * 0.1,
-          z: (Math.random() - 0.5) * 0.1
-        };
+      case 'pedometer':
+        this.notifySteps(event.steps, 'pedometer', timestamp);
         break;
-        
-      default: // idle
-        accelerometer = {
-          x: (Math.random() - 0.5) * 0.5,
-          y: (Math.random() - 0.5) * 0.5,
-          z: 9.8 + (Math.random() - 0.5) * 0.8
-        };
-        gyroscope = {
-          x: (Math.random() - 0.5) * 0.2,
-          y: (Math.random() - 0.5) * 0.2,
-          z: (Math.random() - 0.5) * 0.2
-        };
+      case 'label':
+        // Shown next to the classifier's own log lines for comparison
+        console.log(`Replay ground truth: ${event.activity ?? 'unknown'}`);
         break;
     }
-    
-    return { accelerometer, gyroscope, timestamp };
   }
 
   cleanup() {
     this.stopTracking();
-    this.activityCallbacks = [];
-    this.sensorBuffer = [];
+    this.activitySubscriptions = [];
+    this.recentEvents.clear();
+    FeatureHistoryService.discardSession();
+    this.sessionCallbacks = [];
+    this.stepCallbacks = [];
+    this.accelerometerCallbacks = [];
+    this.sensorBuffer.clear();
     this.isInitialized = false;
-    
-    if (this.demoInterval) {
-      clearInterval(this.demoInterval);
-      this.demoInterval = null;
-    }
   }
 }
 
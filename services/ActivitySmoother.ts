@@ -0,0 +1,149 @@
+import type { ActivityOutcome, ActivityType } from './ActivityRecognitionService';
+
+// Smooths the classifier's per-window predictions over time. A single 2-second window is easily
+// fooled (a pause at a crossing, a bump in the car), so instead of reporting each window's winner we
+// treat the true activity as the hidden state of a Markov chain: the forward algorithm combines every
+// window's probabilities with how likely a change of activity is at all, and on top of that a new
+// activity has to lead for a minimum number of windows before it is reported. When no activity stays
+// likely enough for as long, the smoother reports 'unknown' instead of holding on to a stale guess.
+
+export interface SmoothingOptions {
+  // Chance that the activity stays the same from one window to the next
+  stayProbability: number;
+  // Relative weights for specific changes, e.g. { sleeping: { running: 0.1 } } makes jumping straight
+  // from sleeping to running ten times less likely than other changes. Unlisted changes weigh 1.
+  transitionWeights: { [from in ActivityType]?: { [to in ActivityType]?: number } };
+  // Smoothed probability a new activity needs before it can take over
+  minConfidence: number;
+  // Consecutive windows the new activity must lead (with minConfidence) before the change is reported
+  minDwellWindows: number;
+  // Smoothed probability below which the reported activity is given up for 'unknown', after
+  // minDwellWindows windows in a row
+  unknownBelow: number;
+}
+
+export interface SmoothedPrediction {
+  activity: ActivityOutcome;
+  confidence: number; // smoothed probability of the reported activity, or of the likeliest one when unknown
+  probabilities: { [activity: string]: number };
+}
+
+export const DEFAULT_SMOOTHING_OPTIONS: SmoothingOptions = {
+  stayProbability: 0.8,
+  transitionWeights: {
+    sleeping: { running: 0.1, cycling: 0.1, driving: 0.1 },
+    driving: { sleeping: 0.1 },
+    running: { sleeping: 0.1 },
+    cycling: { sleeping: 0.1 },
+  },
+  minConfidence: 0.6,
+  minDwellWindows: 2,
+  unknownBelow: 0.35,
+};
+
+// Calibrated probabilities are used as the likelihood of each activity. A floor keeps an activity
+// the classifier all but rules out in one window from being ruled out for good.
+const MIN_LIKELIHOOD = 0.001;
+
+export class ActivitySmoother {
+  private options: SmoothingOptions;
+  private probabilities: { [activity: string]: number } | null = null;
+  private current: ActivityOutcome;
+  private candidate: ActivityOutcome | null = null;
+  private candidateWindows = 0;
+
+  constructor(options: Partial<SmoothingOptions> = {}, private initialActivity: ActivityOutcome = 'unknown') {
+    this.options = { ...DEFAULT_SMOOTHING_OPTIONS, ...options };
+    this.current = initialActivity;
+  }
+
+  getOptions(): SmoothingOptions {
+    return this.options;
+  }
+
+  setOptions(options: Partial<SmoothingOptions>) {
+    this.options = { ...this.options, ...options };
+  }
+
+  // Feeds the calibrated probabilities of one classification window and returns the activity to report
+  update(probabilities: { [activity: string]: number }): SmoothedPrediction {
+    const activities = Object.keys(probabilities) as ActivityType[];
+    const previous = this.probabilities ?? this.getInitialProbabilities(activities);
+
+    // Forward step: predict from the previous window, then weigh by this window's evidence
+    const next: { [activity: string]: number } = {};
+    let total = 0;
+    activities.forEach(to => {
+      const prior = activities.reduce((sum, from) => sum + (previous[from] ?? 0) * this.getTransition(from, to, activities), 0);
+      next[to] = prior * Math.max(probabilities[to], MIN_LIKELIHOOD);
+      total += next[to];
+    });
+    activities.forEach(activity => {
+      next[activity] = total > 0 ? next[activity] / total : 1 / activities.length;
+    });
+    this.probabilities = next;
+
+    const best = activities.reduce((a, b) => (next[a] >= next[b] ? a : b));
+    // The activity to switch to, if any: a clear new leader, or unknown once the reported activity
+    // has lost its footing
+    let challenger: ActivityOutcome | null = null;
+    if (best !== this.current && next[best] >= this.options.minConfidence) {
+      challenger = best;
+    } else if (this.current !== 'unknown' && next[this.current] < this.options.unknownBelow) {
+      challenger = 'unknown';
+    }
+
+    if (challenger === null) {
+      this.candidate = null;
+      this.candidateWindows = 0;
+    } else {
+      this.candidateWindows = challenger === this.candidate ? this.candidateWindows + 1 : 1;
+      this.candidate = challenger;
+      if (this.candidateWindows >= this.options.minDwellWindows) {
+        this.current = challenger;
+        this.candidate = null;
+        this.candidateWindows = 0;
+      }
+    }
+
+    const confidence = this.current === 'unknown' ? next[best] : next[this.current];
+    return { activity: this.current, confidence: confidence ?? 0, probabilities: { ...next } };
+  }
+
+  reset(activity: ActivityOutcome = this.initialActivity) {
+    this.probabilities = null;
+    this.current = activity;
+    this.candidate = null;
+    this.candidateWindows = 0;
+  }
+
+  private getInitialProbabilities(activities: ActivityType[]): { [activity: string]: number } {
+    // Start out fairly sure of the reported activity so the first windows can't flip it on their own;
+    // with nothing reported yet, every activity is as likely
+    if (this.current === 'unknown') {
+      const probabilities: { [activity: string]: number } = {};
+      activities.forEach(activity => {
+        probabilities[activity] = 1 / activities.length;
+      });
+      return probabilities;
+    }
+    const others = activities.length > 1 ? (1 - this.options.stayProbability) / (activities.length - 1) : 0;
+    const probabilities: { [activity: string]: number } = {};
+    activities.forEach(activity => {
+      probabilities[activity] = activity === this.current ? this.options.stayProbability : others;
+    });
+    return probabilities;
+  }
+
+  private getTransition(from: ActivityType, to: ActivityType, activities: ActivityType[]): number {
+    if (from === to) {
+      return this.options.stayProbability;
+    }
+
+    // The remaining probability is shared between the other activities in proportion to their weights
+    const weights = this.options.transitionWeights[from] ?? {};
+    const weightOf = (activity: ActivityType) => weights[activity] ?? 1;
+    const totalWeight = activities.reduce((sum, activity) => sum + (activity === from ? 0 : weightOf(activity)), 0);
+    return totalWeight > 0 ? (1 - this.options.stayProbability) * weightOf(to) / totalWeight : 0;
+  }
+}
@@ -0,0 +1,135 @@
+import type { ActivityOutcome, ActivityType } from './ActivityRecognitionService';
+import type { Vector3 } from './SensorFusionBuffer';
+
+// Decides how often the motion sensors are read and the activity classified. While the user moves,
+// everything runs at full rate. Once the reported activity has been idle or sleeping for a while,
+// which on most days is most hours, the sampler rests: the accelerometer is read less often, the
+// gyroscope is switched off and classification runs only now and then. A jolt between two
+// accelerometer samples, e.g. the phone being picked up, or any other reported activity brings it
+// straight back to full rate. While fall detection is on, the accelerometer stays at full rate even
+// at rest, since a fall from rest is the one that matters most and its free fall and impact last
+// only a few hundred milliseconds; the gyroscope and classification still slow down.
+
+export type PowerProfile = 'high-accuracy' | 'balanced' | 'battery-saver';
+
+export type SamplingMode = 'active' | 'resting';
+
+export interface SamplingRates {
+  sampleInterval: number; // ms between accelerometer (and gyroscope) readings
+  classificationInterval: number; // ms between classifications
+  gyroscope: boolean;
+}
+
+export interface PowerProfileOptions {
+  active: SamplingRates;
+  resting: SamplingRates;
+  restAfter: number; // ms of idle or sleeping before resting; Infinity never rests
+  wakeThreshold: number; // g of change between consecutive accelerometer samples that counts as motion
+}
+
+export const POWER_PROFILES: { [profile in PowerProfile]: PowerProfileOptions } = {
+  'high-accuracy': {
+    active: { sampleInterval: 100, classificationInterval: 2000, gyroscope: true },
+    resting: { sampleInterval: 100, classificationInterval: 2000, gyroscope: true },
+    restAfter: Infinity,
+    wakeThreshold: 0,
+  },
+  balanced: {
+    active: { sampleInterval: 100, classificationInterval: 2000, gyroscope: true },
+    resting: { sampleInterval: 250, classificationInterval: 10000, gyroscope: false },
+    restAfter: 5 * 60 * 1000,
+    wakeThreshold: 0.1,
+  },
+  'battery-saver': {
+    active: { sampleInterval: 100, classificationInterval: 4000, gyroscope: true },
+    resting: { sampleInterval: 500, classificationInterval: 30000, gyroscope: false },
+    restAfter: 2 * 60 * 1000,
+    wakeThreshold: 0.15,
+  },
+};
+
+export const DEFAULT_POWER_PROFILE: PowerProfile = 'balanced';
+
+// The setting the user's choice is stored under
+export const POWER_PROFILE_SETTING = 'powerProfile';
+
+export const isPowerProfile = (value: unknown): value is PowerProfile =>
+  typeof value === 'string' && value in POWER_PROFILES;
+
+// Activities during which the phone can rest
+const RESTING_ACTIVITIES: ActivityType[] = ['idle', 'sleeping'];
+
+export class AdaptiveSampler {
+  private mode: SamplingMode = 'active';
+  private stillSince: number | null = null;
+  private lastSample: Vector3 | null = null;
+  private fallDetection = false;
+
+  constructor(private profile: PowerProfile = DEFAULT_POWER_PROFILE) {}
+
+  getProfile(): PowerProfile {
+    return this.profile;
+  }
+
+  // Switching profiles starts over at full rate
+  setProfile(profile: PowerProfile) {
+    this.profile = profile;
+    this.reset();
+  }
+
+  // Keeps the accelerometer at full rate while resting, for the fall detector
+  setFallDetection(enabled: boolean) {
+    this.fallDetection = enabled;
+  }
+
+  getMode(): SamplingMode {
+    return this.mode;
+  }
+
+  getRates(): SamplingRates {
+    const options = POWER_PROFILES[this.profile];
+    if (this.mode !== 'resting') return options.active;
+    if (!this.fallDetection) return options.resting;
+    return { ...options.resting, sampleInterval: options.active.sampleInterval };
+  }
+
+  // Called with the reported activity after every classification. Returns true when the mode changed.
+  update(activity: ActivityOutcome, timestamp: number): boolean {
+    if (!RESTING_ACTIVITIES.includes(activity as ActivityType)) {
+      this.stillSince = null;
+      return this.setMode('active');
+    }
+
+    this.stillSince ??= timestamp;
+    if (timestamp - this.stillSince >= POWER_PROFILES[this.profile].restAfter) {
+      return this.setMode('resting');
+    }
+    return false;
+  }
+
+  // Called with every accelerometer sample. Returns true when motion woke the sampler up.
+  addAccelerometer(sample: Vector3): boolean {
+    const previous = this.lastSample;
+    this.lastSample = { x: sample.x, y: sample.y, z: sample.z };
+    if (this.mode !== 'resting' || !previous) return false;
+
+    const change = Math.hypot(sample.x - previous.x, sample.y - previous.y, sample.z - previous.z);
+    if (change < POWER_PROFILES[this.profile].wakeThreshold) return false;
+
+    // Stillness has to last a full restAfter again before the next rest
+    this.stillSince = null;
+    return this.setMode('active');
+  }
+
+  reset() {
+    this.mode = 'active';
+    this.stillSince = null;
+    this.lastSample = null;
+  }
+
+  private setMode(mode: SamplingMode): boolean {
+    if (this.mode === mode) return false;
+    this.mode = mode;
+    return true;
+  }
+}
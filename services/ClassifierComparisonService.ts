@@ -0,0 +1,197 @@
+import { Platform } from 'react-native';
+import { File, Paths } from 'expo-file-system';
+import { RingBuffer } from '../utils/RingBuffer';
+import ClassifierRegistry, { ClassifierOutcome, ShadowComparison } from './ClassifierRegistry';
+import HealthDataService from './HealthDataService';
+import type { ActivityFeatures } from './ml/features';
+
+export interface ClassifierSelection {
+  primary: string | null; // null lets the registry pick the best classifier available
+  shadows: string[];
+}
+
+// A window where a shadow classifier reported a different activity than the primary
+export interface ClassifierDisagreement {
+  timestamp: number;
+  features: ActivityFeatures;
+  primary: ClassifierOutcome;
+  shadow: ClassifierOutcome;
+}
+
+export interface ShadowStats {
+  classifierId: string;
+  primaryId: string; // compared against this classifier most recently
+  windows: number;
+  disagreements: number;
+  agreementRate: number | null; // null before the first window
+  byActivity: { [activity: string]: number }; // disagreements by the primary's activity
+}
+
+export interface ComparisonSummary {
+  since: number; // epoch ms when the counts were last cleared
+  shadows: ShadowStats[];
+  loggedDisagreements: number;
+}
+
+interface StoredComparison {
+  since: number;
+  stats: ShadowStats[];
+  disagreements: ClassifierDisagreement[];
+}
+
+const SELECTION_SETTING = 'classifiers';
+const STORAGE_FILE = 'classifier-comparison.json';
+const WEB_STORAGE_KEY = 'health_classifier_comparison';
+const MAX_DISAGREEMENTS = 1000;
+// Shadows score a window every two seconds, so the log is written at most this often
+const SAVE_INTERVAL = 60000; // ms
+
+const DEFAULT_SELECTION: ClassifierSelection = { primary: null, shadows: [] };
+
+// Applies the user's choice of primary and shadow classifiers, and keeps a local log of where the
+// shadows disagree with the primary so they can be compared on the user's own movement before one
+// is promoted. The log stays on the device in its own file, like the personal examples, and is
+// never part of a data export.
+class ClassifierComparisonService {
+  private since = Date.now();
+  private stats = new Map<string, ShadowStats>();
+  private disagreements = new RingBuffer<ClassifierDisagreement>(MAX_DISAGREEMENTS);
+  private lastSaved = 0;
+  private unsubscribe: (() => void) | null = null;
+  private loading: Promise<void> | null = null;
+
+  async initialize() {
+    this.loading ??= this.load();
+    await this.loading;
+  }
+
+  async getSelection(): Promise<ClassifierSelection> {
+    const selection = await HealthDataService.getSetting<Partial<ClassifierSelection>>(SELECTION_SETTING, {});
+    return { ...DEFAULT_SELECTION, ...selection };
+  }
+
+  async setSelection(selection: Partial<ClassifierSelection>) {
+    const updated = { ...(await this.getSelection()), ...selection };
+    await HealthDataService.setSetting(SELECTION_SETTING, updated);
+    this.applySelection(updated);
+  }
+
+  async getSummary(): Promise<ComparisonSummary> {
+    await this.initialize();
+
+    return {
+      since: this.since,
+      shadows: Array.from(this.stats.values()).map(stats => ({ ...stats, byActivity: { ...stats.byActivity } })),
+      loggedDisagreements: this.disagreements.length,
+    };
+  }
+
+  // The newest `count` disagreements, newest first
+  async getDisagreements(count?: number): Promise<ClassifierDisagreement[]> {
+    await this.initialize();
+    return this.disagreements.toArray(count).reverse();
+  }
+
+  // Forgets the counts and the log, e.g. after a new model is bundled
+  async clear() {
+    await this.initialize();
+
+    this.since = Date.now();
+    this.stats.clear();
+    this.disagreements.clear();
+    await this.save();
+    console.log('Classifier comparison cleared');
+  }
+
+  private applySelection(selection: ClassifierSelection) {
+    ClassifierRegistry.setPrimary(selection.primary);
+    ClassifierRegistry.setShadows(selection.shadows);
+  }
+
+  private record(comparison: ShadowComparison) {
+    comparison.shadows.forEach(shadow => {
+      const stats = this.stats.get(shadow.classifierId) ?? {
+        classifierId: shadow.classifierId,
+        primaryId: comparison.primary.classifierId,
+        windows: 0,
+        disagreements: 0,
+        agreementRate: null,
+        byActivity: {},
+      };
+      stats.primaryId = comparison.primary.classifierId;
+      stats.windows++;
+
+      if (shadow.activity !== comparison.primary.activity) {
+        const activity = comparison.primary.activity;
+        stats.disagreements++;
+        stats.byActivity[activity] = (stats.byActivity[activity] ?? 0) + 1;
+        this.disagreements.push({
+          timestamp: comparison.timestamp,
+          features: comparison.features,
+          primary: comparison.primary,
+          shadow,
+        });
+      }
+      stats.agreementRate = (stats.windows - stats.disagreements) / stats.windows;
+      this.stats.set(shadow.classifierId, stats);
+    });
+
+    if (comparison.timestamp - this.lastSaved >= SAVE_INTERVAL) {
+      this.save().catch(error => console.error('Error saving classifier comparison:', error));
+    }
+  }
+
+  private async load() {
+    try {
+      this.applySelection(await this.getSelection());
+
+      let content: string | null = null;
+      if (Platform.OS === 'web') {
+        content = typeof localStorage !== 'undefined' ? localStorage.getItem(WEB_STORAGE_KEY) : null;
+      } else {
+        const file = new File(Paths.document, STORAGE_FILE);
+        content = file.exists ? await file.text() : null;
+      }
+
+      const stored: Partial<StoredComparison> = content ? JSON.parse(content) : {};
+      if (typeof stored.since === 'number') {
+        this.since = stored.since;
+      }
+      (Array.isArray(stored.stats) ? stored.stats : []).forEach(stats => {
+        this.stats.set(stats.classifierId, stats);
+      });
+      (Array.isArray(stored.disagreements) ? stored.disagreements : []).forEach(disagreement => {
+        this.disagreements.push(disagreement);
+      });
+    } catch (error) {
+      console.error('Error loading classifier comparison:', error);
+    }
+
+    this.unsubscribe?.();
+    this.unsubscribe = ClassifierRegistry.subscribeShadowResults(comparison => this.record(comparison));
+  }
+
+  private async save() {
+    this.lastSaved = Date.now();
+    const stored: StoredComparison = {
+      since: this.since,
+      stats: Array.from(this.stats.values()),
+      disagreements: this.disagreements.toArray(),
+    };
+    const content = JSON.stringify(stored);
+    if (Platform.OS === 'web') {
+      if (typeof localStorage !== 'undefined') {
+        localStorage.setItem(WEB_STORAGE_KEY, content);
+      }
+      return;
+    }
+
+    const file = new File(Paths.document, STORAGE_FILE);
+    if (!file.exists) {
+      file.create();
+    }
+    file.write(content);
+  }
+}
+
+export default new ClassifierComparisonService();
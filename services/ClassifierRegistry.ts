@@ -0,0 +1,248 @@
+// Classifier Registry
+// Holds every activity classifier the app can use: the hand-written rules, the bundled TensorFlow.js
+// model (see scripts/train-activity-model.ts) and, once the user has corrected some activities, the
+// best of those with their personal layer blended on top. One classifier is primary and decides the
+// activity; any others chosen as shadows score the same windows and their results are only reported
+// to subscribers, so a new classifier can be compared against the live one before it takes over.
+
+import { SENSOR_ACTIVITIES } from '../constants/ActivityCatalog';
+import type { ActivityOutcome, ActivityType } from './ActivityRecognitionService';
+import type { SensorReading } from './SensorFusionBuffer';
+import {
+  ActivityClassifier,
+  ActivityScores,
+  ClassificationResult,
+  ClassifierInfo,
+  createEmptyScores,
+  getProbabilities,
+} from './ml/ActivityClassifier';
+import { ActivityModel, ActivityModelFile } from './ml/ActivityModel';
+import { ActivityFeatures, extractFeatures, FeatureSetInfo, getFeatureSetMismatch } from './ml/features';
+import { ModelClassifier } from './ml/ModelClassifier';
+import { PersonalizedClassifier } from './ml/PersonalizedClassifier';
+import { PersonalModel } from './ml/PersonalModel';
+import { RuleBasedClassifier } from './ml/RuleBasedClassifier';
+
+export interface ClassifierOutcome {
+  classifierId: string;
+  activity: ActivityOutcome;
+  confidence: number;
+}
+
+// The primary's and the shadows' results for one window
+export interface ShadowComparison {
+  timestamp: number;
+  features: ActivityFeatures;
+  primary: ClassifierOutcome;
+  shadows: ClassifierOutcome[];
+}
+
+export type ShadowCallback = (comparison: ShadowComparison) => void;
+
+// Without an explicit choice the first of these that is registered is primary
+const PRIMARY_PREFERENCE = ['personalized', 'tfjs', 'rules'];
+const MIN_READINGS = 10;
+// A window whose likeliest activity has a lower calibrated probability than this is reported as
+// unknown rather than as a guess
+export const UNKNOWN_THRESHOLD = 0.4;
+
+// The likeliest activity, or unknown when even that one isn't likely enough
+const pickActivity = (probabilities: ActivityScores): { activity: ActivityOutcome; confidence: number } => {
+  const bestActivity = Object.keys(probabilities).reduce((a, b) =>
+    probabilities[a as ActivityType] > probabilities[b as ActivityType] ? a : b
+  ) as ActivityType;
+
+  const confidence = probabilities[bestActivity];
+  return { activity: confidence < UNKNOWN_THRESHOLD ? 'unknown' : bestActivity, confidence };
+};
+
+class ClassifierRegistry {
+  private classifiers = new Map<string, ActivityClassifier>();
+  private primaryId: string | null = null; // null picks by PRIMARY_PREFERENCE
+  private shadowIds: string[] = [];
+  private personalModel: PersonalModel | null = null;
+  private shadowCallbacks: ShadowCallback[] = [];
+
+  constructor() {
+    this.register(new RuleBasedClassifier());
+  }
+
+  // Adds a classifier, replacing any with the same id. Returns false, leaving the registry as it
+  // was, when it expects features this version of the app doesn't extract.
+  register(classifier: ActivityClassifier): boolean {
+    const mismatch = getFeatureSetMismatch(classifier.featureSet);
+    if (mismatch) {
+      console.warn(`Classifier ${classifier.id} ${mismatch}, not registering it`);
+      return false;
+    }
+
+    const previous = this.classifiers.get(classifier.id);
+    if (previous && previous !== classifier) {
+      previous.dispose?.();
+    }
+    this.classifiers.set(classifier.id, classifier);
+
+    if (classifier.id !== 'personalized') {
+      this.updatePersonalizedClassifier();
+    }
+    return true;
+  }
+
+  unregister(id: string) {
+    const classifier = this.classifiers.get(id);
+    if (!classifier) return;
+
+    this.classifiers.delete(id);
+    classifier.dispose?.();
+    if (id !== 'personalized') {
+      this.updatePersonalizedClassifier();
+    }
+  }
+
+  getClassifiers(): ActivityClassifier[] {
+    return Array.from(this.classifiers.values());
+  }
+
+  // Chooses the classifier that decides the activity; null, or an id that isn't registered, picks
+  // the best one available
+  setPrimary(id: string | null) {
+    this.primaryId = id;
+  }
+
+  // The explicit choice, if any; see getPrimary for the classifier actually in use
+  getPrimarySelection(): string | null {
+    return this.primaryId;
+  }
+
+  getPrimary(): ActivityClassifier {
+    const chosen = this.primaryId ? this.classifiers.get(this.primaryId) : undefined;
+    if (chosen) return chosen;
+
+    const preferred = PRIMARY_PREFERENCE.map(id => this.classifiers.get(id)).find(Boolean);
+    return preferred ?? this.getClassifiers()[0];
+  }
+
+  // Classifiers that also score every window for comparison. Ids that aren't registered yet are
+  // kept, so a shadow starts running once its classifier loads.
+  setShadows(ids: string[]) {
+    this.shadowIds = Array.from(new Set(ids));
+  }
+
+  getShadows(): string[] {
+    return [...this.shadowIds];
+  }
+
+  // The features the primary classifier was written against
+  get featureSet(): FeatureSetInfo {
+    return this.getPrimary().featureSet;
+  }
+
+  extractFeatures(sensorData: SensorReading[]): ActivityFeatures {
+    return extractFeatures(sensorData);
+  }
+
+  classify(sensorData: SensorReading[]): ClassificationResult {
+    // Without enough readings every activity the sensors could pick up is as likely as the next
+    if (sensorData.length < MIN_READINGS) {
+      const even = 1 / SENSOR_ACTIVITIES.length;
+      const scores = createEmptyScores();
+      SENSOR_ACTIVITIES.forEach(activity => {
+        scores[activity] = even;
+      });
+      return { activity: 'unknown', confidence: even, scores, features: null };
+    }
+
+    const features = this.extractFeatures(sensorData);
+    const primary = this.getPrimary();
+    const scores = getProbabilities(primary, features);
+    const result = { ...pickActivity(scores), scores, features };
+
+    this.runShadows(primary, result, features);
+    return result;
+  }
+
+  // Scores the window with each shadow and reports the results next to the primary's
+  private runShadows(primary: ActivityClassifier, result: ClassificationResult, features: ActivityFeatures) {
+    if (this.shadowCallbacks.length === 0) return;
+
+    const shadows: ClassifierOutcome[] = [];
+    this.shadowIds.forEach(id => {
+      const shadow = this.classifiers.get(id);
+      if (!shadow || shadow === primary) return;
+      try {
+        shadows.push({ classifierId: id, ...pickActivity(getProbabilities(shadow, features)) });
+      } catch (error) {
+        console.error(`Error running shadow classifier ${id}:`, error);
+      }
+    });
+    if (shadows.length === 0) return;
+
+    const comparison: ShadowComparison = {
+      timestamp: Date.now(),
+      features,
+      primary: { classifierId: primary.id, activity: result.activity, confidence: result.confidence },
+      shadows,
+    };
+    this.shadowCallbacks.forEach(callback => callback(comparison));
+  }
+
+  subscribeShadowResults(callback: ShadowCallback): () => void {
+    this.shadowCallbacks.push(callback);
+
+    // Return unsubscribe function
+    return () => {
+      const index = this.shadowCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.shadowCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  // Loads the bundled model, or the given one, and registers it as 'tfjs'. Returns false, leaving
+  // the registered classifiers as they were, when it can't be loaded or used.
+  async loadModel(file: ActivityModelFile = require('../assets/models/activity-model.json')): Promise<boolean> {
+    try {
+      const model = await ActivityModel.load(file);
+      if (!this.register(new ModelClassifier(model))) {
+        model.dispose();
+        return false;
+      }
+
+      console.log(`Activity model ${model.metadata.name} ${model.metadata.version} loaded`);
+      return true;
+    } catch (error) {
+      console.error('Error loading activity model:', error);
+      return false;
+    }
+  }
+
+  // Replaces the personal layer, or removes it with null
+  setPersonalModel(model: PersonalModel | null) {
+    this.personalModel = model && model.size > 0 ? model : null;
+    this.updatePersonalizedClassifier();
+  }
+
+  // Keeps 'personalized' on top of the best base classifier registered
+  private updatePersonalizedClassifier() {
+    const base = PRIMARY_PREFERENCE
+      .filter(id => id !== 'personalized')
+      .map(id => this.classifiers.get(id))
+      .find(Boolean);
+
+    const current = this.classifiers.get('personalized');
+    if (current) {
+      this.classifiers.delete('personalized');
+      current.dispose?.();
+    }
+    if (this.personalModel && base) {
+      this.classifiers.set('personalized', new PersonalizedClassifier(base, this.personalModel));
+    }
+  }
+
+  // Describes the primary classifier
+  getModelInfo(): ClassifierInfo {
+    return this.getPrimary().getInfo();
+  }
+}
+
+export default new ClassifierRegistry();
@@ -0,0 +1,182 @@
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { toCSV } from '../utils/csv';
+import { toLocalDateKey } from '../utils/dateUtils';
+import { downloadFile } from '../utils/download';
+import { createZip } from '../utils/zip';
+import { EXPORT_FORMAT, EXPORT_VERSION, ExportedActivity, ExportRange, HealthDataExport } from './ExportFormat';
+import HealthDataService, { HealthGoals } from './HealthDataService';
+
+export type { ExportedActivity, ExportRange, HealthDataExport };
+
+export type ExportFileFormat = 'json' | 'csv' | 'zip';
+
+export interface ExportFile {
+  name: string;
+  mimeType: string;
+  content: string | Uint8Array;
+}
+
+const ACTIVITY_PAGE_SIZE = 500;
+const GOALS_SETTING = 'goals';
+
+const MIME_TYPES = {
+  json: 'application/json',
+  csv: 'text/csv',
+  zip: 'application/zip',
+};
+
+// Apple type identifiers for the iOS share sheet
+const UTI_TYPES: { [mimeType: string]: string } = {
+  [MIME_TYPES.json]: 'public.json',
+  [MIME_TYPES.csv]: 'public.comma-separated-values-text',
+  [MIME_TYPES.zip]: 'public.zip-archive',
+};
+
+class DataExportService {
+  // Collects everything in the range into one versioned document
+  async createExport(range: ExportRange): Promise<HealthDataExport> {
+    const activities: ExportedActivity[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await HealthDataService.getActivities({
+        from: range.from ?? undefined,
+        to: range.to ?? undefined,
+        cursor,
+        limit: ACTIVITY_PAGE_SIZE,
+      });
+      page.activities.forEach(({ id, ...activity }) => activities.push(activity));
+      cursor = page.nextCursor;
+    } while (cursor);
+    activities.reverse();
+
+    const [dailyStats, goals, { [GOALS_SETTING]: _goals, ...settings }] = await Promise.all([
+      HealthDataService.getDailyStats(range.from ?? '0000-01-01', range.to ?? '9999-12-31'),
+      HealthDataService.getGoals(),
+      HealthDataService.getPortableSettings(),
+    ]);
+
+    return {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      appVersion: Constants.expoConfig?.version ?? null,
+      range,
+      activities,
+      dailyStats,
+      goals,
+      settings,
+    };
+  }
+
+  toJSONFile(data: HealthDataExport): ExportFile {
+    return {
+      name: `${this.getBaseName(data)}.json`,
+      mimeType: MIME_TYPES.json,
+      content: JSON.stringify(data, null, 2),
+    };
+  }
+
+  // One file per table; goals and settings become key/value tables
+  toCSVFiles(data: HealthDataExport): ExportFile[] {
+    const baseName = this.getBaseName(data);
+    const file = (table: string, content: string): ExportFile => ({
+      name: `${baseName}-${table}.csv`,
+      mimeType: MIME_TYPES.csv,
+      content,
+    });
+
+    return [
+      file('activities', toCSV(
+        ['activity', 'start', 'end', 'timestamp', 'end_timestamp', 'duration_minutes', 'date', 'utc_offset', 'is_open'],
+        data.activities.map(activity => [
+          activity.activity,
+          new Date(activity.timestamp).toISOString(),
+          new Date(activity.endTimestamp).toISOString(),
+          activity.timestamp,
+          activity.endTimestamp,
+          activity.duration,
+          activity.date,
+          activity.utcOffset,
+          activity.isOpen,
+        ])
+      )),
+      file('daily_stats', toCSV(
+        ['date', 'steps', 'step_source', 'calories', 'active_minutes', 'sleep_hours'],
+        data.dailyStats.map(day => [
+          day.date,
+          day.steps,
+          day.stepSource,
+          day.calories,
+          day.activeMinutes,
+          day.sleepHours,
+        ])
+      )),
+      file('goals', toCSV(
+        ['goal', 'target'],
+        Object.keys(data.goals).map(key => [key, data.goals[key as keyof HealthGoals]])
+      )),
+      file('settings', toCSV(
+        ['key', 'value'],
+        Object.keys(data.settings).map(key => [key, JSON.stringify(data.settings[key])])
+      )),
+    ];
+  }
+
+  // The JSON document plus the CSV tables in a single archive
+  toZipFile(data: HealthDataExport): ExportFile {
+    const files = [this.toJSONFile(data), ...this.toCSVFiles(data)];
+    return {
+      name: `${this.getBaseName(data)}.zip`,
+      mimeType: MIME_TYPES.zip,
+      content: createZip(files.map(({ name, content }) => ({ name, content }))),
+    };
+  }
+
+  // Builds the export and hands it to the share sheet (native) or downloads it (web)
+  async exportData(format: ExportFileFormat, range: ExportRange): Promise<HealthDataExport> {
+    const data = await this.createExport(range);
+    const files = format === 'json'
+      ? [this.toJSONFile(data)]
+      : format === 'csv' ? this.toCSVFiles(data) : [this.toZipFile(data)];
+
+    if (Platform.OS === 'web') {
+      files.forEach(file => downloadFile(file.name, file.mimeType, file.content));
+    } else {
+      // Share sheets can't be stacked, so CSV tables are offered one after another
+      for (const file of files) {
+        await this.shareFile(file);
+      }
+    }
+
+    console.log(`Exported ${data.activities.length} activities and ${data.dailyStats.length} days as ${format}`);
+    return data;
+  }
+
+  private getBaseName(data: HealthDataExport): string {
+    return `health-data-${toLocalDateKey(new Date(data.exportedAt))}`;
+  }
+
+  private async shareFile(file: ExportFile) {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+
+    const target = new File(Paths.cache, file.name);
+    if (target.exists) {
+      target.delete();
+    }
+    target.create();
+    target.write(file.content);
+
+    await Sharing.shareAsync(target.uri, {
+      mimeType: file.mimeType,
+      UTI: UTI_TYPES[file.mimeType],
+      dialogTitle: `Export ${file.name}`,
+    });
+  }
+}
+
+export default new DataExportService();
@@ -0,0 +1,138 @@
+import { File } from 'expo-file-system';
+import * as DocumentPicker from 'expo-document-picker';
+import { ExportedActivity, HealthDataExport, ImportValidationError, parseExportFile } from './ExportFormat';
+import HealthDataService, { getActivityKey, HealthGoals, PORTABLE_SETTINGS, StepCount, StepSource } from './HealthDataService';
+
+export { ImportValidationError };
+
+export interface ImportPreview {
+  data: HealthDataExport;
+  fileName: string;
+  activityCount: number;
+  newActivities: number;
+  duplicateActivities: number; // already on this device (matched by start time and activity)
+  dailyStatsDays: number;
+  dateRange: { from: string; to: string } | null; // local days covered by the activities
+  conflicts: string[]; // goals and settings whose values differ from the ones on this device
+}
+
+export interface ImportOptions {
+  restoreSettings: boolean; // overwrite goals and settings with the imported values
+}
+
+export interface ImportResult {
+  added: number;
+  duplicates: number;
+  settingsRestored: number;
+}
+
+const GOALS_SETTING = 'goals';
+
+// Goals are restored on their own. Device settings in files from older versions are left out.
+const getRestorableSettings = (data: HealthDataExport): string[] =>
+  Object.keys(data.settings).filter(key => key !== GOALS_SETTING && PORTABLE_SETTINGS.includes(key));
+
+class DataImportService {
+  // Lets the user choose an export file and parses it; resolves to null if the picker was cancelled
+  async pickExportFile(): Promise<{ fileName: string; data: HealthDataExport } | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      // Shared files often lose their type on Android, hence octet-stream
+      type: ['application/json', 'application/zip', 'application/x-zip-compressed', 'application/octet-stream'],
+      copyToCacheDirectory: true,
+      multiple: false,
+    });
+    if (result.canceled || result.assets.length === 0) {
+      return null;
+    }
+
+    const asset = result.assets[0];
+    // On web the picker hands us the browser File; on native we read the cached copy
+    const bytes = asset.file
+      ? new Uint8Array(await asset.file.arrayBuffer())
+      : await new File(asset.uri).bytes();
+
+    return { fileName: asset.name, data: parseExportFile(bytes) };
+  }
+
+  // Compares the export with what is stored without changing anything
+  async previewImport(fileName: string, data: HealthDataExport): Promise<ImportPreview> {
+    const existing = await HealthDataService.findExistingActivities(data.activities);
+    const seen = new Set<string>();
+    let duplicateActivities = 0;
+    data.activities.forEach(activity => {
+      const key = getActivityKey(activity);
+      if (existing.has(key) || seen.has(key)) {
+        duplicateActivities++;
+      }
+      seen.add(key);
+    });
+
+    const dates = data.activities.map(activity => activity.date).sort();
+
+    return {
+      data,
+      fileName,
+      activityCount: data.activities.length,
+      newActivities: data.activities.length - duplicateActivities,
+      duplicateActivities,
+      dailyStatsDays: data.dailyStats.length,
+      dateRange: dates.length > 0 ? { from: dates[0], to: dates[dates.length - 1] } : null,
+      conflicts: await this.findSettingConflicts(data),
+    };
+  }
+
+  async importData(data: HealthDataExport, { restoreSettings }: ImportOptions): Promise<ImportResult> {
+    const activities: ExportedActivity[] = data.activities.map(activity => ({
+      activity: activity.activity,
+      timestamp: activity.timestamp,
+      endTimestamp: activity.endTimestamp,
+      duration: activity.duration,
+      date: activity.date,
+      utcOffset: activity.utcOffset,
+      isOpen: activity.isOpen,
+    }));
+
+    // Daily stats are derived data, so they are rebuilt from the merged sessions instead of copied.
+    // Measured steps can't be derived from sessions and are carried over per day.
+    const stepCounts: StepCount[] = data.dailyStats
+      .filter(day => day.stepSource && day.stepSource !== 'estimate')
+      .map(day => ({ date: day.date, source: day.stepSource as StepSource, steps: day.steps }));
+    const { added, duplicates } = await HealthDataService.importActivities(activities, stepCounts);
+
+    let settingsRestored = 0;
+    if (restoreSettings) {
+      await HealthDataService.setGoals(data.goals);
+      settingsRestored++;
+      for (const key of getRestorableSettings(data)) {
+        await HealthDataService.setSetting(key, data.settings[key]);
+        settingsRestored++;
+      }
+    }
+
+    return { added, duplicates, settingsRestored };
+  }
+
+  private async findSettingConflicts(data: HealthDataExport): Promise<string[]> {
+    const [goals, settings] = await Promise.all([
+      HealthDataService.getGoals(),
+      HealthDataService.getSettings(),
+    ]);
+    const conflicts: string[] = [];
+
+    (Object.keys(data.goals) as (keyof HealthGoals)[]).forEach(goal => {
+      if (goal in goals && data.goals[goal] !== goals[goal]) {
+        conflicts.push(`Goal "${goal}": ${goals[goal]} on this device, ${data.goals[goal]} in the file`);
+      }
+    });
+    getRestorableSettings(data).forEach(key => {
+      if (key in settings &&
+          JSON.stringify(settings[key]) !== JSON.stringify(data.settings[key])) {
+        conflicts.push(`Setting "${key}" differs from this device`);
+      }
+    });
+
+    return conflicts;
+  }
+}
+
+export default new DataImportService();
@@ -0,0 +1,64 @@
+import { getActivityDefinition } from '../constants/ActivityCatalog';
+
+export type BiologicalSex = 'female' | 'male' | 'unspecified';
+
+export interface UserProfile {
+  weightKg: number;
+  heightCm: number;
+  age: number;
+  sex: BiologicalSex;
+  restingHeartRate: number | null; // beats per minute, optional
+}
+
+// Used for calorie estimates until the user fills in their own profile
+export const DEFAULT_PROFILE: UserProfile = {
+  weightKg: 70,
+  heightCm: 170,
+  age: 30,
+  sex: 'unspecified',
+  restingHeartRate: null,
+};
+
+// Accepted input ranges, shared by validation and the profile editor
+export const PROFILE_LIMITS = {
+  weightKg: { min: 20, max: 350 },
+  heightCm: { min: 80, max: 250 },
+  age: { min: 13, max: 120 },
+  restingHeartRate: { min: 30, max: 150 },
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Mifflin-St Jeor resting energy expenditure in kcal/day. Without a stated sex we use the midpoint
+// of the male (+5) and female (-161) constants.
+export const calculateBMR = ({ weightKg, heightCm, age, sex }: UserProfile): number => {
+  const sexConstant = sex === 'male' ? 5 : sex === 'female' ? -161 : -78;
+  return 10 * weightKg + 6.25 * heightCm - 5 * age + sexConstant;
+};
+
+// Metabolic equivalents are listed in constants/ActivityCatalog
+export const getMET = (activity: string): number => getActivityDefinition(activity).met;
+
+// Total energy spent over the activity, in kcal. One MET is taken as the person's own resting rate
+// (BMR spread over the day) rather than the textbook 1 kcal/kg/h, so the estimate follows their
+// height, age and sex as well as weight.
+export const calculateActivityCalories = (activity: string, durationMinutes: number, profile: UserProfile): number =>
+  getMET(activity) * (calculateBMR(profile) / MINUTES_PER_DAY) * durationMinutes;
+
+// Returns a list of problems with the profile, empty when it is usable
+export const validateProfile = (profile: UserProfile): string[] => {
+  const problems: string[] = [];
+  const checkRange = (value: number, { min, max }: { min: number; max: number }, label: string) => {
+    if (!Number.isFinite(value) || value < min || value > max) {
+      problems.push(`${label} must be between ${min} and ${max}`);
+    }
+  };
+
+  checkRange(profile.weightKg, PROFILE_LIMITS.weightKg, 'Weight (kg)');
+  checkRange(profile.heightCm, PROFILE_LIMITS.heightCm, 'Height (cm)');
+  checkRange(profile.age, PROFILE_LIMITS.age, 'Age');
+  if (profile.restingHeartRate !== null) {
+    checkRange(profile.restingHeartRate, PROFILE_LIMITS.restingHeartRate, 'Resting heart rate');
+  }
+  return problems;
+};
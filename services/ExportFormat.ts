@@ -0,0 +1,164 @@
+import { readZip } from '../utils/zip';
+import { ActivityRecord, DailyStats, DEFAULT_GOALS, HealthGoals, StepSource } from './HealthDataService';
+
+// The versioned document DataExportService writes and DataImportService reads back, and the checks a
+// file has to pass before anything in it is imported
+
+export const EXPORT_FORMAT = 'context-aware-health-tracker-export';
+// Version 2 added the step source of each day
+export const EXPORT_VERSION = 2;
+
+// Inclusive local date keys (YYYY-MM-DD); null leaves that side of the range open
+export interface ExportRange {
+  from: string | null;
+  to: string | null;
+}
+
+export type ExportedActivity = Omit<ActivityRecord, 'id'>;
+
+export interface HealthDataExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  appVersion: string | null;
+  range: ExportRange;
+  activities: ExportedActivity[]; // oldest first
+  dailyStats: DailyStats[];
+  goals: HealthGoals;
+  settings: { [key: string]: any };
+}
+
+export class ImportValidationError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid export file: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? '; …' : ''}`);
+    this.name = 'ImportValidationError';
+  }
+}
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const STEP_SOURCES: StepSource[] = ['pedometer', 'accelerometer', 'estimate'];
+// Only the first issues are worth showing; a broken file tends to fail on every row
+const MAX_ISSUES = 20;
+
+const isObject = (value: unknown): value is { [key: string]: any } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Checks an untrusted parsed file against the export schema and returns it typed
+export const validateExport = (value: unknown): HealthDataExport => {
+  const issues: string[] = [];
+  const issue = (message: string) => {
+    if (issues.length < MAX_ISSUES) issues.push(message);
+  };
+
+  if (!isObject(value)) {
+    throw new ImportValidationError(['file does not contain a JSON object']);
+  }
+  if (value.format !== EXPORT_FORMAT) {
+    throw new ImportValidationError(['file is not a Health Tracker export']);
+  }
+  if (!Number.isInteger(value.version) || value.version < 1) {
+    issue('version must be a positive integer');
+  } else if (value.version > EXPORT_VERSION) {
+    issue(`export version ${value.version} is newer than this app supports (${EXPORT_VERSION})`);
+  }
+
+  if (!Array.isArray(value.activities)) {
+    issue('activities must be a list');
+  } else {
+    value.activities.forEach((activity: unknown, index: number) => {
+      const at = `activities[${index}]`;
+      if (!isObject(activity)) {
+        issue(`${at} must be an object`);
+        return;
+      }
+      if (typeof activity.activity !== 'string' || activity.activity.length === 0) {
+        issue(`${at}.activity must be a non-empty string`);
+      }
+      if (!isFiniteNumber(activity.timestamp)) issue(`${at}.timestamp must be a number`);
+      if (!isFiniteNumber(activity.endTimestamp) || activity.endTimestamp < activity.timestamp) {
+        issue(`${at}.endTimestamp must be a number not before timestamp`);
+      }
+      if (!isFiniteNumber(activity.duration) || activity.duration < 0) {
+        issue(`${at}.duration must be a non-negative number`);
+      }
+      if (typeof activity.date !== 'string' || !DATE_KEY_PATTERN.test(activity.date)) {
+        issue(`${at}.date must be a YYYY-MM-DD date`);
+      }
+      if (activity.utcOffset !== null && !isFiniteNumber(activity.utcOffset)) {
+        issue(`${at}.utcOffset must be a number or null`);
+      }
+      if (typeof activity.isOpen !== 'boolean') issue(`${at}.isOpen must be true or false`);
+    });
+  }
+
+  if (!Array.isArray(value.dailyStats)) {
+    issue('dailyStats must be a list');
+  } else {
+    value.dailyStats.forEach((day: unknown, index: number) => {
+      const at = `dailyStats[${index}]`;
+      if (!isObject(day) || typeof day.date !== 'string' || !DATE_KEY_PATTERN.test(day.date)) {
+        issue(`${at}.date must be a YYYY-MM-DD date`);
+        return;
+      }
+      ['steps', 'calories', 'activeMinutes', 'sleepHours'].forEach(field => {
+        if (!isFiniteNumber(day[field])) issue(`${at}.${field} must be a number`);
+      });
+      // Missing in version 1 exports
+      if (day.stepSource !== undefined && day.stepSource !== null && !STEP_SOURCES.includes(day.stepSource)) {
+        issue(`${at}.stepSource must be one of ${STEP_SOURCES.join(', ')}`);
+      }
+    });
+  }
+
+  if (!isObject(value.goals)) {
+    issue('goals must be an object');
+  } else {
+    Object.keys(DEFAULT_GOALS).forEach(field => {
+      if (field in value.goals && (!isFiniteNumber(value.goals[field]) || value.goals[field] <= 0)) {
+        issue(`goals.${field} must be a positive number`);
+      }
+    });
+  }
+
+  if (value.settings !== undefined && !isObject(value.settings)) {
+    issue('settings must be an object');
+  }
+
+  if (issues.length > 0) {
+    throw new ImportValidationError(issues);
+  }
+
+  return {
+    ...value,
+    dailyStats: value.dailyStats.map((day: any) => ({ ...day, stepSource: day.stepSource ?? null })),
+    goals: { ...DEFAULT_GOALS, ...value.goals },
+    settings: value.settings ?? {},
+  } as HealthDataExport;
+};
+
+// Accepts the JSON document or the ZIP bundle produced by DataExportService
+export const parseExportFile = (bytes: Uint8Array): HealthDataExport => {
+  let json: string;
+
+  // ZIP archives start with the local file header signature "PK\x03\x04"
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04) {
+    const entry = readZip(bytes).find(({ name }) => name.toLowerCase().endsWith('.json'));
+    if (!entry) {
+      throw new ImportValidationError(['archive does not contain a JSON export']);
+    }
+    json = new TextDecoder().decode(entry.content);
+  } else {
+    json = new TextDecoder().decode(bytes);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new ImportValidationError([`file is not valid JSON (${(error as Error).message})`]);
+  }
+  return validateExport(parsed);
+};
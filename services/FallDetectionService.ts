@@ -0,0 +1,231 @@
+import { AppState, Platform } from 'react-native';
+import { File, Paths } from 'expo-file-system';
+import ActivityRecognitionService, { ActivityEventSource } from './ActivityRecognitionService';
+import { FallDetector, FallEvent, FallKind, FallSensitivity } from './FallDetector';
+import HealthDataService from './HealthDataService';
+import NotificationService from './NotificationService';
+import type { TimedVector } from './SensorFusionBuffer';
+
+export interface FallDetectionSettings {
+  enabled: boolean;
+  sensitivity: FallSensitivity;
+}
+
+// How an incident ended: the user said they were fine, asked for help, or didn't answer in time
+export type IncidentOutcome = 'ok' | 'help' | 'unanswered';
+
+export interface FallIncident {
+  id: string;
+  detectedAt: number; // epoch ms of the impact
+  respondBy: number; // epoch ms the countdown runs out
+  kind: FallKind;
+  peakAcceleration: number; // g
+  freeFallDuration: number; // ms
+  source: ActivityEventSource; // 'replay' when a recorded trace was replayed to test detection
+  outcome: IncidentOutcome | null; // null while the countdown runs
+  respondedAt: number | null;
+  alertSent?: boolean; // whether the alert went out, when one was due; absent in older logs
+}
+
+export type IncidentCallback = (incident: FallIncident) => void;
+
+const SETTINGS_KEY = 'fallDetection';
+const STORAGE_FILE = 'fall-incidents.json';
+const WEB_STORAGE_KEY = 'health_fall_incidents';
+const MAX_INCIDENTS = 200;
+const COUNTDOWN = 30000; // ms to answer "Are you OK?" before the alert goes out
+
+const DEFAULT_SETTINGS: FallDetectionSettings = { enabled: false, sensitivity: 'medium' };
+
+// Runs the fall detector on the accelerometer alongside activity recognition. A detected fall starts
+// a countdown, shown full screen by the app; if nobody answers it in time a high-priority
+// notification goes out. Every incident, answered or not, is logged on this device to help choose
+// the sensitivity. Replayed sensor traces go through the same detector, which is how it is tested.
+class FallDetectionService {
+  private settings: FallDetectionSettings = DEFAULT_SETTINGS;
+  private detector = new FallDetector(DEFAULT_SETTINGS.sensitivity);
+  private incidents: FallIncident[] = [];
+  private pending: { incident: FallIncident; timer: ReturnType<typeof setTimeout> } | null = null;
+  private incidentCallbacks: IncidentCallback[] = [];
+  private unsubscribe: (() => void) | null = null;
+  private loading: Promise<void> | null = null;
+
+  async initialize() {
+    this.loading ??= this.load();
+    await this.loading;
+  }
+
+  async getSettings(): Promise<FallDetectionSettings> {
+    await this.initialize();
+    return { ...this.settings };
+  }
+
+  async setSettings(settings: Partial<FallDetectionSettings>) {
+    await this.initialize();
+
+    this.settings = { ...this.settings, ...settings };
+    await HealthDataService.setSetting(SETTINGS_KEY, this.settings);
+    this.detector.setSensitivity(this.settings.sensitivity);
+    ActivityRecognitionService.setFallDetection(this.settings.enabled);
+    if (this.settings.enabled) {
+      // Asks for the notification permission when detection is switched on rather than at the first fall
+      await NotificationService.initialize();
+    }
+    console.log(`Fall detection ${this.settings.enabled ? `on, ${this.settings.sensitivity} sensitivity` : 'off'}`);
+  }
+
+  // The incident whose countdown is running, if any
+  getPendingIncident(): FallIncident | null {
+    return this.pending ? { ...this.pending.incident } : null;
+  }
+
+  // Called when an incident starts and again when it is answered or runs out
+  subscribe(callback: IncidentCallback): () => void {
+    this.incidentCallbacks.push(callback);
+
+    // Return unsubscribe function
+    return () => {
+      const index = this.incidentCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.incidentCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  // The user's answer to "Are you OK?"
+  async respond(outcome: 'ok' | 'help') {
+    await this.resolve(outcome);
+  }
+
+  // Newest first
+  async getIncidents(): Promise<FallIncident[]> {
+    await this.initialize();
+    return [...this.incidents].reverse();
+  }
+
+  async clearIncidents() {
+    await this.initialize();
+
+    this.incidents = [];
+    await this.save();
+    console.log('Fall incident log cleared');
+  }
+
+  private handleSample = (sample: TimedVector, source: ActivityEventSource) => {
+    if (!this.settings.enabled) return;
+
+    const event = this.detector.addSample(sample.x, sample.y, sample.z, sample.timestamp);
+    if (event && !this.pending) {
+      this.startIncident(event, source);
+    }
+  };
+
+  private startIncident(event: FallEvent, source: ActivityEventSource) {
+    const now = Date.now();
+    const incident: FallIncident = {
+      id: `${event.timestamp}`,
+      detectedAt: event.timestamp,
+      respondBy: now + COUNTDOWN,
+      kind: event.kind,
+      peakAcceleration: event.peakAcceleration,
+      freeFallDuration: event.freeFallDuration,
+      source,
+      outcome: null,
+      respondedAt: null,
+    };
+    const timer = setTimeout(() => {
+      this.resolve('unanswered').catch(error => console.error('Error resolving fall incident:', error));
+    }, COUNTDOWN);
+    this.pending = { incident, timer };
+
+    console.log(`Possible ${event.kind} detected (peak ${event.peakAcceleration.toFixed(1)} g)`);
+    this.notifyIncident(incident);
+
+    // The countdown screen can't come up by itself while the app is in the background
+    if (AppState.currentState !== 'active') {
+      NotificationService.sendFallCheck(incident.respondBy, source === 'replay')
+        .catch(error => console.error('Error sending fall check:', error));
+    }
+  }
+
+  private async resolve(outcome: IncidentOutcome) {
+    if (!this.pending) return;
+
+    const { incident, timer } = this.pending;
+    clearTimeout(timer);
+    this.pending = null;
+
+    const resolved: FallIncident = { ...incident, outcome, respondedAt: Date.now() };
+    if (outcome !== 'ok') {
+      // Retries the permission in case it wasn't granted when detection was switched on
+      await NotificationService.initialize();
+      resolved.alertSent = await NotificationService.sendFallAlert(resolved.detectedAt, resolved.source === 'replay');
+      if (!resolved.alertSent) {
+        console.error('The fall alert could not be sent; notifications may not be allowed');
+      }
+    }
+
+    this.incidents.push(resolved);
+    if (this.incidents.length > MAX_INCIDENTS) {
+      this.incidents = this.incidents.slice(-MAX_INCIDENTS);
+    }
+    this.notifyIncident(resolved);
+
+    try {
+      await this.save();
+    } catch (error) {
+      console.error('Error saving fall incidents:', error);
+    }
+  }
+
+  private notifyIncident(incident: FallIncident) {
+    this.incidentCallbacks.forEach(callback => callback({ ...incident }));
+  }
+
+  private async load() {
+    try {
+      const settings = await HealthDataService.getSetting<Partial<FallDetectionSettings>>(SETTINGS_KEY, {});
+      this.settings = { ...DEFAULT_SETTINGS, ...settings };
+      this.detector.setSensitivity(this.settings.sensitivity);
+      ActivityRecognitionService.setFallDetection(this.settings.enabled);
+
+      let content: string | null = null;
+      if (Platform.OS === 'web') {
+        content = typeof localStorage !== 'undefined' ? localStorage.getItem(WEB_STORAGE_KEY) : null;
+      } else {
+        const file = new File(Paths.document, STORAGE_FILE);
+        content = file.exists ? await file.text() : null;
+      }
+
+      const stored = content ? JSON.parse(content) : [];
+      this.incidents = Array.isArray(stored) ? stored : [];
+
+      if (this.settings.enabled) {
+        await NotificationService.initialize();
+      }
+    } catch (error) {
+      console.error('Error loading fall detection:', error);
+    }
+
+    this.unsubscribe?.();
+    this.unsubscribe = ActivityRecognitionService.subscribeAccelerometer(this.handleSample);
+  }
+
+  private async save() {
+    const content = JSON.stringify(this.incidents);
+    if (Platform.OS === 'web') {
+      if (typeof localStorage !== 'undefined') {
+        localStorage.setItem(WEB_STORAGE_KEY, content);
+      }
+      return;
+    }
+
+    const file = new File(Paths.document, STORAGE_FILE);
+    if (!file.exists) {
+      file.create();
+    }
+    file.write(content);
+  }
+}
+
+export default new FallDetectionService();
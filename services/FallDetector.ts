@@ -0,0 +1,131 @@
+// Spots falls in raw accelerometer samples (in g). A fall shows up as a moment of free fall, where
+// the magnitude drops well below 1 g, followed within a second by an impact well above it, and then
+// stillness: someone who has fallen and can't get up lies still, while someone who trips and
+// catches themselves, or a runner, whose every stride has a short flight and a landing, keeps
+// moving. A hard impact on its own, e.g. a collision, counts too when stillness follows it, which
+// also catches a free fall too short to span two samples. The thresholds assume samples every 100 ms,
+// which the adaptive sampler keeps to while fall detection is on.
+
+export type FallSensitivity = 'low' | 'medium' | 'high';
+
+export type FallKind = 'fall' | 'impact';
+
+export interface FallEvent {
+  kind: FallKind;
+  timestamp: number; // ms, of the impact
+  peakAcceleration: number; // g
+  freeFallDuration: number; // ms, 0 for an impact without free fall
+}
+
+interface FallThresholds {
+  freeFall: number; // g the magnitude has to drop below
+  minFreeFall: number; // ms the free fall has to last
+  impact: number; // g after a free fall
+  hardImpact: number; // g without one
+}
+
+const THRESHOLDS: { [sensitivity in FallSensitivity]: FallThresholds } = {
+  low: { freeFall: 0.4, minFreeFall: 300, impact: 3, hardImpact: 6 },
+  medium: { freeFall: 0.5, minFreeFall: 200, impact: 2.5, hardImpact: 4 },
+  high: { freeFall: 0.6, minFreeFall: 150, impact: 2, hardImpact: 3 },
+};
+
+const IMPACT_WINDOW = 1000; // ms after the free fall in which the impact has to come
+const SETTLE_TIME = 1000; // ms after the impact for bounces and rolling, not checked for stillness
+const STILL_TIME = 2000; // ms that then have to be still
+const STILL_TOLERANCE = 0.2; // g the magnitude may stray from 1 g while still
+const MAX_GAP = 1000; // ms without samples after which detection starts over
+
+type Phase =
+  | { name: 'watching' }
+  | { name: 'freeFall'; start: number }
+  | { name: 'awaitingImpact'; freeFallEnd: number; freeFallDuration: number }
+  | { name: 'settling'; kind: FallKind; impactAt: number; peak: number; freeFallDuration: number };
+
+export class FallDetector {
+  private phase: Phase = { name: 'watching' };
+  private lastTimestamp: number | null = null;
+
+  constructor(private sensitivity: FallSensitivity = 'medium') {}
+
+  setSensitivity(sensitivity: FallSensitivity) {
+    this.sensitivity = sensitivity;
+    this.reset();
+  }
+
+  // Feeds one sample and returns the fall it confirmed, if any
+  addSample(x: number, y: number, z: number, timestamp: number): FallEvent | null {
+    if (this.lastTimestamp !== null && timestamp - this.lastTimestamp > MAX_GAP) {
+      this.phase = { name: 'watching' };
+    }
+    this.lastTimestamp = timestamp;
+
+    const magnitude = Math.sqrt(x * x + y * y + z * z);
+    const thresholds = THRESHOLDS[this.sensitivity];
+    const phase = this.phase;
+
+    switch (phase.name) {
+      case 'freeFall': {
+        if (magnitude < thresholds.freeFall) return null;
+
+        const freeFallDuration = timestamp - phase.start;
+        if (freeFallDuration >= thresholds.minFreeFall) {
+          this.phase = { name: 'awaitingImpact', freeFallEnd: timestamp, freeFallDuration };
+        } else {
+          this.phase = { name: 'watching' };
+        }
+        // The sample that ends the free fall is often the impact itself
+        return this.addSample(x, y, z, timestamp);
+      }
+
+      case 'awaitingImpact':
+        if (magnitude >= thresholds.impact) {
+          this.phase = {
+            name: 'settling',
+            kind: 'fall',
+            impactAt: timestamp,
+            peak: magnitude,
+            freeFallDuration: phase.freeFallDuration,
+          };
+        } else if (timestamp - phase.freeFallEnd > IMPACT_WINDOW) {
+          this.phase = { name: 'watching' };
+        }
+        return null;
+
+      case 'settling': {
+        const elapsed = timestamp - phase.impactAt;
+        if (elapsed < SETTLE_TIME) {
+          phase.peak = Math.max(phase.peak, magnitude);
+          return null;
+        }
+        if (Math.abs(magnitude - 1) > STILL_TOLERANCE) {
+          // Moving again, so not a fall that needs help
+          this.phase = { name: 'watching' };
+          return null;
+        }
+        if (elapsed < SETTLE_TIME + STILL_TIME) return null;
+
+        this.phase = { name: 'watching' };
+        return {
+          kind: phase.kind,
+          timestamp: phase.impactAt,
+          peakAcceleration: phase.peak,
+          freeFallDuration: phase.freeFallDuration,
+        };
+      }
+
+      default:
+        if (magnitude < thresholds.freeFall) {
+          this.phase = { name: 'freeFall', start: timestamp };
+        } else if (magnitude >= thresholds.hardImpact) {
+          this.phase = { name: 'settling', kind: 'impact', impactAt: timestamp, peak: magnitude, freeFallDuration: 0 };
+        }
+        return null;
+    }
+  }
+
+  reset() {
+    this.phase = { name: 'watching' };
+    this.lastTimestamp = null;
+  }
+}
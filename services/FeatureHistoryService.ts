@@ -0,0 +1,183 @@
+import { Platform } from 'react-native';
+import { Directory, File, Paths } from 'expo-file-system';
+import { addLocalDays, toLocalDateKey } from '../utils/dateUtils';
+import type { FeatureWindow } from './ActivityRecognitionService';
+
+interface StoredSession {
+  startTime: number;
+  endTime: number;
+  windows: FeatureWindow[];
+}
+
+const HISTORY_DIRECTORY = 'feature-history';
+const WEB_STORAGE_PREFIX = 'health_feature_history_';
+const RETENTION_DAYS = 7;
+// A session keeps fewer windows than this however long it runs; see addWindow
+const MAX_WINDOWS_PER_SESSION = 120;
+const MIN_WINDOW_SPACING = 10 * 1000; // ms
+
+const roundFeature = (value: number) => Number(value.toPrecision(4));
+
+const isStoredSession = (value: any): value is StoredSession =>
+  typeof value === 'object' && value !== null &&
+  Number.isFinite(value.startTime) && Number.isFinite(value.endTime) &&
+  Array.isArray(value.windows);
+
+// The feature windows of finished live sessions, kept on the device for a week so a session that is
+// corrected later, after the app has restarted, can still teach the classifier. Windows are thinned to
+// at most one every 10 seconds, and further for long sessions so the day's file stays small. Sessions
+// are filed by the local day they started, one file (or web storage key) per day. Like the personal
+// examples, they are never exported.
+class FeatureHistoryService {
+  private windows: FeatureWindow[] = []; // of the running session
+  private spacing = MIN_WINDOW_SPACING;
+  private prunedOn: string | null = null;
+  // Sessions are saved one at a time, since each rewrites its day's file
+  private saving: Promise<void> = Promise.resolve();
+
+  // Adds a classified window of the running live session. Once the session has collected the most
+  // windows it may keep, every other one is dropped and the spacing doubles, so a long session ends
+  // up evenly covered.
+  addWindow(window: FeatureWindow) {
+    const last = this.windows[this.windows.length - 1];
+    if (last && window.windowStart - last.windowStart < this.spacing) return;
+
+    this.windows.push({ ...window, features: window.features.map(roundFeature) });
+    if (this.windows.length >= MAX_WINDOWS_PER_SESSION) {
+      this.windows = this.windows.filter((_, i) => i % 2 === 0);
+      this.spacing *= 2;
+    }
+  }
+
+  // Files the windows added since the last session ended under the session that just ended
+  endSession(startTime: number, endTime: number): Promise<void> {
+    const windows = this.windows;
+    this.discardSession();
+    if (windows.length > 0) {
+      this.saving = this.saving
+        .then(() => this.saveSession({ startTime, endTime, windows }))
+        .catch(error => console.error('Error saving feature history:', error));
+    }
+    return this.saving;
+  }
+
+  // Drops the windows of the running session without keeping them, e.g. for a replayed trace
+  discardSession() {
+    this.windows = [];
+    this.spacing = MIN_WINDOW_SPACING;
+  }
+
+  // Stored windows that lie entirely between `from` and `to`, oldest first
+  async getWindows(from: number, to: number): Promise<FeatureWindow[]> {
+    await this.saving;
+
+    const windows: FeatureWindow[] = [];
+    const lastDay = toLocalDateKey(to);
+    // A session running across midnight is filed under the day before
+    for (let date = addLocalDays(toLocalDateKey(from), -1); date <= lastDay; date = addLocalDays(date, 1)) {
+      (await this.readDay(date))
+        .filter(session => session.endTime >= from && session.startTime <= to)
+        .forEach(session => {
+          windows.push(...session.windows.filter(window => window.windowStart >= from && window.windowEnd <= to));
+        });
+    }
+    return windows.sort((a, b) => a.windowStart - b.windowStart);
+  }
+
+  async clear() {
+    await this.saving;
+
+    this.discardSession();
+    this.getStoredDays().forEach(date => this.deleteDay(date));
+    console.log('Feature history cleared');
+  }
+
+  private async saveSession(session: StoredSession) {
+    const date = toLocalDateKey(session.startTime);
+    const sessions = await this.readDay(date);
+    sessions.push(session);
+    await this.writeDay(date, sessions);
+    this.pruneOldDays();
+  }
+
+  private pruneOldDays() {
+    const today = toLocalDateKey(new Date());
+    if (this.prunedOn === today) return;
+    this.prunedOn = today;
+
+    const oldest = addLocalDays(today, -RETENTION_DAYS);
+    this.getStoredDays()
+      .filter(date => date < oldest)
+      .forEach(date => this.deleteDay(date));
+  }
+
+  private async readDay(date: string): Promise<StoredSession[]> {
+    try {
+      let content: string | null = null;
+      if (Platform.OS === 'web') {
+        content = typeof localStorage !== 'undefined' ? localStorage.getItem(WEB_STORAGE_PREFIX + date) : null;
+      } else {
+        const file = new File(Paths.document, HISTORY_DIRECTORY, `${date}.json`);
+        content = file.exists ? await file.text() : null;
+      }
+
+      const stored = content ? JSON.parse(content) : [];
+      return Array.isArray(stored) ? stored.filter(isStoredSession) : [];
+    } catch (error) {
+      console.error(`Error reading feature history of ${date}:`, error);
+      return [];
+    }
+  }
+
+  private async writeDay(date: string, sessions: StoredSession[]) {
+    const content = JSON.stringify(sessions);
+    if (Platform.OS === 'web') {
+      if (typeof localStorage !== 'undefined') {
+        localStorage.setItem(WEB_STORAGE_PREFIX + date, content);
+      }
+      return;
+    }
+
+    const file = new File(this.getDirectory(), `${date}.json`);
+    if (!file.exists) {
+      file.create();
+    }
+    file.write(content);
+  }
+
+  private deleteDay(date: string) {
+    if (Platform.OS === 'web') {
+      localStorage.removeItem(WEB_STORAGE_PREFIX + date);
+      return;
+    }
+
+    const file = new File(this.getDirectory(), `${date}.json`);
+    if (file.exists) {
+      file.delete();
+    }
+  }
+
+  // Date keys of the days with stored sessions
+  private getStoredDays(): string[] {
+    if (Platform.OS === 'web') {
+      if (typeof localStorage === 'undefined') return [];
+      return Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i))
+        .filter((key): key is string => key !== null && key.startsWith(WEB_STORAGE_PREFIX))
+        .map(key => key.slice(WEB_STORAGE_PREFIX.length));
+    }
+
+    return this.getDirectory().list()
+      .filter((entry): entry is File => entry instanceof File && entry.name.endsWith('.json'))
+      .map(file => file.name.replace(/\.json$/, ''));
+  }
+
+  private getDirectory(): Directory {
+    const directory = new Directory(Paths.document, HISTORY_DIRECTORY);
+    if (!directory.exists) {
+      directory.create({ intermediates: true });
+    }
+    return directory;
+  }
+}
+
+export default new FeatureHistoryService();
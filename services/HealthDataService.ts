@@ -1,245 +1,427 @@
 
-import * as SQLite from 'expo-sqlite';
-import { Platform } from 'react-native';
+import { getActivityDefinition } from '../constants/ActivityCatalog';
+import {
+  addLocalDays,
+  CalendarGranularity,
+  getNextLocalMidnight,
+  getNextPeriodStart,
+  getPeriodStart,
+  getUtcOffsetMinutes,
+  parseLocalDateKey,
+  splitByLocalDay,
+  toLocalDateKey,
+} from '../utils/dateUtils';
+import { calculateActivityCalories, DEFAULT_PROFILE, UserProfile } from './EnergyModel';
+import { createPlatformAdapter } from './storage/createPlatformAdapter';
+import { LocalStorageAdapter } from './storage/LocalStorageAdapter';
+import { MemoryStorageAdapter } from './storage/MemoryStorageAdapter';
+import {
+  ActivityRecord,
+  DailyStats,
+  HealthStats,
+  MeasuredStepSource,
+  StepCount,
+  StepSource,
+  StorageAdapter,
+} from './storage/StorageAdapter';
+
+export type {
+  ActivityRecord,
+  DailyStats,
+  HealthStats,
+  MeasuredStepSource,
+  StepCount,
+  StepSource,
+} from './storage/StorageAdapter';
+
+// Date keys (YYYY-MM-DD) cover whole local days; Date values are exact instants
+export type DateBoundary = Date | string;
+
+export interface StatsQuery {
+  from: DateBoundary;
+  to: DateBoundary;
+  granularity?: CalendarGranularity;
+}
+
+export interface StatsBucket extends HealthStats {
+  start: string; // first local day of the period
+  end: string; // last local day of the period
+  days: number; // days of the period inside the queried range
+}
 
-interface HealthStats {
+export interface ActivityQuery {
+  from?: DateBoundary;
+  to?: DateBoundary;
+  types?: string[];
+  cursor?: string | null;
+  limit?: number;
+}
+
+export interface ActivityPage {
+  activities: ActivityRecord[];
+  nextCursor: string | null; // pass back as `cursor` to fetch the next (older) page
+}
+
+export interface HealthGoals {
   steps: number;
   calories: number;
   activeMinutes: number;
   sleepHours: number;
 }
 
-interface ActivityRecord {
-  id?: number;
-  activity: string;
-  timestamp: number;
-  duration: number; // in minutes
-  date: string; // YYYY-MM-DD format
+export const DEFAULT_GOALS: HealthGoals = {
+  steps: 10000,
+  calories: 2000,
+  activeMinutes: 30,
+  sleepHours: 8,
+};
+
+export interface ActivityImportResult {
+  added: number;
+  duplicates: number; // already stored, or repeated within the import
+  stepDays: number; // days whose measured step count was added or raised
 }
 
-class HealthDataService {
-  private db: SQLite.SQLiteDatabase | null = null;
+// Sessions are the same if they started at the same moment with the same activity
+export const getActivityKey = (record: { timestamp: number; activity: string }): string =>
+  `${record.timestamp}:${record.activity}`;
+
+const EMPTY_STATS: HealthStats = { steps: 0, calories: 0, activeMinutes: 0, sleepHours: 0 };
+
+const addStats = (a: HealthStats, b: HealthStats): HealthStats => ({
+  steps: a.steps + b.steps,
+  calories: a.calories + b.calories,
+  activeMinutes: a.activeMinutes + b.activeMinutes,
+  sleepHours: a.sleepHours + b.sleepHours,
+});
+// A day's step total comes from the first source in this list that has counted anything
+const STEP_SOURCE_PRIORITY: StepSource[] = ['pedometer', 'accelerometer', 'estimate'];
+
+const pickStepCount = (counts: StepCount[]): StepCount | null => {
+  for (const source of STEP_SOURCE_PRIORITY) {
+    const count = counts.find(c => c.source === source && c.steps > 0);
+    if (count) return count;
+  }
+  return null;
+};
+const GOALS_SETTING = 'goals';
+const PROFILE_SETTING = 'profile';
+// Settings about the user rather than this device, the only ones exports carry and imports restore.
+// The rest, e.g. the tracking state, power profile and fall detection, belong to the device they are on.
+export const PORTABLE_SETTINGS = [GOALS_SETTING, PROFILE_SETTING];
+
+export class HealthDataService {
+  private storage: StorageAdapter | null = null;
   private isInitialized = false;
-  private webStorage: Map<string, any> = new Map(); // Fallback storage for web
-
-  async initialize() {
+  private openSessionId: number | null = null;
+  // Tail of the write queue, see enqueueWrite
+  private writes: Promise<unknown> = Promise.resolve();
+  // Cached so calorie calculations don't need a storage read; null until the user saves a profile
+  private profile: UserProfile | null = null;
+
+  // Pass an adapter to use a specific backend (e.g. MemoryStorageAdapter in tests);
+  // otherwise one is picked for the current platform
+  async initialize(adapter?: StorageAdapter) {
     if (this.isInitialized) return;
 
-    try {
-      // For web platform, use localStorage as fallback due to wa-sqlite.wasm issues
-      if (Platform.OS === 'web') {
-        console.log('Using web storage fallback for HealthDataService on web platform');
-        this.initializeWebStorage();
-        this.isInitialized = true;
-        return;
-      }
+    let storage = adapter ?? createPlatformAdapter();
+    let rebuildDailyStats = false;
 
-      // Try to initialize SQLite for native platforms
-      this.db = await SQLite.openDatabaseAsync('health_tracker.db');
-      
-      // Create tables if they don't exist
-      await this.createTables();
-      
-      this.isInitialized = true;
-      console.log('HealthDataService initialized with SQLite');
+    try {
+      ({ rebuildDailyStats } = await storage.open());
     } catch (error) {
-      console.error('Error initializing HealthDataService with SQLite, falling back to web storage:', error);
+      console.error(`Error opening ${storage.name} storage, falling back to web storage:`, error);
+      await storage.close().catch(() => {});
       // Fallback to web storage if SQLite fails (e.g., on web with missing WASM)
-      this.initializeWebStorage();
-      this.isInitialized = true;
+      storage = LocalStorageAdapter.isAvailable() ? new LocalStorageAdapter() : new MemoryStorageAdapter();
+      try {
+        ({ rebuildDailyStats } = await storage.open());
+      } catch (fallbackError) {
+        console.error('Error opening fallback storage, keeping data in memory only:', fallbackError);
+        storage = new MemoryStorageAdapter();
+        await storage.open();
+      }
     }
-  }
 
-  private initializeWebStorage() {
-    try {
-      if (typeof localStorage !== 'undefined') {
-        // Load existing data from localStorage
-        const activityRecords = localStorage.getItem('health_activity_records');
-        const dailyStats = localStorage.getItem('health_daily_stats');
-        
-        if (activityRecords) {
-          this.webStorage.set('activity_records', JSON.parse(activityRecords));
-        } else {
-          this.webStorage.set('activity_records', []);
-        }
-        
-        if (dailyStats) {
-          this.webStorage.set('daily_stats', JSON.parse(dailyStats));
-        } else {
-          this.webStorage.set('daily_stats', {});
-        }
-      } else {
-        // Fallback for environments without localStorage
-        this.webStorage.set('activity_records', []);
-        this.webStorage.set('daily_stats', {});
+    this.storage = storage;
+    this.isInitialized = true;
+    this.profile = await this.getProfile();
+
+    await this.enqueueWrite(async () => {
+      if (rebuildDailyStats) {
+        await this.rebuildDailyStats();
       }
-      
-      console.log('Web storage initialized');
-    } catch (error) {
-      console.error('Error initializing web storage:', error);
-      this.webStorage.set('activity_records', []);
-      this.webStorage.set('daily_stats', {});
-    }
+      await this.closeAbandonedSessions();
+    });
+    console.log(`HealthDataService initialized with ${storage.name} storage`);
   }
 
-  private saveWebStorage() {
-    try {
-      if (typeof localStorage !== 'undefined') {
-        localStorage.setItem('health_activity_records', JSON.stringify(this.webStorage.get('activity_records') || []));
-        localStorage.setItem('health_daily_stats', JSON.stringify(this.webStorage.get('daily_stats') || {}));
-      }
-    } catch (error) {
-      console.error('Error saving to web storage:', error);
+  // Records an already finished activity, e.g. one logged by hand. Throws, like relabelActivity, so
+  // the screen logging it can tell the user when it wasn't saved.
+  async recordActivity(activity: string, duration: number = 1, endTimestamp: number = Date.now()) {
+    const storage = this.storage;
+    if (!storage) {
+      throw new Error('HealthDataService not initialized');
     }
+    if (!(duration > 0)) {
+      throw new Error('An activity needs a duration');
+    }
+    if (endTimestamp > Date.now()) {
+      throw new Error('An activity cannot end in the future');
+    }
+
+    await this.enqueueWrite(async () => {
+      const id = await this.insertSession(storage, activity, endTimestamp - duration * 60000, false);
+      await this.finalizeSession(storage, id, endTimestamp);
+    });
+    console.log(`Recorded activity: ${activity} for ${duration} minutes`);
   }
 
-  private async createTables() {
-    if (!this.db) return;
+  // Adds steps measured by the pedometer or the accelerometer step detector to the local day
+  // they were taken on. Once a day has measured steps they replace the per-minute estimate.
+  async recordSteps(steps: number, source: MeasuredStepSource, timestamp: number = Date.now()) {
+    const storage = this.storage;
+    if (!storage) {
+      console.warn('HealthDataService not initialized');
+      return;
+    }
+    if (!(steps > 0)) return;
 
     try {
-      // Activity records table
-      await this.db.execAsync(`
-        CREATE TABLE IF NOT EXISTS activity_records (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          activity TEXT NOT NULL,
-          timestamp INTEGER NOT NULL,
-          duration INTEGER NOT NULL,
-          date TEXT NOT NULL
-        );
-      `);
-
-      // Daily stats table
-      await this.db.execAsync(`
-        CREATE TABLE IF NOT EXISTS daily_stats (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          date TEXT UNIQUE NOT NULL,
-          steps INTEGER DEFAULT 0,
-          calories INTEGER DEFAULT 0,
-          active_minutes INTEGER DEFAULT 0,
-          sleep_hours REAL DEFAULT 0
-        );
-      `);
-
-      console.log('Database tables created successfully');
+      const date = toLocalDateKey(timestamp);
+      await this.enqueueWrite(() =>
+        storage.transaction(async () => {
+          await storage.addStepCount(date, source, Math.round(steps));
+          await this.resolveDailySteps(storage, date);
+        })
+      );
     } catch (error) {
-      console.error('Error creating database tables:', error);
+      console.error('Error recording steps:', error);
     }
   }
 
-  async recordActivity(activity: string, duration: number = 1) {
-    if (!this.isInitialized) {
+  // Opens a new activity session, closing any session that is still open at the same moment
+  async startSession(activity: string, startTimestamp: number = Date.now()) {
+    const storage = this.storage;
+    if (!storage) {
       console.warn('HealthDataService not initialized');
       return;
     }
 
-    try {
-      const timestamp = Date.now();
-      const date = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
-
-      if (this.db) {
-        // SQLite implementation
-        await this.db.runAsync(
-          'INSERT INTO activity_records (activity, timestamp, duration, date) VALUES (?, ?, ?, ?)',
-          [activity, timestamp, duration, date]
-        );
-        await this.updateDailyStats(date, activity, duration);
-      } else {
-        // Web storage implementation
-        const activityRecords = this.webStorage.get('activity_records') || [];
-        const newRecord = {
-          id: Date.now(), // Simple ID generation
-          activity,
-          timestamp,
-          duration,
-          date
-        };
-        activityRecords.push(newRecord);
-        this.webStorage.set('activity_records', activityRecords);
-        
-        await this.updateDailyStatsWeb(date, activity, duration);
-        this.saveWebStorage();
+    await this.enqueueWrite(async () => {
+      await this.closeOpenSession(storage, startTimestamp);
+
+      try {
+        this.openSessionId = await this.insertSession(storage, activity, startTimestamp, true);
+        console.log(`Started ${activity} session`);
+      } catch (error) {
+        console.error('Error starting activity session:', error);
       }
+    });
+  }
 
-      console.log(`Recorded activity: ${activity} for ${duration} minutes`);
+  // Moves the end of the open session forward so a crash loses at most one extension interval
+  async extendSession(endTimestamp: number = Date.now()) {
+    const storage = this.storage;
+    if (!storage) return;
+
+    await this.enqueueWrite(async () => {
+      const id = this.openSessionId;
+      if (id === null) return;
+
+      try {
+        const session = await storage.getActivity(id);
+        if (session) {
+          await storage.updateActivity(id, {
+            endTimestamp,
+            duration: this.toMinutes(endTimestamp - session.timestamp),
+          });
+        }
+      } catch (error) {
+        console.error('Error extending activity session:', error);
+      }
+    });
+  }
+
+  // Closes the open session and adds its real duration to the daily stats
+  async endSession(endTimestamp: number = Date.now()) {
+    const storage = this.storage;
+    if (!storage) return;
+
+    await this.enqueueWrite(() => this.closeOpenSession(storage, endTimestamp));
+  }
+
+  // Runs writes one at a time, in the order they were asked for. Storage transactions only group
+  // statements, they don't keep others out: SQLite's withTransactionAsync lets any query on the
+  // connection run in the middle of one. Without the queue a step count from tracking could land
+  // inside an import's transaction and be rolled back with it. A failed write doesn't stop the ones after it.
+  private enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(task);
+    this.writes = result.catch(() => {});
+    return result;
+  }
+
+  // Only call from inside the write queue
+  private async closeOpenSession(storage: StorageAdapter, endTimestamp: number) {
+    const id = this.openSessionId;
+    if (id === null) return;
+    this.openSessionId = null;
+
+    try {
+      await this.finalizeSession(storage, id, endTimestamp);
     } catch (error) {
-      console.error('Error recording activity:', error);
+      console.error('Error ending activity session:', error);
     }
   }
 
-  private async updateDailyStats(date: string, activity: string, duration: number) {
-    if (!this.db) return;
+  private async insertSession(
+    storage: StorageAdapter,
+    activity: string,
+    startTimestamp: number,
+    isOpen: boolean
+  ): Promise<number> {
+    return storage.insertActivity({
+      activity,
+      timestamp: startTimestamp,
+      endTimestamp: startTimestamp,
+      duration: 0,
+      date: toLocalDateKey(startTimestamp),
+      utcOffset: getUtcOffsetMinutes(startTimestamp),
+      isOpen,
+    });
+  }
 
-    try {
-      // Ensure daily stats record exists
-      await this.db.runAsync(
-        'INSERT OR IGNORE INTO daily_stats (date) VALUES (?)',
-        [date]
-      );
+  // Closes a session, splitting it at local midnight so every row and its stats belong to a single day
+  private async finalizeSession(storage: StorageAdapter, id: number, endTimestamp: number) {
+    const session = await storage.getActivity(id);
+    if (!session) return;
 
-      // Update stats based on activity
-      const updates = this.calculateStatsUpdate(activity, duration);
+    const segments = splitByLocalDay(session.timestamp, Math.max(endTimestamp, session.timestamp));
 
-      if (updates.steps > 0) {
-        await this.db.runAsync(
-          'UPDATE daily_stats SET steps = steps + ? WHERE date = ?',
-          [updates.steps, date]
-        );
-      }
+    await storage.transaction(async () => {
+      for (const [index, segment] of segments.entries()) {
+        const duration = this.toMinutes(segment.end - segment.start);
+        const fields = {
+          activity: session.activity,
+          timestamp: segment.start,
+          endTimestamp: segment.end,
+          duration,
+          date: segment.date,
+          utcOffset: segment.utcOffset,
+          isOpen: false,
+        };
 
-      if (updates.calories > 0) {
-        await this.db.runAsync(
-          'UPDATE daily_stats SET calories = calories + ? WHERE date = ?',
-          [updates.calories, date]
-        );
+        if (index === 0) {
+          await storage.updateActivity(id, fields);
+        } else {
+          await storage.insertActivity(fields);
+        }
+        const { steps, ...update } = this.calculateStatsUpdate(session.activity, duration);
+        await storage.addToDailyStats(segment.date, update);
+        if (steps > 0) {
+          await storage.addStepCount(segment.date, 'estimate', steps);
+          await this.resolveDailySteps(storage, segment.date);
+        }
       }
+    });
+  }
 
-      if (updates.activeMinutes > 0) {
-        await this.db.runAsync(
-          'UPDATE daily_stats SET active_minutes = active_minutes + ? WHERE date = ?',
-          [updates.activeMinutes, date]
-        );
-      }
+  // Sessions still open at startup were cut off by the app being killed; close them
+  // at the last extension we managed to persist
+  private async closeAbandonedSessions() {
+    if (!this.storage) return;
 
-      if (updates.sleepHours > 0) {
-        await this.db.runAsync(
-          'UPDATE daily_stats SET sleep_hours = sleep_hours + ? WHERE date = ?',
-          [updates.sleepHours, date]
-        );
+    try {
+      const abandoned = await this.storage.queryActivities({ isOpen: true });
+      for (const session of abandoned) {
+        if (session.id !== undefined) {
+          await this.finalizeSession(this.storage, session.id, session.endTimestamp);
+        }
       }
     } catch (error) {
-      console.error('Error updating daily stats:', error);
+      console.error('Error closing abandoned sessions:', error);
     }
   }
 
-  private async updateDailyStatsWeb(date: string, activity: string, duration: number) {
-    try {
-      const dailyStats = this.webStorage.get('daily_stats') || {};
-      
-      // Ensure daily stats record exists
-      if (!dailyStats[date]) {
-        dailyStats[date] = {
-          steps: 0,
-          calories: 0,
-          active_minutes: 0,
-          sleep_hours: 0
-        };
-      }
+  // Sets the day's step total from the most trustworthy source that has counted steps
+  private async resolveDailySteps(storage: StorageAdapter, date: string) {
+    const best = pickStepCount(await storage.getStepCounts(date, date));
+    await storage.setDailySteps(date, best?.steps ?? 0, best?.source ?? null);
+  }
 
-      // Update stats based on activity
-      const updates = this.calculateStatsUpdate(activity, duration);
+  // Recomputes every day's totals from the closed activity records. Measured step counts
+  // are kept; only the estimates are recalculated.
+  private async rebuildDailyStats() {
+    if (!this.storage) return;
+
+    try {
+      const sessions = await this.storage.queryActivities({ isOpen: false });
+      const totals = new Map<string, HealthStats>();
+
+      sessions.forEach(session => {
+        const day = totals.get(session.date) || EMPTY_STATS;
+        totals.set(session.date, addStats(day, this.calculateStatsUpdate(session.activity, session.duration)));
+      });
+
+      await this.storage.replaceStepCounts(
+        'estimate',
+        Array.from(totals.entries())
+          .filter(([, stats]) => stats.steps > 0)
+          .map(([date, stats]) => ({ date, source: 'estimate', steps: stats.steps }))
+      );
 
-      dailyStats[date].steps += updates.steps;
-      dailyStats[date].calories += updates.calories;
-      dailyStats[date].active_minutes += updates.activeMinutes;
-      dailyStats[date].sleep_hours += updates.sleepHours;
+      const stepCounts = new Map<string, StepCount[]>();
+      (await this.storage.getStepCounts('0000-01-01', '9999-12-31')).forEach(count => {
+        stepCounts.set(count.date, [...(stepCounts.get(count.date) || []), count]);
+      });
 
-      this.webStorage.set('daily_stats', dailyStats);
+      const dates = new Set([...totals.keys(), ...stepCounts.keys()]);
+      await this.storage.replaceAllDailyStats(
+        Array.from(dates).map(date => {
+          const best = pickStepCount(stepCounts.get(date) || []);
+          return {
+            date,
+            ...(totals.get(date) || EMPTY_STATS),
+            steps: best?.steps ?? 0,
+            stepSource: best?.source ?? null,
+          };
+        })
+      );
+      console.log('Daily stats rebuilt from activity records');
     } catch (error) {
-      console.error('Error updating daily stats (web):', error);
+      console.error('Error rebuilding daily stats:', error);
     }
   }
 
-  private calculateStatsUpdate(activity: string, duration: number) {
+  // Recomputes a single day's totals and step estimate from its closed sessions, the way
+  // rebuildDailyStats does for every day. Measured step counts are kept.
+  private async rebuildDay(storage: StorageAdapter, date: string) {
+    const sessions = await storage.queryActivities({
+      // A day either side, for sessions recorded in another time zone
+      fromTime: parseLocalDateKey(addLocalDays(date, -1)).getTime(),
+      toTime: parseLocalDateKey(addLocalDays(date, 2)).getTime(),
+      isOpen: false,
+    });
+    const totals = sessions
+      .filter(session => session.date === date)
+      .reduce((day, session) => addStats(day, this.calculateStatsUpdate(session.activity, session.duration)), EMPTY_STATS);
+
+    const [stored] = await storage.getDailyStats(date, date);
+    await storage.addToDailyStats(date, {
+      calories: totals.calories - (stored?.calories ?? 0),
+      activeMinutes: totals.activeMinutes - (stored?.activeMinutes ?? 0),
+      sleepHours: totals.sleepHours - (stored?.sleepHours ?? 0),
+    });
+    const estimate = (await storage.getStepCounts(date, date)).find(count => count.source === 'estimate');
+    await storage.addStepCount(date, 'estimate', totals.steps - (estimate?.steps ?? 0));
+    await this.resolveDailySteps(storage, date);
+  }
+
+  private toMinutes(milliseconds: number): number {
+    return Math.round((milliseconds / 60000) * 10) / 10; // One decimal place
+  }
+
+  private calculateStatsUpdate(activity: string, duration: number): HealthStats {
     const updates = {
       steps: 0,
       calories: 0,
@@ -247,191 +429,360 @@ class HealthDataService {
       sleepHours: 0
     };
 
-    switch (activity.toLowerCase()) {
-      case 'walking':
-        updates.steps = Math.round(duration * 100); // ~100 steps per minute
-        updates.calories = Math.round(duration * 4); // ~4 calories per minute
-        updates.activeMinutes = duration;
-        break;
-      case 'running':
-        updates.steps = Math.round(duration * 180); // ~180 steps per minute
-        updates.calories = Math.round(duration * 12); // ~12 calories per minute
-        updates.activeMinutes = duration;
-        break;
-      case 'cycling':
-        updates.calories = Math.round(duration * 8); // ~8 calories per minute
-        updates.activeMinutes = duration;
-        break;
-      case 'sleeping':
-        updates.sleepHours = duration / 60; // Convert minutes to hours
-        break;
-      default:
-        // Idle or other activities
-        updates.calories = Math.round(duration * 1.2); // Base metabolic rate
-        break;
+    // Every activity burns energy, including the resting baseline while idle, driving or asleep
+    updates.calories = Math.round(calculateActivityCalories(activity, duration, this.profile ?? DEFAULT_PROFILE));
+
+    const definition = getActivityDefinition(activity);
+    updates.steps = Math.round(duration * definition.stepsPerMinute);
+    if (definition.active) {
+      updates.activeMinutes = Math.round(duration);
+    }
+    if (definition.sleep) {
+      updates.sleepHours = duration / 60; // Convert minutes to hours
     }
 
     return updates;
   }
 
   async getTodayStats(): Promise<HealthStats> {
-    if (!this.isInitialized) {
-      return { steps: 0, calories: 0, activeMinutes: 0, sleepHours: 0 };
+    if (!this.storage) {
+      return { ...EMPTY_STATS };
     }
 
     try {
-      const today = new Date().toISOString().split('T')[0];
-      
-      if (this.db) {
-        // SQLite implementation
-        const result = await this.db.getFirstAsync(
-          'SELECT steps, calories, active_minutes, sleep_hours FROM daily_stats WHERE date = ?',
-          [today]
-        ) as any;
-
-        if (result) {
-          return {
-            steps: result.steps || 0,
-            calories: result.calories || 0,
-            activeMinutes: result.active_minutes || 0,
-            sleepHours: result.sleep_hours || 0
-          };
-        } else {
-          // Create today's record if it doesn't exist
-          await this.db.runAsync(
-            'INSERT OR IGNORE INTO daily_stats (date) VALUES (?)',
-            [today]
-          );
-          return { steps: 0, calories: 0, activeMinutes: 0, sleepHours: 0 };
-        }
-      } else {
-        // Web storage implementation
-        const dailyStats = this.webStorage.get('daily_stats') || {};
-        const todayStats = dailyStats[today];
-        
-        if (todayStats) {
-          return {
-            steps: todayStats.steps || 0,
-            calories: todayStats.calories || 0,
-            activeMinutes: todayStats.active_minutes || 0,
-            sleepHours: todayStats.sleep_hours || 0
-          };
-        } else {
-          return { steps: 0, calories: 0, activeMinutes: 0, sleepHours: 0 };
-        }
+      const today = toLocalDateKey(new Date());
+      const [todayStats] = await this.storage.getDailyStats(today, today);
+
+      if (todayStats) {
+        const { steps, calories, activeMinutes, sleepHours } = todayStats;
+        return { steps, calories, activeMinutes, sleepHours };
       }
+      return { ...EMPTY_STATS };
     } catch (error) {
       console.error('Error getting today stats:', error);
-      return { steps: 0, calories: 0, activeMinutes: 0, sleepHours: 0 };
+      return { ...EMPTY_STATS };
     }
   }
 
   async getWeeklyStats(): Promise<HealthStats[]> {
-    if (!this.isInitialized) {
+    const today = toLocalDateKey(new Date());
+    const buckets = await this.getStats({ from: addLocalDays(today, -6), to: today }); // Last 7 days
+    return buckets.map(({ steps, calories, activeMinutes, sleepHours }) => ({
+      steps,
+      calories,
+      activeMinutes,
+      sleepHours
+    }));
+  }
+
+  // Totals per day, week, month or year between two dates, including zero-filled periods without data
+  async getStats({ from, to, granularity = 'day' }: StatsQuery): Promise<StatsBucket[]> {
+    if (!this.storage) {
       return [];
     }
 
     try {
-      const endDate = new Date();
-      const startDate = new Date();
-      startDate.setDate(endDate.getDate() - 6); // Last 7 days
-
-      if (this.db) {
-        // SQLite implementation
-        const results = await this.db.getAllAsync(
-          `SELECT date, steps, calories, active_minutes, sleep_hours 
-           FROM daily_stats 
-           WHERE date >= ? AND date <= ? 
-           ORDER BY date ASC`,
-          [
-            startDate.toISOString().split('T')[0],
-            endDate.toISOString().split('T')[0]
-          ]
-        ) as any[];
-
-        return results.map(row => ({
-          steps: row.steps || 0,
-          calories: row.calories || 0,
-          activeMinutes: row.active_minutes || 0,
-          sleepHours: row.sleep_hours || 0
-        }));
-      } else {
-        // Web storage implementation
-        const dailyStats = this.webStorage.get('daily_stats') || {};
-        const weeklyStats: HealthStats[] = [];
-        
-        for (let i = 6; i >= 0; i--) {
-          const date = new Date();
-          date.setDate(date.getDate() - i);
-          const dateStr = date.toISOString().split('T')[0];
-          
-          const dayStats = dailyStats[dateStr];
-          weeklyStats.push({
-            steps: dayStats?.steps || 0,
-            calories: dayStats?.calories || 0,
-            activeMinutes: dayStats?.active_minutes || 0,
-            sleepHours: dayStats?.sleep_hours || 0
-          });
+      const fromKey = typeof from === 'string' ? from : toLocalDateKey(from);
+      const toKey = typeof to === 'string' ? to : toLocalDateKey(to);
+      if (fromKey > toKey) {
+        return [];
+      }
+
+      const dailyStats = new Map(
+        (await this.storage.getDailyStats(fromKey, toKey)).map(({ date, ...stats }) => [date, stats])
+      );
+      const buckets: StatsBucket[] = [];
+
+      for (
+        let periodStart = getPeriodStart(fromKey, granularity);
+        periodStart <= toKey;
+        periodStart = getNextPeriodStart(periodStart, granularity)
+      ) {
+        const periodEnd = addLocalDays(getNextPeriodStart(periodStart, granularity), -1);
+        const bucket: StatsBucket = { ...EMPTY_STATS, start: periodStart, end: periodEnd, days: 0 };
+
+        // Only the days inside the requested range count towards the bucket
+        const firstDay = periodStart < fromKey ? fromKey : periodStart;
+        const lastDay = periodEnd > toKey ? toKey : periodEnd;
+        for (let day = firstDay; day <= lastDay; day = addLocalDays(day, 1)) {
+          const dayStats = dailyStats.get(day);
+          bucket.days++;
+          if (dayStats) {
+            bucket.steps += dayStats.steps;
+            bucket.calories += dayStats.calories;
+            bucket.activeMinutes += dayStats.activeMinutes;
+            bucket.sleepHours += dayStats.sleepHours;
+          }
         }
-        
-        return weeklyStats;
+
+        buckets.push(bucket);
       }
+
+      return buckets;
     } catch (error) {
-      console.error('Error getting weekly stats:', error);
+      console.error('Error getting stats:', error);
       return [];
     }
   }
 
+  async getActivity(id: number): Promise<ActivityRecord | null> {
+    if (!this.storage) {
+      return null;
+    }
+
+    try {
+      return await this.storage.getActivity(id);
+    } catch (error) {
+      console.error('Error getting activity:', error);
+      return null;
+    }
+  }
+
+  // Changes the activity of a finished session, e.g. when the user corrects a misclassification, and
+  // recomputes the totals of the day it counted towards
+  async relabelActivity(id: number, activity: string): Promise<ActivityRecord> {
+    const storage = this.storage;
+    if (!storage) {
+      throw new Error('HealthDataService not initialized');
+    }
+
+    return this.enqueueWrite(async () => {
+      const session = await storage.getActivity(id);
+      if (!session) {
+        throw new Error(`Activity ${id} not found`);
+      }
+      if (session.isOpen) {
+        throw new Error('An activity still in progress cannot be relabelled');
+      }
+
+      if (session.activity !== activity) {
+        await storage.transaction(async () => {
+          await storage.updateActivity(id, { activity });
+          await this.rebuildDay(storage, session.date);
+        });
+        console.log(`Relabelled ${session.activity} session as ${activity}`);
+      }
+      return { ...session, activity };
+    });
+  }
+
   async getRecentActivities(limit: number = 10): Promise<ActivityRecord[]> {
-    if (!this.isInitialized) {
+    const page = await this.getActivities({ limit });
+    return page.activities;
+  }
+
+  // Activity sessions newest first, optionally filtered by time range and type, paged with an opaque cursor
+  async getActivities({ from, to, types, cursor, limit = 50 }: ActivityQuery = {}): Promise<ActivityPage> {
+    if (!this.storage) {
+      return { activities: [], nextCursor: null };
+    }
+
+    try {
+      const fromTime = from === undefined
+        ? undefined
+        : typeof from === 'string' ? parseLocalDateKey(from).getTime() : from.getTime();
+      const toTime = to === undefined
+        ? undefined
+        : typeof to === 'string' ? getNextLocalMidnight(parseLocalDateKey(to).getTime()) : to.getTime() + 1;
+
+      // Fetch one extra row to know whether another page exists
+      const activities = await this.storage.queryActivities({
+        fromTime,
+        toTime,
+        types,
+        before: this.decodeCursor(cursor) ?? undefined,
+        limit: limit + 1,
+      });
+
+      const hasMore = activities.length > limit;
+      const pageItems = activities.slice(0, limit);
+      const last = pageItems[pageItems.length - 1];
+
+      return {
+        activities: pageItems,
+        nextCursor: hasMore && last ? this.encodeCursor(last.timestamp, last.id ?? 0) : null
+      };
+    } catch (error) {
+      console.error('Error getting activities:', error);
+      return { activities: [], nextCursor: null };
+    }
+  }
+
+  private encodeCursor(timestamp: number, id: number): string {
+    return `${timestamp}:${id}`;
+  }
+
+  private decodeCursor(cursor?: string | null): { timestamp: number; id: number } | null {
+    if (!cursor) return null;
+
+    const [timestamp, id] = cursor.split(':').map(Number);
+    if (!Number.isFinite(timestamp) || !Number.isFinite(id)) {
+      console.warn('Ignoring invalid activity cursor:', cursor);
+      return null;
+    }
+    return { timestamp, id };
+  }
+
+  // Keys (see getActivityKey) of the given sessions that are already stored
+  async findExistingActivities(activities: Omit<ActivityRecord, 'id'>[]): Promise<Set<string>> {
+    if (!this.storage || activities.length === 0) {
+      return new Set();
+    }
+
+    const stored = await this.storage.queryActivities({
+      fromTime: activities.reduce((min, activity) => Math.min(min, activity.timestamp), Infinity),
+      toTime: activities.reduce((max, activity) => Math.max(max, activity.timestamp), -Infinity) + 1,
+    });
+    return new Set(stored.map(getActivityKey));
+  }
+
+  // Merges sessions from another device or an export, skipping duplicates, then recomputes the totals of
+  // the days they were added to. Measured step counts are merged per day and source, keeping the higher
+  // of the two counts.
+  async importActivities(
+    activities: Omit<ActivityRecord, 'id'>[],
+    stepCounts: StepCount[] = []
+  ): Promise<ActivityImportResult> {
+    const storage = this.storage;
+    if (!storage) {
+      throw new Error('HealthDataService not initialized');
+    }
+
+    const result: ActivityImportResult = { added: 0, duplicates: 0, stepDays: 0 };
+
+    await this.enqueueWrite(async () => {
+      const seen = await this.findExistingActivities(activities);
+      const sessionDates = new Set<string>();
+      const stepDates = new Set<string>();
+
+      await storage.transaction(async () => {
+        for (const activity of activities) {
+          const key = getActivityKey(activity);
+          if (seen.has(key)) {
+            result.duplicates++;
+            continue;
+          }
+          seen.add(key);
+          // Sessions that were running when exported can't be continued here
+          await storage.insertActivity({ ...activity, isOpen: false });
+          sessionDates.add(activity.date);
+          result.added++;
+        }
+
+        for (const count of stepCounts) {
+          if (count.source === 'estimate') continue; // Recomputed from the sessions below
+          const [existing] = (await storage.getStepCounts(count.date, count.date))
+            .filter(c => c.source === count.source);
+          const missing = count.steps - (existing?.steps ?? 0);
+          if (missing > 0) {
+            await storage.addStepCount(count.date, count.source, missing);
+            stepDates.add(count.date);
+            result.stepDays++;
+          }
+        }
+
+        // Other days keep their totals, which were calculated with the profile of the time
+        for (const date of sessionDates) {
+          await this.rebuildDay(storage, date);
+        }
+        for (const date of stepDates) {
+          if (!sessionDates.has(date)) {
+            await this.resolveDailySteps(storage, date);
+          }
+        }
+      });
+    });
+    console.log(`Imported ${result.added} activities, skipped ${result.duplicates} duplicates`);
+    return result;
+  }
+
+  // Stored per-day totals without zero-filling; both bounds are inclusive local date keys
+  async getDailyStats(fromDate: string, toDate: string): Promise<DailyStats[]> {
+    if (!this.storage) {
       return [];
     }
 
     try {
-      if (this.db) {
-        // SQLite implementation
-        const results = await this.db.getAllAsync(
-          'SELECT * FROM activity_records ORDER BY timestamp DESC LIMIT ?',
-          [limit]
-        ) as any[];
-
-        return results.map(row => ({
-          id: row.id,
-          activity: row.activity,
-          timestamp: row.timestamp,
-          duration: row.duration,
-          date: row.date
-        }));
-      } else {
-        // Web storage implementation
-        const activityRecords = this.webStorage.get('activity_records') || [];
-        return activityRecords
-          .sort((a: any, b: any) => b.timestamp - a.timestamp)
-          .slice(0, limit);
-      }
+      return await this.storage.getDailyStats(fromDate, toDate);
     } catch (error) {
-      console.error('Error getting recent activities:', error);
+      console.error('Error getting daily stats:', error);
       return [];
     }
   }
 
-  async clearAllData() {
-    if (!this.isInitialized) {
+  async getGoals(): Promise<HealthGoals> {
+    const goals = await this.getSetting<Partial<HealthGoals>>(GOALS_SETTING, {});
+    return { ...DEFAULT_GOALS, ...goals };
+  }
+
+  async setGoals(goals: Partial<HealthGoals>) {
+    await this.setSetting(GOALS_SETTING, { ...(await this.getGoals()), ...goals });
+  }
+
+  // Body measurements used for calorie estimates; null when the user hasn't entered any
+  async getProfile(): Promise<UserProfile | null> {
+    const profile = await this.getSetting<UserProfile | null>(PROFILE_SETTING, null);
+    return profile ? { ...DEFAULT_PROFILE, ...profile } : null;
+  }
+
+  // Applies to activity recorded from now on; stored daily totals are left as they were
+  async setProfile(profile: UserProfile) {
+    await this.setSetting(PROFILE_SETTING, profile);
+  }
+
+  async getSettings(): Promise<{ [key: string]: any }> {
+    if (!this.storage) {
+      return {};
+    }
+
+    try {
+      return await this.storage.getSettings();
+    } catch (error) {
+      console.error('Error getting settings:', error);
+      return {};
+    }
+  }
+
+  async getPortableSettings(): Promise<{ [key: string]: any }> {
+    const settings = await this.getSettings();
+    return Object.fromEntries(Object.entries(settings).filter(([key]) => PORTABLE_SETTINGS.includes(key)));
+  }
+
+  async getSetting<T>(key: string, fallback: T): Promise<T> {
+    const settings = await this.getSettings();
+    return key in settings ? settings[key] : fallback;
+  }
+
+  async setSetting(key: string, value: any) {
+    if (!this.storage) {
       console.warn('HealthDataService not initialized');
       return;
     }
 
+    const storage = this.storage;
     try {
-      if (this.db) {
-        // SQLite implementation
-        await this.db.execAsync('DELETE FROM activity_records');
-        await this.db.execAsync('DELETE FROM daily_stats');
-      } else {
-        // Web storage implementation
-        this.webStorage.set('activity_records', []);
-        this.webStorage.set('daily_stats', {});
-        this.saveWebStorage();
+      await this.enqueueWrite(() => storage.setSetting(key, value));
+      if (key === PROFILE_SETTING) {
+        // Also covers profiles restored from an import
+        this.profile = value ? { ...DEFAULT_PROFILE, ...value } : null;
       }
+    } catch (error) {
+      console.error(`Error saving setting ${key}:`, error);
+    }
+  }
+
+  async clearAllData() {
+    if (!this.storage) {
+      console.warn('HealthDataService not initialized');
+      return;
+    }
+
+    const storage = this.storage;
+    try {
+      await this.enqueueWrite(async () => {
+        this.openSessionId = null;
+        await storage.clear();
+      });
       console.log('All health data cleared');
     } catch (error) {
       console.error('Error clearing data:', error);
@@ -439,9 +790,11 @@ class HealthDataService {
   }
 
   async close() {
-    if (this.db) {
-      await this.db.closeAsync();
-      this.db = null;
+    await this.endSession();
+
+    if (this.storage) {
+      await this.storage.close();
+      this.storage = null;
     }
     this.isInitialized = false;
   }
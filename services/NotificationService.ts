@@ -4,13 +4,16 @@ import { Platform } from 'react-native';
 
 // Configure notification behavior
 Notifications.setNotificationHandler({
-  handleNotification: async () => ({
+  handleNotification: async (notification) => ({
     shouldShowAlert: true,
-    shouldPlaySound: false,
+    // A fall alert has to be heard; everything else stays quiet
+    shouldPlaySound: notification.request.content.data?.type === 'fall_alert',
     shouldSetBadge: false,
   }),
 });
 
+const FALL_ALERT_CHANNEL = 'fall-alerts';
+
 class NotificationService {
   private isInitialized = false;
   private lastActivityTime = Date.now();
@@ -43,6 +46,14 @@ class NotificationService {
           vibrationPattern: [0, 250, 250, 250],
           lightColor: '#64B5F6',
         });
+        await Notifications.setNotificationChannelAsync(FALL_ALERT_CHANNEL, {
+          name: 'Fall Alerts',
+          importance: Notifications.AndroidImportance.MAX,
+          bypassDnd: true,
+          lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+          vibrationPattern: [0, 500, 250, 500, 250, 500],
+          lightColor: '#F44336',
+        });
       }
 
       this.isInitialized = true;
@@ -129,6 +140,59 @@ class NotificationService {
     }
   }
 
+  // Sent when a fall is detected while the app isn't on screen, so the countdown can still be answered.
+  // Returns whether the notification went out.
+  async sendFallCheck(respondBy: number, isTest: boolean = false): Promise<boolean> {
+    if (!this.isInitialized) return false;
+
+    try {
+      const seconds = Math.max(0, Math.round((respondBy - Date.now()) / 1000));
+      await Notifications.scheduleNotificationAsync({
+        content: {
+          title: isTest ? '🧪 Test: Are you OK?' : 'Are you OK?',
+          body: `A hard fall or impact was detected. Open the app within ${seconds} seconds to say you're OK, or an alert goes out.`,
+          data: { type: 'fall_check', respondBy },
+          sound: true,
+          priority: Notifications.AndroidNotificationPriority.MAX,
+          interruptionLevel: 'timeSensitive',
+        },
+        trigger: Platform.OS === 'android' ? { channelId: FALL_ALERT_CHANNEL } : null,
+      });
+      return true;
+    } catch (error) {
+      console.error('Error sending fall check:', error);
+      return false;
+    }
+  }
+
+  // Sent when nobody answered the "Are you OK?" countdown after a fall, at the highest priority the
+  // platform allows so it shows on the lock screen and gets through Do Not Disturb. Returns whether
+  // the alert went out; it can't without the notification permission.
+  async sendFallAlert(detectedAt: number, isTest: boolean = false): Promise<boolean> {
+    if (!this.isInitialized) return false;
+
+    try {
+      const time = new Date(detectedAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+      await Notifications.scheduleNotificationAsync({
+        content: {
+          title: isTest ? '🧪 Test: Possible Fall Detected' : '🚨 Possible Fall Detected',
+          body: `A hard fall was detected at ${time} and nobody answered. Please check on the owner of this phone.`,
+          data: { type: 'fall_alert', detectedAt },
+          sound: true,
+          priority: Notifications.AndroidNotificationPriority.MAX,
+          interruptionLevel: 'timeSensitive',
+        },
+        trigger: Platform.OS === 'android' ? { channelId: FALL_ALERT_CHANNEL } : null,
+      });
+
+      console.log('Fall alert sent');
+      return true;
+    } catch (error) {
+      console.error('Error sending fall alert:', error);
+      return false;
+    }
+  }
+
   updateActivityTime() {
     this.lastActivityTime = Date.now();
     
@@ -144,7 +208,7 @@ class NotificationService {
   }
 
   onActivityDetected(activity: string) {
-    if (activity !== 'idle' && activity !== 'sleeping') {
+    if (activity !== 'idle' && activity !== 'sleeping' && activity !== 'unknown') {
       this.updateActivityTime();
     }
   }
@@ -0,0 +1,170 @@
+import { Platform } from 'react-native';
+import { File, Paths } from 'expo-file-system';
+import { isActivityType } from '../constants/ActivityCatalog';
+import type { ActivityType, FeatureWindow } from './ActivityRecognitionService';
+import ClassifierRegistry from './ClassifierRegistry';
+import FeatureHistoryService from './FeatureHistoryService';
+import HealthDataService, { ActivityRecord } from './HealthDataService';
+import { PersonalExample, PersonalModel } from './ml/PersonalModel';
+
+export interface CorrectionResult {
+  session: ActivityRecord;
+  windowsLearned: number; // 0 when the session's sensor windows are no longer kept
+}
+
+export interface PersonalizationSummary {
+  total: number;
+  byActivity: { [activity: string]: number };
+}
+
+interface StoredExample extends PersonalExample {
+  sessionId: number; // the corrected session, so correcting it again replaces its examples
+}
+
+const STORAGE_FILE = 'personalization.json';
+const WEB_STORAGE_KEY = 'health_personalization';
+const MAX_EXAMPLES_PER_ACTIVITY = 200;
+// A long session is sampled evenly so one correction can't crowd out all the others
+const MAX_EXAMPLES_PER_CORRECTION = 60;
+
+const sampleEvenly = <T>(items: T[], count: number): T[] => {
+  if (items.length <= count) return items;
+  return Array.from({ length: count }, (_, i) => items[Math.floor((i * items.length) / count)]);
+};
+
+const isStoredExample = (value: any): value is StoredExample =>
+  typeof value === 'object' && value !== null &&
+  typeof value.activity === 'string' && isActivityType(value.activity) &&
+  Array.isArray(value.features) && value.features.every((feature: unknown) => typeof feature === 'number') &&
+  Number.isInteger(value.featureSetVersion) &&
+  Number.isInteger(value.sessionId);
+
+// Teaches the classifier from the user's corrections. When a session is relabelled, the feature
+// windows recorded during it become examples for the registry's personalized classifier. They are kept
+// in their own file on the device rather than in the settings table, so they never end up in a data
+// export, and reset() forgets all of them.
+class PersonalizationService {
+  private examples: StoredExample[] = [];
+  private loading: Promise<void> | null = null;
+
+  async initialize() {
+    this.loading ??= this.load();
+    await this.loading;
+  }
+
+  // Relabels the session and learns from its sensor windows
+  async correctActivity(session: ActivityRecord, activity: ActivityType): Promise<CorrectionResult> {
+    if (session.id === undefined) {
+      throw new Error('Only stored activities can be corrected');
+    }
+    await this.initialize();
+
+    const sessionId = session.id;
+    const updated = await HealthDataService.relabelActivity(sessionId, activity);
+    const windows = sampleEvenly(
+      await FeatureHistoryService.getWindows(session.timestamp, session.endTimestamp),
+      MAX_EXAMPLES_PER_CORRECTION
+    );
+
+    const addedAt = Date.now();
+    this.examples = this.examples
+      .filter(example => example.sessionId !== sessionId)
+      .concat(windows.map((window: FeatureWindow) => ({
+        activity,
+        features: window.features,
+        featureSetVersion: window.featureSetVersion,
+        addedAt,
+        sessionId,
+      })));
+    this.trimExamples();
+    await this.save();
+    this.applyToClassifier();
+
+    console.log(`Learned ${windows.length} ${activity} windows from a corrected session`);
+    return { session: updated, windowsLearned: windows.length };
+  }
+
+  async getSummary(): Promise<PersonalizationSummary> {
+    await this.initialize();
+
+    const byActivity: { [activity: string]: number } = {};
+    this.examples.forEach(example => {
+      byActivity[example.activity] = (byActivity[example.activity] ?? 0) + 1;
+    });
+    return { total: this.examples.length, byActivity };
+  }
+
+  // Forgets every correction; the classifier goes back to the bundled model alone
+  async reset() {
+    await this.initialize();
+
+    this.examples = [];
+    ClassifierRegistry.setPersonalModel(null);
+    if (Platform.OS === 'web') {
+      if (typeof localStorage !== 'undefined') {
+        localStorage.removeItem(WEB_STORAGE_KEY);
+      }
+    } else {
+      const file = new File(Paths.document, STORAGE_FILE);
+      if (file.exists) {
+        file.delete();
+      }
+    }
+    console.log('Personalization reset');
+  }
+
+  // Keeps the newest examples of each activity
+  private trimExamples() {
+    const kept = new Map<string, number>();
+    this.examples = this.examples
+      .sort((a, b) => b.addedAt - a.addedAt)
+      .filter(example => {
+        const count = kept.get(example.activity) ?? 0;
+        kept.set(example.activity, count + 1);
+        return count < MAX_EXAMPLES_PER_ACTIVITY;
+      });
+  }
+
+  private applyToClassifier() {
+    ClassifierRegistry.setPersonalModel(this.examples.length > 0 ? new PersonalModel(this.examples) : null);
+  }
+
+  private async load() {
+    try {
+      let content: string | null = null;
+      if (Platform.OS === 'web') {
+        content = typeof localStorage !== 'undefined' ? localStorage.getItem(WEB_STORAGE_KEY) : null;
+      } else {
+        const file = new File(Paths.document, STORAGE_FILE);
+        content = file.exists ? await file.text() : null;
+      }
+
+      const stored = content ? JSON.parse(content) : [];
+      this.examples = Array.isArray(stored) ? stored.filter(isStoredExample) : [];
+      this.applyToClassifier();
+      if (this.examples.length > 0) {
+        console.log(`Loaded ${this.examples.length} personal activity examples`);
+      }
+    } catch (error) {
+      console.error('Error loading personalization:', error);
+    }
+  }
+
+  private async save() {
+    const content = JSON.stringify(this.examples);
+    if (Platform.OS === 'web') {
+      if (typeof localStorage !== 'undefined') {
+        localStorage.setItem(WEB_STORAGE_KEY, content);
+      }
+      return;
+    }
+
+    const file = new File(Paths.document, STORAGE_FILE);
+    if (!file.exists) {
+      file.create();
+    }
+    file.write(content);
+  }
+}
+
+export default new PersonalizationService();
@@ -0,0 +1,156 @@
+import { RingBuffer } from '../utils/RingBuffer';
+
+// Accelerometer and gyroscope events arrive independently, at slightly different rates and with
+// jitter, so pairing "the latest of each" mixes readings taken at different moments. This buffer keeps
+// the raw samples of each stream with their sensor timestamps and resamples both onto one fixed time
+// grid, interpolating between the samples on either side of every grid point.
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface TimedVector extends Vector3 {
+  timestamp: number; // ms
+}
+
+// One point of the common grid. gyroscope is null when there is no gyroscope data for that moment
+// (no gyroscope on the device, or it hasn't reported yet) rather than a made-up zero reading.
+export interface SensorReading {
+  accelerometer: Vector3;
+  gyroscope: Vector3 | null;
+  timestamp: number; // ms
+}
+
+export interface SensorFusionOptions {
+  sampleInterval?: number; // grid spacing in ms
+  capacity?: number; // resampled readings kept
+  rawCapacity?: number; // raw samples kept per stream
+  maxLatency?: number; // ms the grid may wait for a lagging gyroscope before holding its last value
+  maxHold?: number; // ms a gyroscope value may be held past its last sample
+  maxGap?: number; // ms without accelerometer data after which the grid restarts instead of bridging
+}
+
+const DEFAULT_OPTIONS: Required<SensorFusionOptions> = {
+  sampleInterval: 100, // 10 Hz, the rate the sensors are polled at
+  capacity: 50,
+  rawCapacity: 64,
+  maxLatency: 300,
+  maxHold: 500,
+  maxGap: 1000,
+};
+
+const lerp = (a: TimedVector, b: TimedVector, timestamp: number): Vector3 => {
+  const span = b.timestamp - a.timestamp;
+  const t = span > 0 ? (timestamp - a.timestamp) / span : 0;
+  return {
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+    z: a.z + (b.z - a.z) * t,
+  };
+};
+
+const toVector = ({ x, y, z }: Vector3): Vector3 => ({ x, y, z });
+
+// Copies only the fields we need so sensor event objects aren't retained
+const toTimedVector = ({ x, y, z, timestamp }: TimedVector): TimedVector => ({ x, y, z, timestamp });
+
+export class SensorFusionBuffer {
+  private readonly options: Required<SensorFusionOptions>;
+  private accelerometer: RingBuffer<TimedVector>;
+  private gyroscope: RingBuffer<TimedVector>;
+  private readings: RingBuffer<SensorReading>;
+  private nextGridTime: number | null = null;
+
+  constructor(options: SensorFusionOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.accelerometer = new RingBuffer(this.options.rawCapacity);
+    this.gyroscope = new RingBuffer(this.options.rawCapacity);
+    this.readings = new RingBuffer(this.options.capacity);
+  }
+
+  get length(): number {
+    return this.readings.length;
+  }
+
+  addAccelerometer(sample: TimedVector) {
+    const previous = this.accelerometer.last();
+    if (previous && sample.timestamp <= previous.timestamp) return; // duplicate or out of order
+
+    if (!previous || sample.timestamp - previous.timestamp > this.options.maxGap) {
+      // First sample, or the stream paused (e.g. the app was in the background): start a new grid
+      // here rather than interpolating across the gap, and drop readings from before it so a window
+      // never spans the pause
+      if (previous) {
+        this.readings.clear();
+      }
+      this.nextGridTime = Math.ceil(sample.timestamp / this.options.sampleInterval) * this.options.sampleInterval;
+    }
+    this.accelerometer.push(toTimedVector(sample));
+    this.resample();
+  }
+
+  addGyroscope(sample: TimedVector) {
+    const previous = this.gyroscope.last();
+    if (previous && sample.timestamp <= previous.timestamp) return;
+
+    this.gyroscope.push(toTimedVector(sample));
+    this.resample();
+  }
+
+  // The newest `count` resampled readings (all by default), oldest first
+  getReadings(count?: number): SensorReading[] {
+    return this.readings.toArray(count);
+  }
+
+  clear() {
+    this.accelerometer.clear();
+    this.gyroscope.clear();
+    this.readings.clear();
+    this.nextGridTime = null;
+  }
+
+  // Emits every grid point the accelerometer has passed. A grid point waits for the gyroscope to
+  // pass it too, so both values can be interpolated, unless the gyroscope lags by more than maxLatency.
+  private resample() {
+    const latestAccelerometer = this.accelerometer.last();
+    if (!latestAccelerometer || this.nextGridTime === null) return;
+
+    let gridTime = this.nextGridTime;
+    while (gridTime <= latestAccelerometer.timestamp) {
+      const latestGyroscope = this.gyroscope.last();
+      const gyroscopeCaughtUp = !!latestGyroscope && latestGyroscope.timestamp >= gridTime;
+      if (!gyroscopeCaughtUp && latestAccelerometer.timestamp - gridTime < this.options.maxLatency) {
+        break;
+      }
+
+      const accelerometer = this.interpolate(this.accelerometer, gridTime);
+      if (accelerometer) {
+        this.readings.push({
+          accelerometer,
+          gyroscope: this.interpolate(this.gyroscope, gridTime, this.options.maxHold),
+          timestamp: gridTime,
+        });
+      }
+      gridTime += this.options.sampleInterval;
+    }
+    this.nextGridTime = gridTime;
+  }
+
+  // Value of the stream at `timestamp`: linear between the samples around it, or the last sample held
+  // for up to `maxHold` ms past the end of the stream. Never extrapolates before the first sample.
+  private interpolate(stream: RingBuffer<TimedVector>, timestamp: number, maxHold = Infinity): Vector3 | null {
+    for (let i = stream.length - 1; i >= 0; i--) {
+      const sample = stream.get(i) as TimedVector;
+      if (sample.timestamp > timestamp) continue;
+
+      const next = stream.get(i + 1);
+      if (next) {
+        return lerp(sample, next, timestamp);
+      }
+      return timestamp - sample.timestamp <= maxHold ? toVector(sample) : null;
+    }
+    return null;
+  }
+}
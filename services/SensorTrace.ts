@@ -0,0 +1,156 @@
+import type { ActivityType } from './ActivityRecognitionService';
+import type { TimedVector } from './SensorFusionBuffer';
+
+// A sensor trace is a recording of the raw sensor streams together with what the user was actually
+// doing, so a misclassification can be replayed through the recognition pipeline later. This module
+// has no React Native dependencies so traces can also be read by scripts outside the app.
+
+export const TRACE_FORMAT = 'context-aware-health-tracker-trace';
+export const TRACE_VERSION = 1;
+
+export type MotionSensor = 'accelerometer' | 'gyroscope';
+
+// `t` is milliseconds since the recording started
+export type TraceEvent =
+  | { type: MotionSensor; t: number; x: number; y: number; z: number }
+  | { type: 'pedometer'; t: number; steps: number } // steps counted since the previous pedometer event
+  | { type: 'label'; t: number; activity: ActivityType | null }; // ground truth from here on, null if unknown
+
+export interface SensorTrace {
+  format: typeof TRACE_FORMAT;
+  version: number;
+  startedAt: number; // epoch ms
+  duration: number; // ms
+  platform: string;
+  events: TraceEvent[]; // ordered by t
+}
+
+// A trace handed out one event at a time, for traces too long to keep in memory such as a simulated day
+export interface TraceStream {
+  duration: number; // ms
+  hasStepCounter: boolean; // whether pedometer events come
+  events: Iterator<TraceEvent>; // ordered by t
+}
+
+export const streamTrace = (trace: SensorTrace): TraceStream => ({
+  duration: trace.duration,
+  hasStepCounter: trace.events.some(event => event.type === 'pedometer'),
+  events: trace.events[Symbol.iterator](),
+});
+
+// Roughly two and a half hours of both motion sensors at 10Hz
+const MAX_TRACE_EVENTS = 200000;
+// Sensor noise is far above this, and it keeps trace files about half the size
+const VALUE_PRECISION = 10000;
+
+const round = (value: number) => Math.round(value * VALUE_PRECISION) / VALUE_PRECISION;
+
+export class SensorTraceRecorder {
+  private events: TraceEvent[] = [];
+  private truncated = false;
+
+  constructor(readonly startedAt: number, label: ActivityType | null, private platform: string) {
+    this.setLabel(label, startedAt);
+  }
+
+  get eventCount(): number {
+    return this.events.length;
+  }
+
+  get isTruncated(): boolean {
+    return this.truncated;
+  }
+
+  recordMotion(type: MotionSensor, { x, y, z, timestamp }: TimedVector) {
+    this.push({ type, t: this.toTraceTime(timestamp), x: round(x), y: round(y), z: round(z) });
+  }
+
+  recordSteps(steps: number, timestamp: number) {
+    this.push({ type: 'pedometer', t: this.toTraceTime(timestamp), steps });
+  }
+
+  setLabel(activity: ActivityType | null, timestamp: number) {
+    this.push({ type: 'label', t: this.toTraceTime(timestamp), activity });
+  }
+
+  finish(endedAt: number): SensorTrace {
+    // The two motion streams arrive interleaved with a little jitter; the sort is stable, so events
+    // with the same time keep their arrival order
+    const events = [...this.events].sort((a, b) => a.t - b.t);
+    return {
+      format: TRACE_FORMAT,
+      version: TRACE_VERSION,
+      startedAt: this.startedAt,
+      duration: Math.max(this.toTraceTime(endedAt), events.length > 0 ? events[events.length - 1].t : 0),
+      platform: this.platform,
+      events,
+    };
+  }
+
+  private toTraceTime(timestamp: number): number {
+    return Math.max(0, Math.round(timestamp - this.startedAt));
+  }
+
+  private push(event: TraceEvent) {
+    if (this.events.length >= MAX_TRACE_EVENTS) {
+      if (!this.truncated) {
+        console.warn(`Sensor trace reached ${MAX_TRACE_EVENTS} events, further samples are dropped`);
+        this.truncated = true;
+      }
+      return;
+    }
+    this.events.push(event);
+  }
+}
+
+// Ground truth label at every change, in order
+export const getTraceLabels = (trace: SensorTrace): { t: number; activity: ActivityType | null }[] =>
+  trace.events.flatMap(event => event.type === 'label' ? [{ t: event.t, activity: event.activity }] : []);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Checks an untrusted parsed file against the trace schema and returns it typed
+export const validateTrace = (value: any): SensorTrace => {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid sensor trace: ${message}`);
+  };
+
+  if (typeof value !== 'object' || value === null || value.format !== TRACE_FORMAT) {
+    fail('not a Health Tracker sensor trace');
+  }
+  if (!Number.isInteger(value.version) || value.version < 1 || value.version > TRACE_VERSION) {
+    fail(`unsupported version ${value.version}`);
+  }
+  if (!isFiniteNumber(value.startedAt) || !isFiniteNumber(value.duration) || value.duration < 0) {
+    fail('startedAt and duration must be numbers');
+  }
+  if (!Array.isArray(value.events)) {
+    fail('events must be a list');
+  }
+
+  let previousTime = 0;
+  value.events.forEach((event: any, index: number) => {
+    const at = `events[${index}]`;
+    if (typeof event !== 'object' || event === null || !isFiniteNumber(event.t) || event.t < previousTime) {
+      fail(`${at}.t must be a number not before the previous event`);
+    }
+    previousTime = event.t;
+
+    if (event.type === 'accelerometer' || event.type === 'gyroscope') {
+      if (!isFiniteNumber(event.x) || !isFiniteNumber(event.y) || !isFiniteNumber(event.z)) {
+        fail(`${at} must have numeric x, y and z`);
+      }
+    } else if (event.type === 'pedometer') {
+      if (!isFiniteNumber(event.steps) || event.steps < 0) fail(`${at}.steps must be a non-negative number`);
+    } else if (event.type === 'label') {
+      if (event.activity !== null && typeof event.activity !== 'string') fail(`${at}.activity must be a string or null`);
+    } else {
+      fail(`${at}.type "${event.type}" is not a known event type`);
+    }
+  });
+
+  return { ...value, platform: typeof value.platform === 'string' ? value.platform : 'unknown' };
+};
+
+export const parseTrace = (text: string): SensorTrace => validateTrace(JSON.parse(text));
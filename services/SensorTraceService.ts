@@ -0,0 +1,147 @@
+import { Platform } from 'react-native';
+import { Directory, File, Paths } from 'expo-file-system';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import { toLocalDateKey } from '../utils/dateUtils';
+import { downloadFile } from '../utils/download';
+import { getTraceLabels, parseTrace, SensorTrace } from './SensorTrace';
+import { parseScenario, Scenario } from './SimulationScenario';
+
+export interface TraceFileInfo {
+  name: string;
+  size: number; // bytes
+  modifiedAt: number | null; // epoch ms
+}
+
+const TRACE_DIRECTORY = 'sensor-traces';
+const MIME_TYPE = 'application/json';
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// e.g. trace-2024-05-01-083015-walking.json, named after the label the recording started with
+const getTraceFileName = (trace: SensorTrace): string => {
+  const started = new Date(trace.startedAt);
+  const time = `${pad(started.getHours())}${pad(started.getMinutes())}${pad(started.getSeconds())}`;
+  const label = getTraceLabels(trace)[0]?.activity ?? 'unlabeled';
+  return `trace-${toLocalDateKey(started)}-${time}-${label}.json`;
+};
+
+// Saved sensor traces. On native they are files in the app's document directory; the web build has
+// no file system, so traces are downloaded when saved and kept in memory for the session.
+class SensorTraceService {
+  private webTraces = new Map<string, { content: string; modifiedAt: number }>();
+
+  async saveTrace(trace: SensorTrace): Promise<TraceFileInfo> {
+    const name = getTraceFileName(trace);
+    const content = JSON.stringify(trace);
+
+    if (Platform.OS === 'web') {
+      this.webTraces.set(name, { content, modifiedAt: Date.now() });
+      downloadFile(name, MIME_TYPE, content);
+      return { name, size: content.length, modifiedAt: Date.now() };
+    }
+
+    const file = new File(this.getDirectory(), name);
+    if (file.exists) {
+      file.delete();
+    }
+    file.create();
+    file.write(content);
+    console.log(`Saved sensor trace ${name} with ${trace.events.length} events`);
+    return { name, size: file.size, modifiedAt: file.modificationTime };
+  }
+
+  // Newest first
+  async listTraces(): Promise<TraceFileInfo[]> {
+    let traces: TraceFileInfo[];
+    if (Platform.OS === 'web') {
+      traces = Array.from(this.webTraces.entries()).map(([name, { content, modifiedAt }]) => ({
+        name,
+        size: content.length,
+        modifiedAt,
+      }));
+    } else {
+      traces = this.getDirectory().list()
+        .filter((entry): entry is File => entry instanceof File && entry.name.endsWith('.json'))
+        .map(file => ({ name: file.name, size: file.size, modifiedAt: file.modificationTime }));
+    }
+    return traces.sort((a, b) => (b.modifiedAt ?? 0) - (a.modifiedAt ?? 0) || b.name.localeCompare(a.name));
+  }
+
+  async loadTrace(name: string): Promise<SensorTrace> {
+    return parseTrace(await this.readTrace(name));
+  }
+
+  async deleteTrace(name: string) {
+    if (Platform.OS === 'web') {
+      this.webTraces.delete(name);
+      return;
+    }
+
+    const file = new File(this.getDirectory(), name);
+    if (file.exists) {
+      file.delete();
+    }
+  }
+
+  // Sends a trace off the device, e.g. to attach it to a bug report
+  async shareTrace(name: string) {
+    if (Platform.OS === 'web') {
+      downloadFile(name, MIME_TYPE, await this.readTrace(name));
+      return;
+    }
+
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+    const file = new File(this.getDirectory(), name);
+    await Sharing.shareAsync(file.uri, { mimeType: MIME_TYPE, UTI: 'public.json', dialogTitle: `Share ${name}` });
+  }
+
+  // Opens a trace recorded on another device
+  async pickTraceFile(): Promise<SensorTrace | null> {
+    const text = await this.pickFile();
+    return text === null ? null : parseTrace(text);
+  }
+
+  // Opens a simulation scenario written by hand, see SimulationScenario
+  async pickScenarioFile(): Promise<Scenario | null> {
+    const text = await this.pickFile();
+    return text === null ? null : parseScenario(text);
+  }
+
+  private async pickFile(): Promise<string | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: [MIME_TYPE, 'application/octet-stream'],
+      copyToCacheDirectory: true,
+      multiple: false,
+    });
+    if (result.canceled || result.assets.length === 0) {
+      return null;
+    }
+
+    const asset = result.assets[0];
+    return asset.file ? asset.file.text() : new File(asset.uri).text();
+  }
+
+  private async readTrace(name: string): Promise<string> {
+    if (Platform.OS === 'web') {
+      const trace = this.webTraces.get(name);
+      if (!trace) {
+        throw new Error(`Sensor trace ${name} not found`);
+      }
+      return trace.content;
+    }
+    return new File(this.getDirectory(), name).text();
+  }
+
+  private getDirectory(): Directory {
+    const directory = new Directory(Paths.document, TRACE_DIRECTORY);
+    if (!directory.exists) {
+      directory.create({ intermediates: true });
+    }
+    return directory;
+  }
+}
+
+export default new SensorTraceService();
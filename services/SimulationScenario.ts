@@ -0,0 +1,192 @@
+import { SENSOR_ACTIVITIES } from '../constants/ActivityCatalog';
+import type { ActivityType } from './ActivityRecognitionService';
+import { createRandom, generateTraceEvents, getTraceDuration, TraceSegment } from './ml/syntheticTraces';
+import type { TraceStream } from './SensorTrace';
+
+// A scenario scripts simulated sensor data for demos and for testing the app end to end: a sequence
+// of activities with how long each lasts, how noisy the sensors are and how fast the user steps,
+// played faster than real time if wanted. The motion comes from syntheticTraces and goes through the
+// same pipeline as a replayed recording. Like SensorTrace, this module has no React Native
+// dependencies so scripts can run scenarios too.
+
+export const SCENARIO_FORMAT = 'context-aware-health-tracker-scenario';
+export const SCENARIO_VERSION = 1;
+
+export interface ScenarioStep {
+  activity: ActivityType; // one the motion sensors can tell apart
+  minutes: number;
+  stepRate?: number; // steps a minute, for walking and running
+  noise?: number; // in place of the scenario's noise for this step
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  description: string;
+  speed: number; // time acceleration, e.g. 60 plays an hour in a minute
+  noise: number; // sensor noise on top of the simulated motion, in g and rad/s
+  seed: number; // the same seed gives the same sensor data
+  steps: ScenarioStep[];
+}
+
+const DEFAULT_SEED = 1;
+const MAX_SPEED = 600;
+const MAX_NOISE = 1;
+const STEPPING_ACTIVITIES: ActivityType[] = ['walking', 'running'];
+
+export const BUILT_IN_SCENARIOS: Scenario[] = [
+  {
+    id: 'tour',
+    name: 'Activity Tour',
+    description: 'Half a minute each of walking, running, sitting, cycling and sleeping, in real time.',
+    speed: 1,
+    noise: 0,
+    seed: DEFAULT_SEED,
+    steps: [
+      { activity: 'walking', minutes: 0.5 },
+      { activity: 'running', minutes: 0.5 },
+      { activity: 'idle', minutes: 0.5 },
+      { activity: 'cycling', minutes: 0.5 },
+      { activity: 'sleeping', minutes: 0.5 },
+    ],
+  },
+  {
+    id: 'full-day',
+    name: 'A Full Day',
+    description: 'A night of sleep, a commute, a desk job, a lunchtime walk and an evening run, in six minutes.',
+    speed: 240,
+    noise: 0,
+    seed: DEFAULT_SEED,
+    steps: [
+      { activity: 'sleeping', minutes: 420 },
+      { activity: 'idle', minutes: 40 },
+      { activity: 'walking', minutes: 10, stepRate: 105 },
+      { activity: 'driving', minutes: 30 },
+      { activity: 'idle', minutes: 210 },
+      { activity: 'walking', minutes: 25, stepRate: 115 },
+      { activity: 'idle', minutes: 215 },
+      { activity: 'driving', minutes: 30 },
+      { activity: 'walking', minutes: 10, stepRate: 105 },
+      { activity: 'idle', minutes: 60 },
+      { activity: 'running', minutes: 35, stepRate: 165 },
+      { activity: 'idle', minutes: 110 },
+      { activity: 'cycling', minutes: 20 },
+      { activity: 'idle', minutes: 225 },
+    ],
+  },
+  {
+    id: 'night',
+    name: 'A Night of Sleep',
+    description: 'Eight hours of sleep with a short time awake in the middle of the night, in two minutes.',
+    speed: 240,
+    noise: 0,
+    seed: DEFAULT_SEED,
+    steps: [
+      { activity: 'idle', minutes: 20 },
+      { activity: 'sleeping', minutes: 200 },
+      { activity: 'idle', minutes: 10 },
+      { activity: 'sleeping', minutes: 250 },
+    ],
+  },
+  {
+    id: 'noisy-commute',
+    name: 'Noisy Commute',
+    description: 'Walking and a bumpy drive with a loose phone, to see how recognition copes with noise.',
+    speed: 10,
+    noise: 0.08,
+    seed: DEFAULT_SEED,
+    steps: [
+      { activity: 'walking', minutes: 8, stepRate: 100 },
+      { activity: 'driving', minutes: 25, noise: 0.15 },
+      { activity: 'walking', minutes: 5, stepRate: 110 },
+      { activity: 'idle', minutes: 5 },
+    ],
+  },
+];
+
+export const getScenarioSegments = (scenario: Scenario): TraceSegment[] =>
+  scenario.steps.map(step => ({
+    activity: step.activity,
+    duration: Math.round(step.minutes * 60000),
+    stepRate: step.stepRate,
+    noise: step.noise ?? scenario.noise,
+  }));
+
+// ms of simulated time
+export const getScenarioDuration = (scenario: Scenario): number =>
+  getTraceDuration(getScenarioSegments(scenario));
+
+// The scenario's sensor data, generated as it is replayed
+export const streamScenario = (scenario: Scenario): TraceStream => {
+  const segments = getScenarioSegments(scenario);
+  return {
+    duration: getTraceDuration(segments),
+    hasStepCounter: false,
+    events: generateTraceEvents(segments, createRandom(scenario.seed)),
+  };
+};
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Checks an untrusted parsed scenario file and returns it typed, with defaults filled in. Files
+// carry the format and version like traces do; id, description, noise and seed are optional.
+export const validateScenario = (value: any): Scenario => {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid scenario: ${message}`);
+  };
+
+  if (typeof value !== 'object' || value === null || value.format !== SCENARIO_FORMAT) {
+    fail('not a Health Tracker scenario');
+  }
+  if (!Number.isInteger(value.version) || value.version < 1 || value.version > SCENARIO_VERSION) {
+    fail(`unsupported version ${value.version}`);
+  }
+  if (typeof value.name !== 'string' || value.name.trim() === '') {
+    fail('name must be a non-empty string');
+  }
+  if (!isFiniteNumber(value.speed) || value.speed <= 0 || value.speed > MAX_SPEED) {
+    fail(`speed must be a number above 0 and at most ${MAX_SPEED}`);
+  }
+  if (value.noise !== undefined && (!isFiniteNumber(value.noise) || value.noise < 0 || value.noise > MAX_NOISE)) {
+    fail(`noise must be a number from 0 to ${MAX_NOISE}`);
+  }
+  if (value.seed !== undefined && (!Number.isInteger(value.seed) || value.seed < 1 || value.seed >= 2147483647)) {
+    fail('seed must be a positive integer below 2147483647');
+  }
+  if (!Array.isArray(value.steps) || value.steps.length === 0) {
+    fail('steps must be a non-empty list');
+  }
+
+  const steps: ScenarioStep[] = value.steps.map((step: any, index: number) => {
+    const at = `steps[${index}]`;
+    if (typeof step !== 'object' || step === null || !SENSOR_ACTIVITIES.includes(step.activity)) {
+      fail(`${at}.activity must be one of ${SENSOR_ACTIVITIES.join(', ')}`);
+    }
+    if (!isFiniteNumber(step.minutes) || step.minutes <= 0) {
+      fail(`${at}.minutes must be a positive number`);
+    }
+    if (step.stepRate !== undefined) {
+      if (!STEPPING_ACTIVITIES.includes(step.activity)) fail(`${at}.stepRate only applies to walking and running`);
+      if (!isFiniteNumber(step.stepRate) || step.stepRate < 30 || step.stepRate > 240) {
+        fail(`${at}.stepRate must be from 30 to 240 steps a minute`);
+      }
+    }
+    if (step.noise !== undefined && (!isFiniteNumber(step.noise) || step.noise < 0 || step.noise > MAX_NOISE)) {
+      fail(`${at}.noise must be a number from 0 to ${MAX_NOISE}`);
+    }
+    return { activity: step.activity, minutes: step.minutes, stepRate: step.stepRate, noise: step.noise };
+  });
+
+  return {
+    id: typeof value.id === 'string' ? value.id : value.name,
+    name: value.name,
+    description: typeof value.description === 'string' ? value.description : '',
+    speed: value.speed,
+    noise: value.noise ?? 0,
+    seed: value.seed ?? DEFAULT_SEED,
+    steps,
+  };
+};
+
+export const parseScenario = (text: string): Scenario => validateScenario(JSON.parse(text));
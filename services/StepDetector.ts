@@ -0,0 +1,71 @@
+// Counts steps from raw accelerometer samples (in g) for devices without a hardware step counter.
+// Each step shows up as a peak in acceleration magnitude above the slowly changing gravity baseline.
+// Steps are only reported once several arrive in a steady rhythm, so picking the phone up or
+// bumping it doesn't count.
+
+const SMOOTHING = 0.3; // low-pass on the magnitude to drop sensor noise
+const BASELINE_SMOOTHING = 0.02; // much slower low-pass that tracks gravity
+const PEAK_THRESHOLD = 0.12; // g above baseline that counts as a step
+const RESET_THRESHOLD = 0.03; // signal must fall back below this before the next step
+const MIN_STEP_INTERVAL = 250; // ms, i.e. at most 4 steps per second
+const MAX_STEP_INTERVAL = 2000; // ms, a longer gap ends the walking streak
+const STEPS_TO_CONFIRM = 4;
+
+export class StepDetector {
+  private smoothed: number | null = null;
+  private baseline: number | null = null;
+  private armed = true;
+  private lastStepTime = 0;
+  private pendingSteps = 0;
+  private confirmed = false;
+
+  // Feeds one sample and returns how many steps it confirmed (usually 0 or 1)
+  addSample(x: number, y: number, z: number, timestamp: number): number {
+    const magnitude = Math.sqrt(x * x + y * y + z * z);
+    this.smoothed = this.smoothed === null ? magnitude : this.smoothed + SMOOTHING * (magnitude - this.smoothed);
+    this.baseline = this.baseline === null ? magnitude : this.baseline + BASELINE_SMOOTHING * (magnitude - this.baseline);
+    const signal = this.smoothed - this.baseline;
+
+    if (!this.armed) {
+      if (signal < RESET_THRESHOLD) {
+        this.armed = true;
+      }
+      return 0;
+    }
+    if (signal < PEAK_THRESHOLD || timestamp - this.lastStepTime < MIN_STEP_INTERVAL) {
+      return 0;
+    }
+
+    this.armed = false;
+    const interval = timestamp - this.lastStepTime;
+    this.lastStepTime = timestamp;
+
+    if (interval > MAX_STEP_INTERVAL) {
+      // Start a new streak; nothing is counted until it proves to be walking
+      this.confirmed = false;
+      this.pendingSteps = 1;
+      return 0;
+    }
+    if (this.confirmed) {
+      return 1;
+    }
+
+    this.pendingSteps++;
+    if (this.pendingSteps >= STEPS_TO_CONFIRM) {
+      this.confirmed = true;
+      const steps = this.pendingSteps;
+      this.pendingSteps = 0;
+      return steps;
+    }
+    return 0;
+  }
+
+  reset() {
+    this.smoothed = null;
+    this.baseline = null;
+    this.armed = true;
+    this.lastStepTime = 0;
+    this.pendingSteps = 0;
+    this.confirmed = false;
+  }
+}
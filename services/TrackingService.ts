@@ -0,0 +1,354 @@
+import { AppState, AppStateStatus, NativeEventSubscription, Platform } from 'react-native';
+import { Pedometer } from 'expo-sensors';
+import * as BackgroundTask from 'expo-background-task';
+import * as TaskManager from 'expo-task-manager';
+import BackgroundService from 'react-native-background-actions';
+import { splitByLocalDay } from '../utils/dateUtils';
+import ActivityRecognitionService, {
+  ActivityEventSource,
+  ActivitySession,
+  SessionEventType,
+} from './ActivityRecognitionService';
+import { DEFAULT_POWER_PROFILE, isPowerProfile, POWER_PROFILE_SETTING } from './AdaptiveSampler';
+import ClassifierComparisonService from './ClassifierComparisonService';
+import FallDetectionService from './FallDetectionService';
+import HealthDataService from './HealthDataService';
+import type { MeasuredStepSource } from './storage/StorageAdapter';
+import PersonalizationService from './PersonalizationService';
+
+// Owns activity tracking for the whole app rather than for one screen: it starts the services,
+// persists sessions and steps as they come in, and remembers whether tracking is on so it resumes
+// after a restart. On Android tracking goes on in the background inside a foreground service, shown
+// as an ongoing notification. iOS gives apps no such service, and the motion sensors don't report
+// while the app is in the background, so tracking pauses there and picks up again on return; the
+// same happens on Android if the service can't start. Steps taken while paused aren't lost: on
+// Android the step counter's subscription reports them on return, and on iOS they are read from the
+// step counter's history, on return and every so often from a background task.
+
+interface TrackingState {
+  enabled: boolean;
+  stepsCountedUntil: number | null; // epoch ms up to which the step counter's steps are recorded
+}
+
+export type TrackingCallback = (isTracking: boolean) => void;
+
+const TRACKING_SETTING = 'tracking';
+const BACKGROUND_TASK = 'activity-tracking-catch-up';
+const BACKGROUND_TASK_INTERVAL = 15; // minutes, the shortest the system allows
+const FOREGROUND_SERVICE_TASK = 'activity-tracking';
+const FOREGROUND_SERVICE_CHECK_INTERVAL = 60 * 1000; // ms
+// Only iOS can read the step count of a past time range, for up to the last seven days
+const HAS_STEP_HISTORY = Platform.OS === 'ios';
+const MAX_STEP_HISTORY = 7 * 24 * 60 * 60 * 1000; // ms
+
+const DEFAULT_STATE: TrackingState = { enabled: false, stepsCountedUntil: null };
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Runs for as long as the foreground service does. It has nothing to do itself: the service only
+// keeps the app's JavaScript, and with it the sensors and classification, running in the background.
+const runForegroundService = async () => {
+  while (BackgroundService.isRunning()) {
+    await delay(FOREGROUND_SERVICE_CHECK_INTERVAL);
+  }
+};
+
+class TrackingService {
+  private state: TrackingState = DEFAULT_STATE;
+  private stateLoading: Promise<void> | null = null;
+  private loading: Promise<void> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  // Whether the sensors have been started and not paused since. Until then the step counter's
+  // subscription misses steps, so they are caught up from its history.
+  private sensorsRunning = false;
+  // Writes are chained so a session always ends before the next one starts
+  private queue: Promise<void> = Promise.resolve();
+  private trackingCallbacks: TrackingCallback[] = [];
+  private dataCallbacks: (() => void)[] = [];
+
+  // Starts the services, and tracking if it was on when the app last ran
+  async initialize() {
+    this.loading ??= this.load();
+    await this.loading;
+  }
+
+  isTracking(): boolean {
+    return this.state.enabled;
+  }
+
+  async setTracking(enabled: boolean) {
+    await this.initialize();
+    if (enabled === this.state.enabled) return;
+
+    if (enabled) {
+      // Steps from before tracking was switched on aren't caught up
+      await this.saveState({ enabled: true, stepsCountedUntil: Date.now() });
+      ActivityRecognitionService.startTracking();
+      this.sensorsRunning = true;
+      await this.startForegroundService();
+      await this.registerBackgroundTask();
+    } else {
+      ActivityRecognitionService.stopTracking();
+      this.sensorsRunning = false;
+      await this.saveState({ enabled: false, stepsCountedUntil: null });
+      await this.stopForegroundService();
+      await this.unregisterBackgroundTask();
+    }
+    this.trackingCallbacks.forEach(callback => callback(enabled));
+  }
+
+  subscribeTracking(callback: TrackingCallback): () => void {
+    this.trackingCallbacks.push(callback);
+
+    // Return unsubscribe function
+    return () => {
+      const index = this.trackingCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.trackingCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  // Called whenever tracking has saved a finished session or new steps, e.g. to refresh today's stats
+  subscribeDataChanges(callback: () => void): () => void {
+    this.dataCallbacks.push(callback);
+
+    // Return unsubscribe function
+    return () => {
+      const index = this.dataCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.dataCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  // Run by the system now and then while the app is in the background, possibly in a fresh launch
+  // without any screen. Only storage is needed, not the sensors or the classifiers.
+  async runBackgroundTask(): Promise<boolean> {
+    try {
+      await this.loadState();
+      if (this.state.enabled && AppState.currentState !== 'active') {
+        await this.enqueue(() => this.catchUpSteps());
+      }
+      return true;
+    } catch (error) {
+      console.error('Error running background tracking task:', error);
+      return false;
+    }
+  }
+
+  private async load() {
+    try {
+      await ActivityRecognitionService.initialize();
+      await this.loadState();
+      await PersonalizationService.initialize();
+      await ClassifierComparisonService.initialize();
+      await FallDetectionService.initialize();
+
+      const powerProfile = await HealthDataService.getSetting<string>(POWER_PROFILE_SETTING, DEFAULT_POWER_PROFILE);
+      ActivityRecognitionService.setPowerProfile(isPowerProfile(powerProfile) ? powerProfile : DEFAULT_POWER_PROFILE);
+
+      ActivityRecognitionService.subscribeSessions(this.handleSession);
+      ActivityRecognitionService.subscribeSteps(this.handleSteps);
+      this.appStateSubscription?.remove();
+      this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+
+      if (this.state.enabled) {
+        console.log('Resuming tracking from the last run');
+        await this.registerBackgroundTask();
+        if (AppState.currentState === 'active') {
+          await this.startOrResume();
+        }
+      }
+    } catch (error) {
+      console.error('Error initializing TrackingService:', error);
+    }
+  }
+
+  private async loadState() {
+    this.stateLoading ??= (async () => {
+      await HealthDataService.initialize();
+      const stored = await HealthDataService.getSetting<Partial<TrackingState>>(TRACKING_SETTING, {});
+      this.state = { ...DEFAULT_STATE, ...stored };
+    })();
+    await this.stateLoading;
+  }
+
+  private async saveState(update: Partial<TrackingState>) {
+    this.state = { ...this.state, ...update };
+    await HealthDataService.setSetting(TRACKING_SETTING, this.state);
+  }
+
+  private handleAppStateChange = (appState: AppStateStatus) => {
+    if (!this.state.enabled) return;
+
+    if (appState === 'background') {
+      if (BackgroundService.isRunning()) return;
+
+      // On iOS the step history fills the time away, so the subscription mustn't count it as well
+      ActivityRecognitionService.pauseTracking({ stopPedometer: HAS_STEP_HISTORY });
+      this.sensorsRunning = false;
+      if (HAS_STEP_HISTORY) {
+        this.enqueue(() => this.saveState({ stepsCountedUntil: Date.now() }));
+      }
+    } else if (appState === 'active') {
+      this.startOrResume().catch(error => console.error('Error resuming tracking:', error));
+    }
+  };
+
+  // Catches up on the steps taken while away, then starts the sensors: from scratch after a
+  // restart, or where they were paused when the app went to the background. Coming back from
+  // something that didn't pause them, like the notification shade, there is nothing to catch up:
+  // the running subscription still reports those steps.
+  private async startOrResume() {
+    const wasRunning = this.sensorsRunning;
+    this.sensorsRunning = true;
+    if (!wasRunning) {
+      await this.enqueue(() => this.catchUpSteps());
+    }
+    ActivityRecognitionService.startTracking();
+    ActivityRecognitionService.resumeTracking();
+    await this.startForegroundService();
+  }
+
+  // Android only, and only from the foreground: Android 12 and later refuse to start the service
+  // from the background. Its health type needs the physical activity permission granted first.
+  private async startForegroundService() {
+    if (Platform.OS !== 'android' || BackgroundService.isRunning()) return;
+
+    try {
+      const { granted } = await Pedometer.requestPermissionsAsync();
+      if (!granted) {
+        console.warn('Physical activity permission denied, tracking will pause in the background');
+        return;
+      }
+      await BackgroundService.start(runForegroundService, {
+        taskName: FOREGROUND_SERVICE_TASK,
+        taskTitle: 'Tracking your activity',
+        taskDesc: 'Activities and steps are recorded while the app is closed.',
+        taskIcon: { name: 'ic_launcher', type: 'mipmap' },
+        linkingURI: 'natively://',
+        foregroundServiceType: ['health'],
+      });
+      console.log('Started the tracking foreground service');
+    } catch (error) {
+      console.error('Error starting the tracking foreground service, tracking will pause in the background:', error);
+    }
+  }
+
+  private async stopForegroundService() {
+    if (!BackgroundService.isRunning()) return;
+
+    try {
+      await BackgroundService.stop();
+    } catch (error) {
+      console.error('Error stopping the tracking foreground service:', error);
+    }
+  }
+
+  // Records the steps taken since stepsCountedUntil from the step counter's history, split at local
+  // midnight so each day gets its own steps
+  private async catchUpSteps(until: number = Date.now()) {
+    if (!HAS_STEP_HISTORY || this.state.stepsCountedUntil === null) return;
+
+    const from = Math.max(this.state.stepsCountedUntil, until - MAX_STEP_HISTORY);
+    if (until <= from || !(await Pedometer.isAvailableAsync())) return;
+
+    let total = 0;
+    for (const segment of splitByLocalDay(from, until)) {
+      const { steps } = await Pedometer.getStepCountAsync(new Date(segment.start), new Date(segment.end));
+      await HealthDataService.recordSteps(steps, 'pedometer', segment.start);
+      total += steps;
+    }
+    await this.saveState({ stepsCountedUntil: until });
+
+    console.log(`Caught up on ${total} steps from the step counter's history`);
+    if (total > 0) {
+      this.notifyDataChanged();
+    }
+  }
+
+  // Replayed traces and demo scenarios show what recognition makes of them, but aren't history
+  private handleSession = (type: SessionEventType, session: ActivitySession) => {
+    if (session.source === 'replay') return;
+
+    this.enqueue(async () => {
+      if (type === 'start') {
+        await HealthDataService.startSession(session.activity, session.startTime);
+      } else if (type === 'extend') {
+        await HealthDataService.extendSession(session.endTime);
+      } else {
+        await HealthDataService.endSession(session.endTime);
+        this.notifyDataChanged();
+      }
+    });
+  };
+
+  // Measured steps take over from the per-minute estimate for the day
+  private handleSteps = (
+    steps: number,
+    source: MeasuredStepSource,
+    timestamp: number,
+    eventSource: ActivityEventSource
+  ) => {
+    if (eventSource === 'replay') return;
+
+    this.enqueue(async () => {
+      await HealthDataService.recordSteps(steps, source, timestamp);
+      if (source === 'pedometer' && HAS_STEP_HISTORY) {
+        await this.saveState({ stepsCountedUntil: timestamp });
+      }
+      this.notifyDataChanged();
+    });
+  };
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.queue = this.queue
+      .then(task)
+      .catch(error => console.error('Error saving tracking data:', error));
+    return this.queue;
+  }
+
+  private notifyDataChanged() {
+    this.dataCallbacks.forEach(callback => callback());
+  }
+
+  // The background task only has work to do where the step history can be read
+  private async registerBackgroundTask() {
+    if (!HAS_STEP_HISTORY) return;
+
+    try {
+      const status = await BackgroundTask.getStatusAsync();
+      if (status === BackgroundTask.BackgroundTaskStatus.Restricted) {
+        console.warn('Background tasks are restricted on this device');
+        return;
+      }
+      await BackgroundTask.registerTaskAsync(BACKGROUND_TASK, { minimumInterval: BACKGROUND_TASK_INTERVAL });
+    } catch (error) {
+      console.error('Error registering background task:', error);
+    }
+  }
+
+  private async unregisterBackgroundTask() {
+    if (!HAS_STEP_HISTORY) return;
+
+    try {
+      if (await TaskManager.isTaskRegisteredAsync(BACKGROUND_TASK)) {
+        await BackgroundTask.unregisterTaskAsync(BACKGROUND_TASK);
+      }
+    } catch (error) {
+      console.error('Error unregistering background task:', error);
+    }
+  }
+}
+
+const trackingService = new TrackingService();
+
+// Defined as soon as the module loads, as the system may launch the app in the background just to
+// run the task
+TaskManager.defineTask(BACKGROUND_TASK, async () => {
+  const succeeded = await trackingService.runBackgroundTask();
+  return succeeded ? BackgroundTask.BackgroundTaskResult.Success : BackgroundTask.BackgroundTaskResult.Failed;
+});
+
+export default trackingService;
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { ActivityType } from '../ActivityRecognitionService';
+import { ActivitySmoother, SmoothingOptions } from '../ActivitySmoother';
+
+const ACTIVITIES: ActivityType[] = ['walking', 'running', 'idle', 'driving'];
+
+// A window's calibrated probabilities with `leader` at `probability` and the rest shared evenly
+const window = (leader: ActivityType | null, probability = 0.85) => {
+  const probabilities: { [activity: string]: number } = {};
+  ACTIVITIES.forEach(activity => {
+    probabilities[activity] = leader === null
+      ? 1 / ACTIVITIES.length
+      : activity === leader ? probability : (1 - probability) / (ACTIVITIES.length - 1);
+  });
+  return probabilities;
+};
+
+const report = (windows: { [activity: string]: number }[], options: Partial<SmoothingOptions> = {}) => {
+  const smoother = new ActivitySmoother(options, 'walking');
+  return windows.map(probabilities => smoother.update(probabilities).activity);
+};
+
+const repeat = <T>(count: number, value: T): T[] => Array.from({ length: count }, () => value);
+
+describe('ActivitySmoother', () => {
+  it('keeps the activity through a single odd window', () => {
+    const reports = report([...repeat(5, window('walking')), window('running', 0.95), ...repeat(5, window('walking'))]);
+
+    assert.deepEqual(reports, repeat(11, 'walking'));
+  });
+
+  it('changes activity once the new one has led for the minimum dwell', () => {
+    const windows = [...repeat(3, window('walking')), ...repeat(10, window('running', 0.9))];
+    const firstRunning = (minDwellWindows: number) => report(windows, { minDwellWindows }).indexOf('running');
+
+    assert.ok(firstRunning(1) >= 3);
+    assert.equal(firstRunning(2), firstRunning(1) + 1);
+    assert.equal(firstRunning(4), firstRunning(1) + 3);
+    assert.deepEqual(report(windows).slice(firstRunning(2)), repeat(windows.length - firstRunning(2), 'running'));
+  });
+
+  it('gives up on the activity for unknown when no activity stands out', () => {
+    const reports = report([...repeat(3, window('walking')), ...repeat(10, window(null))]);
+
+    assert.equal(reports[3], 'walking');
+    assert.equal(reports[reports.length - 1], 'unknown');
+  });
+
+  it('starts over from the given activity on reset', () => {
+    const smoother = new ActivitySmoother({}, 'walking');
+    repeat(10, window('driving', 0.95)).forEach(probabilities => smoother.update(probabilities));
+    assert.equal(smoother.update(window('driving', 0.95)).activity, 'driving');
+
+    smoother.reset();
+    assert.equal(smoother.update(window('driving', 0.95)).activity, 'walking');
+  });
+});
@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AdaptiveSampler, POWER_PROFILES } from '../AdaptiveSampler';
+
+const MINUTE = 60000;
+const STILL = { x: 0, y: 0, z: 1 };
+
+describe('AdaptiveSampler', () => {
+  it('rests after the profile\'s still time and wakes on a jolt', () => {
+    const sampler = new AdaptiveSampler('balanced');
+    sampler.update('idle', 0);
+    assert.equal(sampler.update('idle', 4 * MINUTE), false);
+    assert.equal(sampler.update('idle', 5 * MINUTE), true);
+    assert.deepEqual(sampler.getRates(), POWER_PROFILES.balanced.resting);
+
+    sampler.addAccelerometer(STILL);
+    assert.equal(sampler.addAccelerometer({ x: 0.3, y: 0, z: 1 }), true);
+    assert.equal(sampler.getMode(), 'active');
+  });
+
+  it('keeps the accelerometer at full rate at rest while fall detection is on', () => {
+    const sampler = new AdaptiveSampler('battery-saver');
+    sampler.setFallDetection(true);
+    sampler.update('sleeping', 0);
+    sampler.update('sleeping', 10 * MINUTE);
+
+    const { active, resting } = POWER_PROFILES['battery-saver'];
+    assert.equal(sampler.getMode(), 'resting');
+    assert.deepEqual(sampler.getRates(), { ...resting, sampleInterval: active.sampleInterval });
+
+    sampler.setFallDetection(false);
+    assert.deepEqual(sampler.getRates(), resting);
+  });
+});
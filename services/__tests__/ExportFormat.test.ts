@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createZip } from '../../utils/zip';
+import { EXPORT_FORMAT, EXPORT_VERSION, ImportValidationError, parseExportFile, validateExport } from '../ExportFormat';
+import { DEFAULT_GOALS } from '../HealthDataService';
+
+const EXPORT = {
+  format: EXPORT_FORMAT,
+  version: EXPORT_VERSION,
+  exportedAt: '2024-05-02T08:00:00.000Z',
+  appVersion: '1.0.0',
+  range: { from: null, to: null },
+  activities: [{
+    activity: 'walking',
+    timestamp: new Date(2024, 4, 1, 9).getTime(),
+    endTimestamp: new Date(2024, 4, 1, 9, 30).getTime(),
+    duration: 30,
+    date: '2024-05-01',
+    utcOffset: 120,
+    isOpen: false,
+  }],
+  dailyStats: [{ date: '2024-05-01', steps: 3000, calories: 120, activeMinutes: 30, sleepHours: 0, stepSource: 'pedometer' }],
+  goals: { steps: 8000 },
+  settings: {},
+};
+
+const getIssues = (value: unknown): string[] => {
+  try {
+    validateExport(value);
+  } catch (error) {
+    if (error instanceof ImportValidationError) return error.issues;
+    throw error;
+  }
+  assert.fail('the export was accepted');
+};
+
+describe('validateExport', () => {
+  it('accepts an export and fills in what older versions left out', () => {
+    const { stepSource, ...day } = EXPORT.dailyStats[0];
+    const { settings, ...version1 } = { ...EXPORT, version: 1, dailyStats: [day] };
+
+    const data = validateExport(version1);
+    assert.equal(data.dailyStats[0].stepSource, null);
+    assert.deepEqual(data.goals, { ...DEFAULT_GOALS, steps: 8000 });
+    assert.deepEqual(data.settings, {});
+  });
+
+  it('refuses files that are not exports', () => {
+    assert.deepEqual(getIssues([]), ['file does not contain a JSON object']);
+    assert.deepEqual(getIssues({ ...EXPORT, format: 'other' }), ['file is not a Health Tracker export']);
+  });
+
+  it('names every field that is wrong', () => {
+    const issues = getIssues({
+      ...EXPORT,
+      version: EXPORT_VERSION + 1,
+      activities: [{ ...EXPORT.activities[0], endTimestamp: 0, date: '1 May' }],
+      dailyStats: [{ ...EXPORT.dailyStats[0], stepSource: 'watch' }],
+      goals: { steps: -1 },
+    });
+
+    assert.deepEqual(issues, [
+      `export version ${EXPORT_VERSION + 1} is newer than this app supports (${EXPORT_VERSION})`,
+      'activities[0].endTimestamp must be a number not before timestamp',
+      'activities[0].date must be a YYYY-MM-DD date',
+      'dailyStats[0].stepSource must be one of pedometer, accelerometer, estimate',
+      'goals.steps must be a positive number',
+    ]);
+  });
+});
+
+describe('parseExportFile', () => {
+  it('reads the JSON document and the ZIP bundle alike', () => {
+    const json = JSON.stringify(EXPORT);
+    const zip = createZip([{ name: 'activities.csv', content: 'date\n' }, { name: 'health-data.json', content: json }]);
+
+    assert.deepEqual(parseExportFile(zip), parseExportFile(new TextEncoder().encode(json)));
+    assert.equal(parseExportFile(zip).activities.length, 1);
+  });
+
+  it('refuses a file that is not JSON', () => {
+    assert.throws(() => parseExportFile(new TextEncoder().encode('date,steps')), ImportValidationError);
+  });
+});
@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FallDetector, FallEvent, FallSensitivity } from '../FallDetector';
+
+// Feeds samples every 100 ms, as the accelerometer delivers them while fall detection is on. Each
+// segment is a magnitude in g held for a number of ms.
+const SAMPLE_INTERVAL = 100;
+
+const feed = (detector: FallDetector, segments: [number, number][], start = 0): FallEvent[] => {
+  const events: FallEvent[] = [];
+  let timestamp = start;
+  for (const [magnitude, duration] of segments) {
+    for (let elapsed = 0; elapsed < duration; elapsed += SAMPLE_INTERVAL, timestamp += SAMPLE_INTERVAL) {
+      const event = detector.addSample(0, 0, magnitude, timestamp);
+      if (event) events.push(event);
+    }
+  }
+  return events;
+};
+
+const STANDING: [number, number] = [1, 1000];
+const LYING_STILL: [number, number] = [1, 3000];
+
+describe('FallDetector', () => {
+  it('reports a free fall followed by an impact and stillness as a fall', () => {
+    const events = feed(new FallDetector('medium'), [STANDING, [0.2, 400], [3.5, 100], [1.5, 900], LYING_STILL]);
+
+    assert.deepEqual(events, [{ kind: 'fall', timestamp: 1400, peakAcceleration: 3.5, freeFallDuration: 400 }]);
+  });
+
+  it('reports a hard impact followed by stillness as an impact', () => {
+    const events = feed(new FallDetector('medium'), [STANDING, [5, 100], [1.3, 900], LYING_STILL]);
+
+    assert.deepEqual(events, [{ kind: 'impact', timestamp: 1000, peakAcceleration: 5, freeFallDuration: 0 }]);
+  });
+
+  it('ignores running strides', () => {
+    const stride: [number, number][] = [[0.2, 100], [3, 100], [1.6, 100], [0.9, 100]];
+    const running = Array.from({ length: 30 }, () => stride).flat();
+
+    assert.deepEqual(feed(new FallDetector('medium'), [STANDING, ...running, LYING_STILL]), []);
+  });
+
+  it('ignores a stumble that is followed by movement', () => {
+    const stumble: [number, number][] = [[0.2, 300], [4.5, 100], [1.3, 900], [1.5, 500], [0.7, 500]];
+
+    assert.deepEqual(feed(new FallDetector('medium'), [STANDING, ...stumble, LYING_STILL]), []);
+  });
+
+  it('starts over after a gap in the samples', () => {
+    const detector = new FallDetector('medium');
+    assert.deepEqual(feed(detector, [STANDING, [0.2, 400]]), []);
+
+    // The impact would have completed the fall, had it not come more than a second after the last sample
+    assert.deepEqual(feed(detector, [[3.5, 100], LYING_STILL], 2500), []);
+  });
+
+  it('needs a longer free fall and harder impacts at lower sensitivity', () => {
+    const expected: { [sensitivity in FallSensitivity]: { fall: string[]; impact: string[] } } = {
+      low: { fall: [], impact: [] },
+      medium: { fall: ['fall'], impact: [] },
+      high: { fall: ['fall'], impact: ['impact'] },
+    };
+
+    for (const [sensitivity, kinds] of Object.entries(expected) as [FallSensitivity, { fall: string[]; impact: string[] }][]) {
+      const detector = new FallDetector(sensitivity);
+      const fall = feed(detector, [STANDING, [0.3, 200], [2.8, 100], [1.3, 900], LYING_STILL]);
+      assert.deepEqual(fall.map(event => event.kind), kinds.fall, `${sensitivity} sensitivity, fall`);
+
+      detector.reset();
+      const impact = feed(detector, [STANDING, [3.5, 100], [1.3, 900], LYING_STILL]);
+      assert.deepEqual(impact.map(event => event.kind), kinds.impact, `${sensitivity} sensitivity, impact`);
+    }
+  });
+
+  it('starts over when the sensitivity changes', () => {
+    const detector = new FallDetector('high');
+    feed(detector, [STANDING, [3.5, 100]]);
+
+    detector.setSensitivity('medium');
+    assert.deepEqual(feed(detector, [LYING_STILL], 1100), []);
+  });
+});
@@ -0,0 +1,218 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { getActivityDefinition } from '../../constants/ActivityCatalog';
+import { calculateActivityCalories, DEFAULT_PROFILE } from '../EnergyModel';
+import { HealthDataService } from '../HealthDataService';
+import { MemoryStorageAdapter } from '../storage/MemoryStorageAdapter';
+
+// Runs the aggregation logic against the in-memory adapter:  npm test
+
+const at = (day: number, hours: number, minutes = 0) => new Date(2024, 4, day, hours, minutes).getTime();
+const MINUTE = 60000;
+const WALKING_STEPS = getActivityDefinition('walking').stepsPerMinute;
+
+describe('HealthDataService', () => {
+  let storage: MemoryStorageAdapter;
+  let service: HealthDataService;
+
+  beforeEach(async () => {
+    storage = new MemoryStorageAdapter();
+    service = new HealthDataService();
+    await service.initialize(storage);
+  });
+
+  it('adds a finished session to the day it was on', async () => {
+    await service.recordActivity('walking', 30, at(1, 9, 30));
+
+    const [day] = await service.getDailyStats('2024-05-01', '2024-05-01');
+    assert.equal(day.activeMinutes, 30);
+    assert.equal(day.steps, 30 * WALKING_STEPS);
+    assert.equal(day.stepSource, 'estimate');
+    assert.ok(day.calories > 0);
+  });
+
+  it('splits a session at local midnight', async () => {
+    await service.startSession('walking', at(1, 23, 30));
+    await service.endSession(at(2, 0, 15));
+
+    const activities = await storage.queryActivities({});
+    assert.deepEqual(activities.map(a => [a.date, a.duration, a.isOpen]), [
+      ['2024-05-02', 15, false],
+      ['2024-05-01', 30, false],
+    ]);
+    const stats = await service.getDailyStats('2024-05-01', '2024-05-02');
+    assert.deepEqual(stats.map(day => day.activeMinutes), [30, 15]);
+  });
+
+  it('closes the open session when the next one starts', async () => {
+    await service.startSession('walking', at(1, 9));
+    await service.extendSession(at(1, 9, 10));
+    await service.startSession('idle', at(1, 9, 20));
+    await service.endSession(at(1, 9, 30));
+
+    const activities = await storage.queryActivities({});
+    assert.deepEqual(activities.map(a => [a.activity, a.duration]), [['idle', 10], ['walking', 20]]);
+  });
+
+  it('applies writes in the order they were made without waiting for each', async () => {
+    await Promise.all([
+      service.startSession('walking', at(1, 9)),
+      service.extendSession(at(1, 9, 10)),
+      service.recordSteps(500, 'pedometer', at(1, 9, 10)),
+      service.startSession('idle', at(1, 9, 20)),
+      service.endSession(at(1, 9, 30)),
+    ]);
+
+    const activities = await storage.queryActivities({});
+    assert.deepEqual(activities.map(a => [a.activity, a.duration, a.isOpen]), [
+      ['idle', 10, false],
+      ['walking', 20, false],
+    ]);
+    const [day] = await service.getDailyStats('2024-05-01', '2024-05-01');
+    assert.deepEqual([day.activeMinutes, day.steps], [20, 500]);
+  });
+
+  it('closes sessions left open by a crash at their last extension', async () => {
+    const id = await storage.insertActivity({
+      activity: 'walking',
+      timestamp: at(1, 9),
+      endTimestamp: at(1, 9, 40),
+      duration: 0,
+      date: '2024-05-01',
+      utcOffset: null,
+      isOpen: true,
+    });
+
+    await new HealthDataService().initialize(storage);
+
+    const session = await storage.getActivity(id);
+    assert.equal(session?.isOpen, false);
+    assert.equal(session?.duration, 40);
+  });
+
+  it('prefers measured steps over the estimate, and the pedometer over the accelerometer', async () => {
+    await service.recordActivity('walking', 30, at(1, 9, 30));
+    await service.recordSteps(1200, 'accelerometer', at(1, 10));
+    let [day] = await service.getDailyStats('2024-05-01', '2024-05-01');
+    assert.deepEqual([day.steps, day.stepSource], [1200, 'accelerometer']);
+
+    await service.recordSteps(900, 'pedometer', at(1, 11));
+    await service.recordSteps(100, 'pedometer', at(1, 12));
+    [day] = await service.getDailyStats('2024-05-01', '2024-05-01');
+    assert.deepEqual([day.steps, day.stepSource], [1000, 'pedometer']);
+  });
+
+  it('totals weeks over the requested days only, including days without data', async () => {
+    // 2024-05-01 is a Wednesday
+    await service.recordActivity('walking', 10, at(1, 9));
+    await service.recordActivity('walking', 20, at(6, 9));
+
+    const buckets = await service.getStats({ from: '2024-05-01', to: '2024-05-07', granularity: 'week' });
+    assert.ok(buckets.length >= 2);
+    assert.equal(buckets.reduce((total, bucket) => total + bucket.days, 0), 7);
+    assert.equal(buckets.reduce((total, bucket) => total + bucket.activeMinutes, 0), 30);
+
+    const days = await service.getStats({ from: '2024-05-01', to: '2024-05-03' });
+    assert.deepEqual(days.map(day => day.activeMinutes), [10, 0, 0]);
+  });
+
+  it('pages activities newest first', async () => {
+    for (let hour = 8; hour < 13; hour++) {
+      await service.recordActivity('walking', 10, at(1, hour, 30));
+    }
+
+    const first = await service.getActivities({ limit: 3 });
+    assert.equal(first.activities.length, 3);
+    assert.ok(first.nextCursor);
+    const second = await service.getActivities({ limit: 3, cursor: first.nextCursor });
+    assert.equal(second.activities.length, 2);
+    assert.equal(second.nextCursor, null);
+
+    const starts = [...first.activities, ...second.activities].map(a => a.timestamp);
+    assert.deepEqual(starts, [...starts].sort((a, b) => b - a));
+  });
+
+  it('skips duplicates when importing and recomputes the totals', async () => {
+    await service.recordActivity('walking', 30, at(1, 9, 30));
+    const [existing] = await storage.queryActivities({});
+    const { id, ...copy } = existing;
+
+    const result = await service.importActivities(
+      [copy, { ...copy, activity: 'running', timestamp: at(1, 18), endTimestamp: at(1, 18, 20), duration: 20 }],
+      [{ date: '2024-05-01', source: 'pedometer', steps: 5000 }]
+    );
+
+    assert.deepEqual(result, { added: 1, duplicates: 1, stepDays: 1 });
+    const [day] = await service.getDailyStats('2024-05-01', '2024-05-01');
+    assert.deepEqual([day.activeMinutes, day.steps, day.stepSource], [50, 5000, 'pedometer']);
+  });
+
+  it('recomputes only the days an import added to', async () => {
+    await service.recordActivity('walking', 30, at(1, 9, 30));
+    await service.recordActivity('walking', 30, at(2, 9, 30));
+    const [, before] = await service.getDailyStats('2024-05-01', '2024-05-02');
+    const [existing] = await storage.queryActivities({ toTime: at(2, 0) });
+    const { id, ...copy } = existing;
+
+    await service.setProfile({ ...DEFAULT_PROFILE, weightKg: 95 });
+    await service.importActivities(
+      [{ ...copy, activity: 'running', timestamp: at(1, 18), endTimestamp: at(1, 18, 20), duration: 20 }],
+      [{ date: '2024-05-03', source: 'pedometer', steps: 5000 }]
+    );
+
+    const [first, second, third] = await service.getDailyStats('2024-05-01', '2024-05-03');
+    assert.deepEqual(second, before);
+    assert.equal(first.activeMinutes, 50);
+    assert.deepEqual([third.date, third.steps, third.stepSource], ['2024-05-03', 5000, 'pedometer']);
+  });
+
+  it('rejects an import whose totals could not be recomputed, and keeps nothing of it', async () => {
+    storage.addToDailyStats = async () => {
+      throw new Error('Disk full');
+    };
+
+    await assert.rejects(service.importActivities([{
+      activity: 'walking',
+      timestamp: at(1, 9),
+      endTimestamp: at(1, 9, 30),
+      duration: 30,
+      date: '2024-05-01',
+      utcOffset: null,
+      isOpen: false,
+    }]));
+    assert.deepEqual(await storage.queryActivities({}), []);
+  });
+
+  it('recomputes only the day of a relabelled session', async () => {
+    await service.recordActivity('walking', 30, at(1, 9, 30));
+    await service.recordActivity('walking', 30, at(2, 9, 30));
+    await service.recordSteps(400, 'pedometer', at(1, 10));
+    const [, before] = await service.getDailyStats('2024-05-01', '2024-05-02');
+
+    // Calories of days left alone would change if they were recomputed with the new profile
+    await service.setProfile({ ...DEFAULT_PROFILE, weightKg: 95 });
+    const [session] = await storage.queryActivities({ toTime: at(2, 0) });
+    await service.relabelActivity(session.id!, 'idle');
+
+    const [first, second] = await service.getDailyStats('2024-05-01', '2024-05-02');
+    assert.deepEqual(second, before);
+    assert.equal(first.activeMinutes, 0);
+    assert.equal(first.calories, Math.round(calculateActivityCalories('idle', 30, { ...DEFAULT_PROFILE, weightKg: 95 })));
+    assert.deepEqual([first.steps, first.stepSource], [400, 'pedometer']);
+    const counts = await storage.getStepCounts('2024-05-01', '2024-05-01');
+    assert.equal(counts.find(count => count.source === 'estimate')?.steps ?? 0, 0);
+  });
+
+  it('leaves device settings out of the portable ones', async () => {
+    await service.setGoals({ steps: 8000 });
+    await service.setProfile(DEFAULT_PROFILE);
+    await service.setSetting('tracking', { enabled: true, stepsCountedUntil: at(1, 9) });
+    await service.setSetting('powerProfile', 'battery-saver');
+
+    assert.deepEqual(Object.keys(await service.getPortableSettings()).sort(), ['goals', 'profile']);
+  });
+
+  it('refuses activities that end in the future', async () => {
+    await assert.rejects(service.recordActivity('walking', 10, Date.now() + 10 * MINUTE));
+  });
+});
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { SensorFusionBuffer } from '../SensorFusionBuffer';
+
+// Streams whose values change linearly with time, so an interpolated reading is known exactly
+const accelerometerAt = (timestamp: number) => ({ x: timestamp / 1000, y: 0, z: 1, timestamp });
+const gyroscopeAt = (timestamp: number) => ({ x: 0, y: timestamp / 100, z: 0, timestamp });
+
+const assertClose = (actual: number | undefined, expected: number) =>
+  assert.ok(actual !== undefined && Math.abs(actual - expected) < 1e-9, `${actual} is not ${expected}`);
+
+describe('SensorFusionBuffer', () => {
+  it('resamples jittery streams onto the 10 Hz grid with both sensors read at each point', () => {
+    const buffer = new SensorFusionBuffer();
+    // Neither stream is on the grid, and the gyroscope runs at a slightly different rate
+    const accelerometerTimes = [1003, 1098, 1207, 1301, 1396, 1510, 1602, 1694, 1808];
+    const gyroscopeTimes = [1041, 1152, 1249, 1363, 1455, 1568, 1660, 1771, 1863];
+    accelerometerTimes.forEach((timestamp, i) => {
+      buffer.addAccelerometer(accelerometerAt(timestamp));
+      buffer.addGyroscope(gyroscopeAt(gyroscopeTimes[i]));
+    });
+
+    const readings = buffer.getReadings();
+    assert.deepEqual(readings.map(reading => reading.timestamp), [1100, 1200, 1300, 1400, 1500, 1600, 1700, 1800]);
+    readings.forEach(reading => {
+      assertClose(reading.accelerometer.x, reading.timestamp / 1000);
+      assertClose(reading.gyroscope?.y, reading.timestamp / 100);
+    });
+  });
+
+  it('waits for a lagging gyroscope, then goes on without it', () => {
+    const buffer = new SensorFusionBuffer();
+    buffer.addGyroscope(gyroscopeAt(950));
+    [1000, 1100, 1200].forEach(timestamp => buffer.addAccelerometer(accelerometerAt(timestamp)));
+    assert.equal(buffer.length, 0);
+
+    [1300, 1400, 1500, 1600].forEach(timestamp => buffer.addAccelerometer(accelerometerAt(timestamp)));
+    const readings = buffer.getReadings();
+    assert.deepEqual(readings.map(reading => reading.timestamp), [1000, 1100, 1200, 1300]);
+    // The last gyroscope value is held for maxHold, then left out rather than made up
+    assert.deepEqual(readings.map(reading => reading.gyroscope?.y ?? null), [9.5, 9.5, 9.5, 9.5]);
+    [1700, 1800].forEach(timestamp => buffer.addAccelerometer(accelerometerAt(timestamp)));
+    assert.deepEqual(buffer.getReadings(2).map(reading => reading.gyroscope?.y ?? null), [9.5, null]);
+  });
+
+  it('starts a new grid after a gap instead of bridging it', () => {
+    const buffer = new SensorFusionBuffer({ maxLatency: 0 });
+    [1000, 1100, 1200].forEach(timestamp => buffer.addAccelerometer(accelerometerAt(timestamp)));
+    assert.equal(buffer.length, 3);
+
+    [5050, 5150].forEach(timestamp => buffer.addAccelerometer(accelerometerAt(timestamp)));
+    assert.deepEqual(buffer.getReadings().map(reading => reading.timestamp), [5100]);
+  });
+});
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CalibrationSample, fitTemperature, getCalibrationMetrics, softmax, toLogits } from '../ml/calibration';
+
+const assertClose = (actual: number, expected: number, tolerance = 1e-9) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} is not within ${tolerance} of ${expected}`);
+
+describe('calibration', () => {
+  it('returns probabilities unchanged at temperature 1', () => {
+    const probabilities: { [activity: string]: number } = { walking: 0.6, running: 0.3, idle: 0.1 };
+    const calibrated = softmax(toLogits(probabilities), 1);
+
+    Object.entries(probabilities).forEach(([activity, probability]) => assertClose(calibrated[activity], probability));
+  });
+
+  it('flattens probabilities above temperature 1 without changing their order', () => {
+    const logits = toLogits({ walking: 0.6, running: 0.3, idle: 0.1 });
+    const flattened = softmax(logits, 3);
+
+    assert.ok(flattened.walking < 0.6 && flattened.idle > 0.1);
+    assert.ok(flattened.walking > flattened.running && flattened.running > flattened.idle);
+    assertClose(flattened.walking + flattened.running + flattened.idle, 1);
+  });
+
+  it('fits the temperature that makes an overconfident classifier honest', () => {
+    // The classifier always picks walking with a logit margin of 5, but is right 7 times out of 10
+    const samples: CalibrationSample[] = Array.from({ length: 10 }, (_, i) => ({
+      logits: { walking: 5, running: 0 },
+      truth: i < 7 ? 'walking' : 'running',
+    }));
+
+    const temperature = fitTemperature(samples);
+    assertClose(temperature, 5 / Math.log(7 / 3), 1e-3);
+    assertClose(softmax(samples[0].logits, temperature).walking, 0.7, 1e-4);
+  });
+
+  it('leaves the temperature at 1 without samples', () => {
+    assert.equal(fitTemperature([]), 1);
+  });
+
+  it('measures no calibration error when confidence matches accuracy', () => {
+    const samples = ['walking', 'walking', 'walking', 'running'].map(truth => ({
+      probabilities: { walking: 0.75, running: 0.25 },
+      truth: truth as 'walking' | 'running',
+    }));
+
+    const metrics = getCalibrationMetrics(samples);
+    assertClose(metrics.expectedCalibrationError ?? NaN, 0);
+    assert.deepEqual(metrics.reliability[7], { from: 0.7, to: 0.8, windows: 4, meanConfidence: 0.75, accuracy: 0.75 });
+  });
+});
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { SensorReading, Vector3 } from '../SensorFusionBuffer';
+import { autocorrelation, powerSpectrum } from '../ml/dsp';
+import { extractFeatures, FEATURE_NAMES } from '../ml/features';
+
+const SAMPLE_INTERVAL = 100; // ms, the fusion grid
+const WINDOW = 32;
+
+const sine = (frequency: number, count: number, amplitude = 1) =>
+  Array.from({ length: count }, (_, i) => amplitude * Math.sin(2 * Math.PI * frequency * i * SAMPLE_INTERVAL / 1000));
+
+// A window of bouncing at `frequency` Hz along gravity, with the phone held so that gravity points along `up`
+const bouncing = (up: Vector3, frequency: number, gyroscope: Vector3 | null = null): SensorReading[] =>
+  sine(frequency, WINDOW, 0.3).map((bounce, i) => ({
+    accelerometer: { x: up.x * (1 + bounce), y: up.y * (1 + bounce), z: up.z * (1 + bounce) },
+    gyroscope,
+    timestamp: 1000 + i * SAMPLE_INTERVAL,
+  }));
+
+const assertClose = (actual: number, expected: number, tolerance: number, message?: string) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, message ?? `${actual} is not within ${tolerance} of ${expected}`);
+
+describe('dsp', () => {
+  it('finds the frequency of a sine in its power spectrum', () => {
+    // 2.5 Hz over 32 samples at 10 Hz is exactly bin 8
+    const spectrum = powerSpectrum(sine(2.5, 32));
+
+    assert.equal(spectrum.length, 17);
+    assert.equal(spectrum.indexOf(Math.max(...spectrum)), 8);
+    assertClose(spectrum[8], 8, 1e-9);
+    spectrum.forEach((power, bin) => bin !== 8 && assertClose(power, 0, 1e-9));
+  });
+
+  it('pads the signal to a power of two', () => {
+    assert.equal(powerSpectrum(sine(1, 20)).length, 17);
+  });
+
+  it('correlates a periodic signal with itself one period later', () => {
+    const correlation = autocorrelation(sine(2.5, 32), 6);
+
+    assert.equal(correlation.length, 7);
+    assertClose(correlation[0], 1, 1e-9);
+    assert.ok(correlation[4] > 0.8);
+    assert.ok(correlation[2] < -0.8);
+  });
+});
+
+describe('extractFeatures', () => {
+  it('measures motion relative to gravity, whichever way the phone is held', () => {
+    const upright = extractFeatures(bouncing({ x: 0, y: 0, z: 1 }, 2.5));
+    const tilted = extractFeatures(bouncing({ x: Math.SQRT1_2, y: 0.5, z: -0.5 }, 2.5));
+
+    FEATURE_NAMES.forEach(name => assertClose(tilted[name], upright[name], 1e-6, `${name} changed with the phone's orientation`));
+    assertClose(upright.horizontalStd, 0, 1e-9);
+    assert.ok(upright.verticalStd > 0.1);
+  });
+
+  it('finds the rhythm of the motion', () => {
+    const features = extractFeatures(bouncing({ x: 0, y: 1, z: 0 }, 2.5));
+
+    assertClose(features.dominantFrequency, 2.5, 1e-9);
+    assertClose(features.cadence, 2.5, 0.1);
+    assert.ok(features.periodicity > 0.8);
+    assert.ok(features.bandEnergyHigh > features.bandEnergyGait);
+  });
+
+  it('marks windows without gyroscope data', () => {
+    assert.equal(extractFeatures(bouncing({ x: 0, y: 0, z: 1 }, 2.5)).hasGyroscope, 0);
+
+    const features = extractFeatures(bouncing({ x: 0, y: 0, z: 1 }, 2.5, { x: 0, y: 0.3, z: 0.4 }));
+    assert.equal(features.hasGyroscope, 1);
+    assertClose(features.gyroscopeMean, 0.5, 1e-9);
+  });
+
+  it('returns zeros for windows too short to measure', () => {
+    const features = extractFeatures(bouncing({ x: 0, y: 0, z: 1 }, 2.5).slice(0, 5));
+
+    assert.deepEqual(Object.values(features), FEATURE_NAMES.map(() => 0));
+  });
+});
@@ -0,0 +1,54 @@
+import { ACTIVITY_IDS } from '../../constants/ActivityCatalog';
+import type { ActivityOutcome, ActivityType } from '../ActivityRecognitionService';
+import { softmax } from './calibration';
+import type { ActivityFeatures, FeatureSetInfo } from './features';
+
+// The contract every activity classifier implements. The registry extracts a window's features once
+// and hands them to the primary classifier and to every shadow, so they are compared on exactly the
+// same input.
+
+export type ActivityScores = { [key in ActivityType]: number };
+
+export interface ClassificationResult {
+  activity: ActivityOutcome; // 'unknown' when no activity is likely enough
+  confidence: number; // calibrated probability of the likeliest activity
+  scores: ActivityScores; // calibrated probability of each activity, summing to 1
+  features: ActivityFeatures | null; // null when the window had too few readings to classify
+}
+
+export interface ClassifierInfo {
+  type: 'tfjs' | 'rules' | 'personalized';
+  name: string;
+  version: string;
+  featureSetVersion: number;
+  accuracy: number | null; // measured on held-out data, null when never evaluated
+  evaluationData: string | null; // what the accuracy was measured on
+  trainingData: string;
+  createdAt: string | null;
+  personalExamples: number; // corrected windows a personal layer learned from
+  temperature: number;
+}
+
+export interface ActivityClassifier {
+  readonly id: string; // unique within the registry, e.g. 'rules'
+  readonly featureSet: FeatureSetInfo; // the features logits() expects
+  // Divides the logits before the softmax; see calibration.ts
+  temperature: number;
+  // Per-activity evidence on a log scale, before calibration
+  logits(features: ActivityFeatures): ActivityScores;
+  getInfo(): ClassifierInfo;
+  // Frees native or tensor memory when the classifier is replaced or removed
+  dispose?(): void;
+}
+
+export const createEmptyScores = (value = 0): ActivityScores => {
+  const scores = {} as ActivityScores;
+  ACTIVITY_IDS.forEach(activity => {
+    scores[activity] = value;
+  });
+  return scores;
+};
+
+// The classifier's calibrated probability of each activity
+export const getProbabilities = (classifier: ActivityClassifier, features: ActivityFeatures): ActivityScores =>
+  softmax(classifier.logits(features), classifier.temperature);
@@ -0,0 +1,140 @@
+import * as tf from '@tensorflow/tfjs-core';
+import '@tensorflow/tfjs-backend-cpu';
+import { LayersModel, loadLayersModel } from '@tensorflow/tfjs-layers';
+import type { ActivityType } from '../ActivityRecognitionService';
+import type { Calibration } from './calibration';
+import type { FeatureSetInfo } from './features';
+
+// A trained TensorFlow.js layers model that turns a feature vector into per-activity probabilities.
+// The topology, weights and what the model was trained on are packed into one JSON file, so the app
+// bundles it like any other module and Node scripts read it with a plain file read. Weights are a
+// list of float32 values rather than a binary shard; the models are only a few kilobytes.
+//
+// Inference runs on the plain JavaScript CPU backend, which behaves the same in the app and in Node
+// and is plenty fast for one small window every couple of seconds.
+
+export const MODEL_FORMAT = 'context-aware-health-tracker-model';
+
+export interface ActivityModelMetadata {
+  name: string;
+  version: string;
+  createdAt: string; // ISO 8601
+  activities: ActivityType[]; // in the order of the model's outputs
+  featureSet: FeatureSetInfo; // the features the model takes, in order
+  normalization: { mean: number[]; std: number[] }; // applied to each feature before the model
+  accuracy: number | null; // share of held-out windows classified correctly, null if not evaluated
+  evaluationWindows: number; // how many held-out windows that accuracy is measured on
+  trainingData: string; // where the training windows came from
+  evaluationData?: string; // where the held-out windows came from; absent in older model files
+  calibration?: Calibration; // absent until fit; the raw outputs are used as they are
+}
+
+export interface ActivityModelFile {
+  format: typeof MODEL_FORMAT;
+  metadata: ActivityModelMetadata;
+  modelTopology: object;
+  weightSpecs: tf.io.WeightsManifestEntry[];
+  weights: number[]; // float32 values of all weights, in weightSpecs order
+}
+
+let cpuBackend: Promise<void> | null = null;
+
+const initCpuBackend = (): Promise<void> => {
+  cpuBackend ??= tf.setBackend('cpu').then(ready => {
+    if (!ready) {
+      throw new Error('TensorFlow.js CPU backend could not be initialised');
+    }
+  });
+  return cpuBackend;
+};
+
+// Checks an untrusted parsed file against the model schema and returns it typed
+export const validateModelFile = (value: any): ActivityModelFile => {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid activity model: ${message}`);
+  };
+
+  if (typeof value !== 'object' || value === null || value.format !== MODEL_FORMAT) {
+    fail('not a Health Tracker activity model');
+  }
+  const metadata = value.metadata;
+  if (typeof metadata !== 'object' || metadata === null || !Array.isArray(metadata.activities)) {
+    fail('metadata with the output activities is missing');
+  }
+  const featureCount = metadata.featureSet?.names?.length;
+  if (!Number.isInteger(metadata.featureSet?.version) || !Number.isInteger(featureCount)) {
+    fail('metadata.featureSet must have a version and feature names');
+  }
+  const { mean, std } = metadata.normalization ?? {};
+  if (!Array.isArray(mean) || !Array.isArray(std) || mean.length !== featureCount || std.length !== featureCount) {
+    fail('metadata.normalization must have a mean and std per feature');
+  }
+  const temperature = metadata.calibration?.temperature;
+  if (temperature !== undefined && !(typeof temperature === 'number' && temperature > 0)) {
+    fail('metadata.calibration.temperature must be a positive number');
+  }
+  if (typeof value.modelTopology !== 'object' || !Array.isArray(value.weightSpecs) || !Array.isArray(value.weights)) {
+    fail('modelTopology, weightSpecs and weights are required');
+  }
+  return value;
+};
+
+export class ActivityModel {
+  private constructor(readonly metadata: ActivityModelMetadata, private model: LayersModel) {}
+
+  static async load(file: ActivityModelFile): Promise<ActivityModel> {
+    const { metadata, modelTopology, weightSpecs, weights } = validateModelFile(file);
+    await initCpuBackend();
+    const model = await loadLayersModel(tf.io.fromMemory({
+      modelTopology,
+      weightSpecs,
+      weightData: new Float32Array(weights).buffer,
+    }));
+
+    const outputs = model.outputs[0].shape[1];
+    if (outputs !== metadata.activities.length) {
+      model.dispose();
+      throw new Error(`Invalid activity model: ${outputs} outputs for ${metadata.activities.length} activities`);
+    }
+    return new ActivityModel(metadata, model);
+  }
+
+  // Packs a trained model for saving; the counterpart of load()
+  static async pack(model: LayersModel, metadata: ActivityModelMetadata): Promise<ActivityModelFile> {
+    const artifacts = await new Promise<tf.io.ModelArtifacts>((resolve, reject) => {
+      model.save(tf.io.withSaveHandler(async saved => {
+        resolve(saved);
+        return { modelArtifactsInfo: { dateSaved: new Date(), modelTopologyType: 'JSON' } };
+      })).catch(reject);
+    });
+    if (!artifacts.modelTopology || !artifacts.weightSpecs || !(artifacts.weightData instanceof ArrayBuffer)) {
+      throw new Error('The model has no topology or weights to save');
+    }
+    return {
+      format: MODEL_FORMAT,
+      metadata,
+      modelTopology: artifacts.modelTopology,
+      weightSpecs: artifacts.weightSpecs,
+      weights: Array.from(new Float32Array(artifacts.weightData)),
+    };
+  }
+
+  // Probability of each activity for one feature vector in metadata.featureSet order
+  predict(features: number[]): { [activity: string]: number } {
+    const { mean, std } = this.metadata.normalization;
+    const normalized = features.map((value, i) => (value - mean[i]) / (std[i] || 1));
+    const output = tf.tidy(() => this.model.predict(tf.tensor2d([normalized])) as tf.Tensor);
+    const probabilities = output.dataSync();
+    output.dispose();
+
+    const result: { [activity: string]: number } = {};
+    this.metadata.activities.forEach((activity, i) => {
+      result[activity] = probabilities[i];
+    });
+    return result;
+  }
+
+  dispose() {
+    this.model.dispose();
+  }
+}
@@ -0,0 +1,50 @@
+import type { ActivityType } from '../ActivityRecognitionService';
+import { ActivityClassifier, ActivityScores, ClassifierInfo, createEmptyScores } from './ActivityClassifier';
+import { ActivityModel } from './ActivityModel';
+import { toLogits } from './calibration';
+import { ActivityFeatures, FeatureSetInfo, toFeatureVector } from './features';
+
+// Scores windows with a trained TensorFlow.js model (see scripts/train-activity-model.ts)
+
+export class ModelClassifier implements ActivityClassifier {
+  readonly id = 'tfjs';
+  temperature: number;
+
+  constructor(private model: ActivityModel) {
+    this.temperature = model.metadata.calibration?.temperature ?? 1;
+  }
+
+  get featureSet(): FeatureSetInfo {
+    return this.model.metadata.featureSet;
+  }
+
+  // The log of the model's probability for each activity; activities it has no output for get none
+  logits(features: ActivityFeatures): ActivityScores {
+    const probabilities = this.model.predict(toFeatureVector(features));
+    const scores = createEmptyScores();
+    (Object.keys(scores) as ActivityType[]).forEach(activity => {
+      scores[activity] = probabilities[activity] ?? 0;
+    });
+    return toLogits(scores);
+  }
+
+  getInfo(): ClassifierInfo {
+    const { name, version, featureSet, accuracy, evaluationData, trainingData, createdAt } = this.model.metadata;
+    return {
+      type: 'tfjs',
+      name,
+      version,
+      featureSetVersion: featureSet.version,
+      accuracy,
+      evaluationData: evaluationData ?? null,
+      trainingData,
+      createdAt,
+      personalExamples: 0,
+      temperature: this.temperature,
+    };
+  }
+
+  dispose() {
+    this.model.dispose();
+  }
+}
@@ -0,0 +1,81 @@
+import type { ActivityType } from '../ActivityRecognitionService';
+import { FEATURE_SET_VERSION } from './features';
+
+// A small k-nearest-neighbour layer learned from the windows of sessions the user corrected. It only
+// speaks up for windows that look like something the user has corrected before, so correcting a bike
+// ride teaches the app about cycling without touching how a walk is classified.
+
+export interface PersonalExample {
+  activity: ActivityType;
+  features: number[]; // in FEATURE_NAMES order of featureSetVersion
+  featureSetVersion: number;
+  addedAt: number; // epoch ms
+}
+
+export interface PersonalPrediction {
+  scores: { [activity: string]: number }; // vote share of the nearby examples, sums to 1
+  weight: number; // 0-1, how much these scores should count next to the base model's
+}
+
+const NEIGHBOURS = 5;
+// Root-mean-square distance, in feature spreads, within which an example counts as similar
+const NEIGHBOUR_RADIUS = 1.5;
+// Weight of the personal scores when all neighbours are similar
+const MAX_WEIGHT = 0.6;
+// Fewer examples than this are not enough to outvote the base model at all
+const MIN_EXAMPLES = 3;
+// Keeps a feature that barely varies between the examples from dominating the distance
+const MIN_SPREAD = 0.01;
+
+export class PersonalModel {
+  private examples: PersonalExample[];
+  private spread: number[];
+
+  constructor(examples: PersonalExample[]) {
+    // Examples from an older feature pipeline can't be compared with today's features
+    this.examples = examples.filter(example => example.featureSetVersion === FEATURE_SET_VERSION);
+
+    const count = this.examples.length;
+    const featureCount = this.examples[0]?.features.length ?? 0;
+    this.spread = Array.from({ length: featureCount }, (_, i) => {
+      const mean = this.examples.reduce((sum, example) => sum + example.features[i], 0) / count;
+      const variance = this.examples.reduce((sum, example) => sum + (example.features[i] - mean) ** 2, 0) / count;
+      return Math.max(Math.sqrt(variance), MIN_SPREAD);
+    });
+  }
+
+  get size(): number {
+    return this.examples.length;
+  }
+
+  // Null when there are too few examples or none near these features
+  predict(features: number[]): PersonalPrediction | null {
+    if (this.examples.length < MIN_EXAMPLES) return null;
+
+    const nearest = this.examples
+      .map(example => ({ activity: example.activity, distance: this.distance(features, example.features) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, NEIGHBOURS)
+      .filter(neighbour => neighbour.distance <= NEIGHBOUR_RADIUS);
+    if (nearest.length === 0) return null;
+
+    // Closer neighbours get more say
+    const scores: { [activity: string]: number } = {};
+    let total = 0;
+    nearest.forEach(({ activity, distance }) => {
+      const vote = 1 / (1 + distance);
+      scores[activity] = (scores[activity] ?? 0) + vote;
+      total += vote;
+    });
+    Object.keys(scores).forEach(activity => {
+      scores[activity] /= total;
+    });
+
+    return { scores, weight: (MAX_WEIGHT * nearest.length) / NEIGHBOURS };
+  }
+
+  private distance(a: number[], b: number[]): number {
+    const sum = this.spread.reduce((total, spread, i) => total + ((a[i] - b[i]) / spread) ** 2, 0);
+    return Math.sqrt(sum / (this.spread.length || 1));
+  }
+}
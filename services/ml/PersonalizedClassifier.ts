@@ -0,0 +1,51 @@
+import type { ActivityType } from '../ActivityRecognitionService';
+import { ActivityClassifier, ActivityScores, ClassifierInfo, getProbabilities } from './ActivityClassifier';
+import { toLogits } from './calibration';
+import { ActivityFeatures, FeatureSetInfo, toFeatureVector } from './features';
+import { PersonalModel } from './PersonalModel';
+
+// Another classifier with the user's personal layer blended on top. The base classifier stays
+// registered on its own, so the two can be compared.
+
+export class PersonalizedClassifier implements ActivityClassifier {
+  readonly id = 'personalized';
+  // The blend is of calibrated probabilities already
+  temperature = 1;
+
+  constructor(private base: ActivityClassifier, private personalModel: PersonalModel) {}
+
+  get baseId(): string {
+    return this.base.id;
+  }
+
+  get featureSet(): FeatureSetInfo {
+    return this.base.featureSet;
+  }
+
+  // Moves the base probabilities towards the activities the user gave windows like this one
+  logits(features: ActivityFeatures): ActivityScores {
+    const probabilities = getProbabilities(this.base, features);
+    const personal = this.personalModel.predict(toFeatureVector(features));
+    if (personal) {
+      (Object.keys(probabilities) as ActivityType[]).forEach(activity => {
+        probabilities[activity] = (1 - personal.weight) * probabilities[activity] +
+          personal.weight * (personal.scores[activity] ?? 0);
+      });
+    }
+    return toLogits(probabilities);
+  }
+
+  getInfo(): ClassifierInfo {
+    const base = this.base.getInfo();
+    return {
+      ...base,
+      type: 'personalized',
+      name: `${base.name} + personal`,
+      // Nobody has measured the blend; the base model's accuracy doesn't carry over
+      accuracy: null,
+      evaluationData: null,
+      personalExamples: this.personalModel.size,
+      temperature: this.temperature,
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import { SENSOR_ACTIVITIES } from '../../constants/ActivityCatalog';
+import { ActivityClassifier, ActivityScores, ClassifierInfo, createEmptyScores } from './ActivityClassifier';
+import { ActivityFeatures, FEATURE_SET, FeatureSetInfo } from './features';
+
+// Hand-written rules over the window features. Always available, so it is what classifies until a
+// model has loaded or when none can be used. Each activity the sensors can tell apart collects bonus
+// points in [0, 1], which serve as its logit; the rules give the others no chance at all.
+
+const RULES_VERSION = '1.2.0';
+// Fit on the synthetic evaluation traces with npm run evaluate -- --rules --synthetic --calibrate
+const RULES_TEMPERATURE = 0.286;
+
+export class RuleBasedClassifier implements ActivityClassifier {
+  readonly id = 'rules';
+  readonly featureSet: FeatureSetInfo = FEATURE_SET;
+  temperature = RULES_TEMPERATURE;
+
+  logits(features: ActivityFeatures): ActivityScores {
+    const scores = createEmptyScores(-Infinity);
+
+    // Calculate scores for each activity using feature matching (accelerations in g)
+    SENSOR_ACTIVITIES.forEach(activityKey => {
+      let score = 0;
+
+      // Walking detection: a steady footstep rhythm bouncing along gravity
+      if (activityKey === 'walking') {
+        if (features.cadence > 1.2 && features.cadence < 2.5 && features.periodicity > 0.3) score += 0.4;
+        if (features.verticalStd > 0.05 && features.verticalStd < 0.4) score += 0.3;
+        if (features.bandEnergyGait > 0.4) score += 0.3;
+      }
+
+      // Running detection
+      else if (activityKey === 'running') {
+        if (features.cadence > 2.3 && features.periodicity > 0.3) score += 0.4;
+        if (features.verticalStd > 0.35) score += 0.4;
+        if (features.motionEnergy > 0.2) score += 0.2;
+      }
+
+      // Cycling detection: the legs turn the phone without footsteps bouncing it
+      else if (activityKey === 'cycling') {
+        if (features.hasGyroscope && features.gyroscopeStd > 0.3 && features.verticalStd < 0.3) score += 0.4;
+        if (features.horizontalStd > 0.05 && features.horizontalStd > features.verticalStd) score += 0.3;
+        if (features.bandEnergyGait < 0.5) score += 0.3;
+      }
+
+      // Driving detection: road vibration and the odd push from braking or turning, but no rhythm
+      else if (activityKey === 'driving') {
+        if (features.motionEnergy > 0.001 && features.motionEnergy < 0.05 && features.bandEnergyHigh > 0.4) score += 0.4;
+        if (features.periodicity < 0.3) score += 0.3;
+        if (features.horizontalStd > 0.02 && (!features.hasGyroscope || features.gyroscopeMean < 0.3)) score += 0.3;
+      }
+
+      // Sleeping detection
+      else if (activityKey === 'sleeping') {
+        if (features.motionEnergy < 0.0005) score += 0.4;
+        if (!features.hasGyroscope || features.gyroscopeMean < 0.05) score += 0.3;
+        if (features.postureChange < 0.1) score += 0.2;
+      }
+
+      // Idle detection
+      else if (activityKey === 'idle') {
+        if (features.motionEnergy < 0.01 && features.periodicity < 0.5) score += 0.4;
+        if (features.verticalStd < 0.05) score += 0.3;
+        if (!features.hasGyroscope || features.gyroscopeStd < 0.2) score += 0.3;
+      }
+
+      scores[activityKey] = Math.max(0, Math.min(1, score));
+    });
+
+    return scores;
+  }
+
+  getInfo(): ClassifierInfo {
+    return {
+      type: 'rules',
+      name: 'rule-based',
+      version: RULES_VERSION,
+      featureSetVersion: FEATURE_SET.version,
+      accuracy: null,
+      evaluationData: null,
+      trainingData: 'Hand-written rules, not trained on data',
+      createdAt: null,
+      personalExamples: 0,
+      temperature: this.temperature,
+    };
+  }
+}
@@ -0,0 +1,126 @@
+import type { ActivityType } from '../ActivityRecognitionService';
+
+// Turns a classifier's per-activity evidence into probabilities that mean what they say: of the
+// windows given 0.8, about 80% should really be that activity. Temperature scaling divides the
+// logits by one constant before the softmax; the constant is fit by minimising the log loss on
+// labelled windows (scripts/evaluate-classifier.ts --calibrate), which leaves the ranking of the
+// activities, and so the accuracy, unchanged.
+
+export type ActivityLogits = { [activity: string]: number };
+
+export interface Calibration {
+  method: 'temperature';
+  temperature: number;
+  fittedOn: string; // the labelled data it was fit on, for humans
+}
+
+export interface CalibrationSample {
+  logits: ActivityLogits;
+  truth: ActivityType;
+}
+
+export interface ReliabilityBin {
+  from: number; // confidence range of the bin
+  to: number;
+  windows: number;
+  meanConfidence: number | null;
+  accuracy: number | null;
+}
+
+export interface CalibrationMetrics {
+  windows: number;
+  logLoss: number | null; // mean negative log probability of the true activity
+  expectedCalibrationError: number | null; // window-weighted gap between confidence and accuracy
+  reliability: ReliabilityBin[];
+}
+
+// Keeps log(0) finite for activities a model gives no chance at all
+const MIN_PROBABILITY = 1e-6;
+const MIN_TEMPERATURE = 0.01;
+const MAX_TEMPERATURE = 100;
+const RELIABILITY_BINS = 10;
+
+// Logits for a classifier that already outputs probabilities
+export const toLogits = <T extends ActivityLogits>(probabilities: T): T => {
+  const logits: ActivityLogits = {};
+  Object.keys(probabilities).forEach(activity => {
+    logits[activity] = Math.log(Math.max(probabilities[activity], MIN_PROBABILITY));
+  });
+  return logits as T;
+};
+
+export const softmax = <T extends ActivityLogits>(logits: T, temperature = 1): T => {
+  const activities = Object.keys(logits);
+  const max = Math.max(...activities.map(activity => logits[activity]));
+  const exps = activities.map(activity => Math.exp((logits[activity] - max) / temperature));
+  const total = exps.reduce((sum, value) => sum + value, 0);
+
+  const probabilities: ActivityLogits = {};
+  activities.forEach((activity, i) => {
+    probabilities[activity] = exps[i] / total;
+  });
+  return probabilities as T;
+};
+
+const getLogLoss = (samples: CalibrationSample[], temperature: number): number =>
+  samples.reduce((sum, { logits, truth }) =>
+    sum - Math.log(Math.max(softmax(logits, temperature)[truth] ?? 0, MIN_PROBABILITY)), 0) / samples.length;
+
+// The temperature with the lowest log loss on the samples. The loss is convex in the temperature's
+// logarithm, so a golden-section search over log(temperature) finds it.
+export const fitTemperature = (samples: CalibrationSample[]): number => {
+  if (samples.length === 0) return 1;
+
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let low = Math.log(MIN_TEMPERATURE);
+  let high = Math.log(MAX_TEMPERATURE);
+  for (let i = 0; i < 60; i++) {
+    const a = high - ratio * (high - low);
+    const b = low + ratio * (high - low);
+    if (getLogLoss(samples, Math.exp(a)) < getLogLoss(samples, Math.exp(b))) {
+      high = b;
+    } else {
+      low = a;
+    }
+  }
+  return Math.exp((low + high) / 2);
+};
+
+export const getCalibrationMetrics = (
+  samples: { probabilities: { [activity: string]: number }; truth: ActivityType }[]
+): CalibrationMetrics => {
+  const bins = Array.from({ length: RELIABILITY_BINS }, (_, i) => ({
+    from: i / RELIABILITY_BINS,
+    to: (i + 1) / RELIABILITY_BINS,
+    windows: 0,
+    confidence: 0,
+    correct: 0,
+  }));
+
+  let logLoss = 0;
+  samples.forEach(({ probabilities, truth }) => {
+    logLoss -= Math.log(Math.max(probabilities[truth] ?? 0, MIN_PROBABILITY));
+    const best = Object.keys(probabilities).reduce((a, b) => (probabilities[a] >= probabilities[b] ? a : b));
+    const confidence = probabilities[best];
+    const bin = bins[Math.min(Math.floor(confidence * RELIABILITY_BINS), RELIABILITY_BINS - 1)];
+    bin.windows++;
+    bin.confidence += confidence;
+    bin.correct += best === truth ? 1 : 0;
+  });
+
+  const reliability = bins.map(({ from, to, windows, confidence, correct }) => ({
+    from,
+    to,
+    windows,
+    meanConfidence: windows > 0 ? confidence / windows : null,
+    accuracy: windows > 0 ? correct / windows : null,
+  }));
+  const gap = bins.reduce((sum, bin) => sum + Math.abs(bin.confidence - bin.correct), 0);
+
+  return {
+    windows: samples.length,
+    logLoss: samples.length > 0 ? logLoss / samples.length : null,
+    expectedCalibrationError: samples.length > 0 ? gap / samples.length : null,
+    reliability,
+  };
+};
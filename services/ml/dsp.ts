@@ -0,0 +1,82 @@
+// Small signal processing helpers for the feature pipeline. Windows are a few dozen samples, so
+// these favour clarity over speed.
+
+export const mean = (values: number[]): number =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+export const standardDeviation = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const average = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+};
+
+// First-order IIR low-pass, seeded with `initial` so the output doesn't have to climb from zero
+export const lowPass = (values: number[], alpha: number, initial: number = values[0] ?? 0): number[] => {
+  let state = initial;
+  return values.map(value => {
+    state += alpha * (value - state);
+    return state;
+  });
+};
+
+const nextPowerOfTwo = (value: number): number => 2 ** Math.ceil(Math.log2(Math.max(1, value)));
+
+// Power spectrum of a real signal, zero-padded to a power of two. Entry k is the power at
+// k / (length * sampleInterval) Hz, for k = 0 .. length / 2.
+export const powerSpectrum = (values: number[]): number[] => {
+  const size = nextPowerOfTwo(values.length);
+  const real = values.concat(new Array(size - values.length).fill(0));
+  const imaginary = new Array(size).fill(0);
+
+  // Iterative radix-2 Cooley-Tukey FFT, starting with the bit-reversal permutation
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imaginary[i], imaginary[j]] = [imaginary[j], imaginary[i]];
+    }
+  }
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length;
+    for (let start = 0; start < size; start += length) {
+      for (let k = 0; k < length / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + length / 2;
+        const bReal = real[b] * cos - imaginary[b] * sin;
+        const bImaginary = real[b] * sin + imaginary[b] * cos;
+        real[b] = real[a] - bReal;
+        imaginary[b] = imaginary[a] - bImaginary;
+        real[a] += bReal;
+        imaginary[a] += bImaginary;
+      }
+    }
+  }
+
+  const spectrum: number[] = [];
+  for (let k = 0; k <= size / 2; k++) {
+    spectrum.push((real[k] ** 2 + imaginary[k] ** 2) / size);
+  }
+  return spectrum;
+};
+
+// Normalised autocorrelation of a mean-removed signal; entry 0 is 1 unless the signal is flat
+export const autocorrelation = (values: number[], maxLag: number): number[] => {
+  const average = mean(values);
+  const centered = values.map(value => value - average);
+  const energy = centered.reduce((sum, value) => sum + value * value, 0);
+  const result: number[] = [];
+  for (let lag = 0; lag <= Math.min(maxLag, values.length - 1); lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < centered.length; i++) {
+      sum += centered[i] * centered[i + lag];
+    }
+    result.push(energy > 0 ? sum / energy : 0);
+  }
+  return result;
+};
@@ -0,0 +1,147 @@
+import type { ActivityOutcome, ActivityType } from '../ActivityRecognitionService';
+
+// Scores a classifier's predictions on labelled windows: per-class precision and recall, a confusion
+// matrix, and how well changes of activity are picked up. Used by scripts/evaluate-classifier.ts.
+
+export interface PredictedWindow {
+  truth: ActivityType | null; // null where the trace is unlabelled; such windows are skipped
+  labelChanged: boolean; // mixes two activities, so it counts for transitions only
+  predicted: ActivityOutcome;
+  windowEnd: number; // ms
+}
+
+export interface ClassMetrics {
+  activity: ActivityType;
+  support: number; // windows truly of this activity
+  predictedCount: number; // windows predicted as this activity
+  precision: number | null; // null when never predicted
+  recall: number | null; // null when never present
+  f1: number | null;
+}
+
+// confusion[truth][predicted] = windows
+export type ConfusionMatrix = { [truth: string]: { [predicted: string]: number } };
+
+export interface ClassificationMetrics {
+  windows: number;
+  accuracy: number | null; // windows reported as unknown count as wrong
+  unknown: number; // windows reported as unknown
+  coverage: number | null; // share of windows given an activity
+  coveredAccuracy: number | null; // accuracy on the windows given an activity
+  classes: ClassMetrics[];
+  confusion: ConfusionMatrix;
+}
+
+export interface TransitionMetrics {
+  trueTransitions: number; // changes of the ground truth label
+  missedTransitions: number; // not followed by the new activity within maxDelay
+  meanDelay: number | null; // ms from the first window with the new label until that activity was reported
+  predictedTransitions: number; // changes of the predicted activity, not counting changes to unknown
+  falseTransitions: number; // predicted changes to something other than the true activity
+  labelledHours: number;
+  falseTransitionsPerHour: number | null;
+}
+
+const ratio = (numerator: number, denominator: number): number | null =>
+  denominator > 0 ? numerator / denominator : null;
+
+export const getClassificationMetrics = (
+  windows: PredictedWindow[],
+  activities: ActivityType[]
+): ClassificationMetrics => {
+  const scored = windows.filter(window => window.truth !== null && !window.labelChanged);
+
+  const confusion: ConfusionMatrix = {};
+  activities.forEach(truth => {
+    confusion[truth] = {};
+    activities.forEach(predicted => {
+      confusion[truth][predicted] = 0;
+    });
+  });
+  scored.forEach(({ truth, predicted }) => {
+    const row = (confusion[truth as ActivityType] ??= {});
+    row[predicted] = (row[predicted] ?? 0) + 1;
+  });
+
+  const classes = activities.map(activity => {
+    const truePositives = confusion[activity]?.[activity] ?? 0;
+    const support = scored.filter(window => window.truth === activity).length;
+    const predictedCount = scored.filter(window => window.predicted === activity).length;
+    const precision = ratio(truePositives, predictedCount);
+    const recall = ratio(truePositives, support);
+    const f1 = precision !== null && recall !== null && precision + recall > 0
+      ? (2 * precision * recall) / (precision + recall)
+      : null;
+    return { activity, support, predictedCount, precision, recall, f1 };
+  });
+
+  const correct = scored.filter(window => window.truth === window.predicted).length;
+  const unknown = scored.filter(window => window.predicted === 'unknown').length;
+  return {
+    windows: scored.length,
+    accuracy: ratio(correct, scored.length),
+    unknown,
+    coverage: ratio(scored.length - unknown, scored.length),
+    coveredAccuracy: ratio(correct, scored.length - unknown),
+    classes,
+    confusion,
+  };
+};
+
+// `traces` holds each trace's windows in order; transitions are never counted across traces
+export const getTransitionMetrics = (traces: PredictedWindow[][], interval: number, maxDelay: number): TransitionMetrics => {
+  let trueTransitions = 0;
+  let missedTransitions = 0;
+  let predictedTransitions = 0;
+  let falseTransitions = 0;
+  let labelledWindows = 0;
+  const delays: number[] = [];
+
+  traces.forEach(windows => {
+    windows.forEach((window, i) => {
+      if (window.truth === null) return;
+      labelledWindows++;
+      const previous = windows[i - 1];
+      if (!previous || previous.truth === null) return;
+
+      if (window.truth !== previous.truth) {
+        trueTransitions++;
+        // The first window from the change on that reports the new activity, before the label changes
+        // again or maxDelay runs out
+        let delay: number | null = null;
+        for (let j = i; j < windows.length && windows[j].truth === window.truth; j++) {
+          const elapsed = windows[j].windowEnd - window.windowEnd;
+          if (elapsed > maxDelay) break;
+          if (windows[j].predicted === window.truth) {
+            delay = elapsed;
+            break;
+          }
+        }
+        if (delay !== null) {
+          delays.push(delay);
+        } else {
+          missedTransitions++;
+        }
+      }
+
+      // Giving up on an activity claims nothing, so only changes to an activity are counted
+      if (window.predicted !== previous.predicted && window.predicted !== 'unknown') {
+        predictedTransitions++;
+        if (window.predicted !== window.truth) {
+          falseTransitions++;
+        }
+      }
+    });
+  });
+
+  const labelledHours = (labelledWindows * interval) / 3600000;
+  return {
+    trueTransitions,
+    missedTransitions,
+    meanDelay: delays.length > 0 ? delays.reduce((sum, delay) => sum + delay, 0) / delays.length : null,
+    predictedTransitions,
+    falseTransitions,
+    labelledHours,
+    falseTransitionsPerHour: ratio(falseTransitions, labelledHours),
+  };
+};
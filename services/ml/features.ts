@@ -0,0 +1,182 @@
+import type { SensorReading, Vector3 } from '../SensorFusionBuffer';
+import { autocorrelation, lowPass, mean, powerSpectrum, standardDeviation } from './dsp';
+
+// Turns a window of resampled sensor readings (accelerometer in g, gyroscope in rad/s) into the
+// features the classifiers work on. Everything is measured relative to gravity rather than the
+// phone's axes, so the features don't change when the phone sits sideways in a pocket or upright in
+// a bag.
+//
+// The feature set is versioned: a model declares the version and feature order it was trained on,
+// and getFeatureSetMismatch() tells whether this pipeline can feed it. Bump the version whenever a
+// feature is added, removed, reordered or computed differently.
+// Version 1 was the original per-axis statistics, with accelerometer z taken as vertical.
+export const FEATURE_SET_VERSION = 2;
+
+export const FEATURE_NAMES = [
+  'verticalStd', // g, motion along gravity (bouncing)
+  'horizontalStd', // g, motion across gravity (swaying, braking, turning)
+  'motionEnergy', // g², mean squared acceleration with gravity removed
+  'gyroscopeMean', // rad/s
+  'gyroscopeStd', // rad/s
+  'hasGyroscope', // 1 when the window had gyroscope data, else the two above are 0
+  'dominantFrequency', // Hz, strongest frequency of the vertical motion
+  'dominantPowerRatio', // share of the vertical spectrum in that one frequency
+  'bandEnergyLow', // share of the vertical spectrum at 0.3-1 Hz (swaying, driving)
+  'bandEnergyGait', // at 1-2.5 Hz (walking)
+  'bandEnergyHigh', // above 2.5 Hz (running, vibration)
+  'cadence', // Hz, repetition rate of the vertical motion found by autocorrelation, 0 if none
+  'periodicity', // 0-1, how regular that repetition is
+  'postureChange', // radians the gravity direction turned between the two halves of the window
+] as const;
+
+export type FeatureName = typeof FEATURE_NAMES[number];
+
+export type ActivityFeatures = { [name in FeatureName]: number };
+
+export interface FeatureSetInfo {
+  version: number;
+  names: readonly string[];
+}
+
+export const FEATURE_SET: FeatureSetInfo = { version: FEATURE_SET_VERSION, names: FEATURE_NAMES };
+
+// Why a model expecting `expected` can't be fed these features, or null when it can
+export const getFeatureSetMismatch = (expected: FeatureSetInfo): string | null => {
+  if (expected.version !== FEATURE_SET_VERSION) {
+    return `expects feature set version ${expected.version}, the app extracts version ${FEATURE_SET_VERSION}`;
+  }
+  if (expected.names.length !== FEATURE_NAMES.length || expected.names.some((name, i) => name !== FEATURE_NAMES[i])) {
+    return `expects features ${expected.names.join(', ')} but version ${FEATURE_SET_VERSION} has ${FEATURE_NAMES.join(', ')}`;
+  }
+  return null;
+};
+
+// Features in FEATURE_NAMES order, as models take them
+export const toFeatureVector = (features: ActivityFeatures): number[] => FEATURE_NAMES.map(name => features[name]);
+
+const MIN_READINGS = 8;
+// Low-pass that follows changes of posture but lets steps (1 Hz and up) through; about 0.17 Hz at 10 Hz
+const GRAVITY_SMOOTHING = 0.1;
+const LOW_BAND = { from: 0.3, to: 1 };
+const GAIT_BAND = { from: 1, to: 2.5 };
+// Footsteps repeat every 0.25 s (fast running) to 1.25 s (a slow stroll)
+const MIN_STEP_PERIOD = 0.25;
+const MAX_STEP_PERIOD = 1.25;
+const HARMONIC_TOLERANCE = 0.8;
+
+const EMPTY_FEATURES = Object.fromEntries(FEATURE_NAMES.map(name => [name, 0])) as ActivityFeatures;
+
+const length = ({ x, y, z }: Vector3) => Math.sqrt(x * x + y * y + z * z);
+const dot = (a: Vector3, b: Vector3) => a.x * b.x + a.y * b.y + a.z * b.z;
+const meanVector = (vectors: Vector3[]): Vector3 => ({
+  x: mean(vectors.map(v => v.x)),
+  y: mean(vectors.map(v => v.y)),
+  z: mean(vectors.map(v => v.z)),
+});
+
+const angleBetween = (a: Vector3, b: Vector3): number => {
+  const lengths = length(a) * length(b);
+  return lengths > 0 ? Math.acos(Math.max(-1, Math.min(1, dot(a, b) / lengths))) : 0;
+};
+
+// Repetition rate between the shortest and longest step period. A rhythm also correlates at two and
+// three periods, so the first peak nearly as high as the strongest wins. The lag is refined with a
+// parabola through the neighbouring values.
+const findCadence = (signal: number[], sampleInterval: number): { cadence: number; periodicity: number } => {
+  const minLag = Math.max(1, Math.floor(MIN_STEP_PERIOD / sampleInterval));
+  const maxLag = Math.ceil(MAX_STEP_PERIOD / sampleInterval);
+  const correlation = autocorrelation(signal, maxLag + 1);
+
+  const peaks: number[] = [];
+  for (let lag = minLag; lag < correlation.length - 1; lag++) {
+    if (correlation[lag] > 0 && correlation[lag] > correlation[lag - 1] && correlation[lag] >= correlation[lag + 1]) {
+      peaks.push(lag);
+    }
+  }
+  if (peaks.length === 0) {
+    return { cadence: 0, periodicity: 0 };
+  }
+  const strongest = Math.max(...peaks.map(lag => correlation[lag]));
+  const best = peaks.find(lag => correlation[lag] >= HARMONIC_TOLERANCE * strongest) as number;
+
+  const [before, peak, after] = [correlation[best - 1], correlation[best], correlation[best + 1]];
+  const curvature = before - 2 * peak + after;
+  const offset = curvature !== 0 ? (0.5 * (before - after)) / curvature : 0;
+  return { cadence: 1 / ((best + offset) * sampleInterval), periodicity: Math.min(1, peak) };
+};
+
+export const extractFeatures = (readings: SensorReading[]): ActivityFeatures => {
+  if (readings.length < MIN_READINGS) {
+    return { ...EMPTY_FEATURES };
+  }
+  const sampleInterval = (readings[readings.length - 1].timestamp - readings[0].timestamp) / 1000 / (readings.length - 1);
+  if (!(sampleInterval > 0)) {
+    return { ...EMPTY_FEATURES };
+  }
+
+  // Separate gravity from motion, then split the motion along and across gravity
+  const accelerometer = readings.map(reading => reading.accelerometer);
+  const average = meanVector(accelerometer);
+  const gravityX = lowPass(accelerometer.map(a => a.x), GRAVITY_SMOOTHING, average.x);
+  const gravityY = lowPass(accelerometer.map(a => a.y), GRAVITY_SMOOTHING, average.y);
+  const gravityZ = lowPass(accelerometer.map(a => a.z), GRAVITY_SMOOTHING, average.z);
+
+  const vertical: number[] = [];
+  const horizontal: number[] = [];
+  const motionSquared: number[] = [];
+  accelerometer.forEach((a, i) => {
+    const gravity = { x: gravityX[i], y: gravityY[i], z: gravityZ[i] };
+    const gravityLength = length(gravity) || 1;
+    const up = { x: gravity.x / gravityLength, y: gravity.y / gravityLength, z: gravity.z / gravityLength };
+    const motion = { x: a.x - gravity.x, y: a.y - gravity.y, z: a.z - gravity.z };
+    const along = dot(motion, up);
+    vertical.push(along);
+    horizontal.push(length({ x: motion.x - along * up.x, y: motion.y - along * up.y, z: motion.z - along * up.z }));
+    motionSquared.push(dot(motion, motion));
+  });
+
+  // Spectrum of the vertical motion; with the window padded to N samples, bin k is k / (N * sampleInterval) Hz
+  const verticalMean = mean(vertical);
+  const spectrum = powerSpectrum(vertical.map(value => value - verticalMean));
+  const binWidth = 1 / ((spectrum.length - 1) * 2 * sampleInterval);
+  let totalPower = 0;
+  let lowPower = 0;
+  let gaitPower = 0;
+  let highPower = 0;
+  let dominantBin = 0;
+  spectrum.forEach((power, bin) => {
+    const frequency = bin * binWidth;
+    if (frequency < LOW_BAND.from) return; // drift that the gravity filter let through
+    totalPower += power;
+    if (frequency < LOW_BAND.to) lowPower += power;
+    else if (frequency < GAIT_BAND.to) gaitPower += power;
+    else highPower += power;
+    if (dominantBin === 0 || power > spectrum[dominantBin]) dominantBin = bin;
+  });
+  const share = (power: number) => (totalPower > 0 ? power / totalPower : 0);
+
+  const gyroscopeMagnitudes = readings
+    .map(reading => reading.gyroscope)
+    .filter((gyroscope): gyroscope is Vector3 => gyroscope !== null)
+    .map(length);
+
+  const half = Math.floor(accelerometer.length / 2);
+  const { cadence, periodicity } = findCadence(vertical, sampleInterval);
+
+  return {
+    verticalStd: standardDeviation(vertical),
+    horizontalStd: standardDeviation(horizontal),
+    motionEnergy: mean(motionSquared),
+    gyroscopeMean: mean(gyroscopeMagnitudes),
+    gyroscopeStd: standardDeviation(gyroscopeMagnitudes),
+    hasGyroscope: gyroscopeMagnitudes.length > 0 ? 1 : 0,
+    dominantFrequency: totalPower > 0 ? dominantBin * binWidth : 0,
+    dominantPowerRatio: totalPower > 0 ? share(spectrum[dominantBin]) : 0,
+    bandEnergyLow: share(lowPower),
+    bandEnergyGait: share(gaitPower),
+    bandEnergyHigh: share(highPower),
+    cadence,
+    periodicity,
+    postureChange: angleBetween(meanVector(accelerometer.slice(0, half)), meanVector(accelerometer.slice(half))),
+  };
+};
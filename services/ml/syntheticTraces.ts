@@ -0,0 +1,180 @@
+import type { ActivityType } from '../ActivityRecognitionService';
+import type { Vector3 } from '../SensorFusionBuffer';
+import { SensorTrace, TRACE_FORMAT, TRACE_VERSION, TraceEvent } from '../SensorTrace';
+
+// Generates labelled sensor traces of made-up but plausible motion: a footstep bounce for walking
+// and running, pedalling for cycling, road vibration for driving, near stillness for idle and sleep.
+// They only approximate real sensor data. Scripts use them to bootstrap a model and to check the
+// pipeline end to end where no recordings of an activity exist.
+
+export type RandomSource = () => number; // uniform in [0, 1)
+
+export interface TraceSegment {
+  activity: ActivityType;
+  duration: number; // ms
+  stepRate?: number; // steps a minute when walking or running, random otherwise
+  noise?: number; // sensor noise on top of the motion, in g and rad/s
+}
+
+const SAMPLE_INTERVAL = 100; // ms, the rate the app polls the sensors at
+// The two sensors report a few milliseconds apart, as on a phone
+const MAX_JITTER = 8;
+
+// Deterministic, so the same seed gives the same traces
+export const createRandom = (seed: number): RandomSource => {
+  let state = seed;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return (state - 1) / 2147483646;
+  };
+};
+
+// Motion in a frame where z points up, before the phone's orientation is applied
+type MotionModel = (t: number) => { acceleration: Vector3; rotation: Vector3 };
+
+const normalize = ({ x, y, z }: Vector3): Vector3 => {
+  const length = Math.sqrt(x * x + y * y + z * z) || 1;
+  return { x: x / length, y: y / length, z: z / length };
+};
+
+const cross = (a: Vector3, b: Vector3): Vector3 => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x,
+});
+
+const wave = (frequency: number, t: number, phase = 0) => Math.sin(2 * Math.PI * frequency * t + phase);
+
+const createMotionModel = ({ activity, stepRate }: TraceSegment, random: RandomSource): MotionModel => {
+  const between = (from: number, to: number) => from + (to - from) * random();
+  const noise = (amplitude: number) => (random() * 2 - 1) * amplitude;
+
+  switch (activity) {
+    case 'walking':
+    case 'running': {
+      const running = activity === 'running';
+      // One bounce a step; drawn either way so a given seed makes the same trace
+      const randomCadence = running ? between(2.4, 3.2) : between(1.5, 2.2);
+      const cadence = stepRate !== undefined ? stepRate / 60 : randomCadence;
+      const bounce = running ? between(0.45, 1.0) : between(0.12, 0.35);
+      const sway = bounce * between(0.2, 0.5);
+      const swing = running ? between(1.5, 3) : between(0.4, 1.2);
+      return t => ({
+        acceleration: {
+          x: sway * wave(cadence / 2, t) + noise(0.03),
+          y: sway * 0.5 * wave(cadence, t, 1) + noise(0.03),
+          z: bounce * (wave(cadence, t) + 0.3 * wave(2 * cadence, t, 0.5)) + noise(0.03),
+        },
+        rotation: { x: swing * wave(cadence / 2, t), y: swing * 0.4 * wave(cadence, t), z: noise(0.1) },
+      });
+    }
+    case 'cycling': {
+      const pedalling = between(0.9, 1.6);
+      const sway = between(0.06, 0.2);
+      const spin = between(0.6, 1.8);
+      return t => ({
+        acceleration: {
+          x: sway * wave(pedalling, t) + noise(0.03),
+          y: sway * 0.5 * wave(pedalling, t, 1.5) + noise(0.03),
+          z: between(0.02, 0.08) * wave(2 * pedalling, t) + noise(0.03),
+        },
+        rotation: { x: spin * wave(pedalling, t), y: spin * 0.5 * wave(pedalling, t, 1.5), z: noise(0.15) },
+      });
+    }
+    case 'driving': {
+      const vibration = between(0.01, 0.05);
+      const push = between(0.03, 0.15);
+      const pushFrequency = between(0.05, 0.3);
+      return t => ({
+        acceleration: {
+          x: push * wave(pushFrequency, t) + noise(vibration),
+          y: push * 0.6 * wave(pushFrequency * 1.7, t, 2) + noise(vibration),
+          z: noise(vibration * 1.5),
+        },
+        rotation: { x: noise(0.03), y: noise(0.03), z: 0.1 * wave(pushFrequency, t, 1) + noise(0.03) },
+      });
+    }
+    case 'sleeping':
+      return () => ({
+        acceleration: { x: noise(0.002), y: noise(0.002), z: noise(0.002) },
+        rotation: { x: noise(0.005), y: noise(0.005), z: noise(0.005) },
+      });
+    case 'idle':
+    default: {
+      // Still, with the odd fidget
+      const fidget = between(0.01, 0.06);
+      return t => {
+        const moving = wave(0.07, t) > 0.8 ? 1 : 0.1;
+        return {
+          acceleration: { x: noise(fidget * moving), y: noise(fidget * moving), z: noise(fidget * moving) },
+          rotation: { x: noise(0.15 * moving), y: noise(0.15 * moving), z: noise(0.15 * moving) },
+        };
+      };
+    }
+  }
+};
+
+// A phone held at a random angle, which stays put for the whole trace
+const randomOrientation = (random: RandomSource): ((v: Vector3) => Vector3) => {
+  const noise = (amplitude: number) => (random() * 2 - 1) * amplitude;
+  const up = normalize({ x: noise(1), y: noise(1), z: noise(1) });
+  const side = normalize(cross(up, Math.abs(up.x) < 0.9 ? { x: 1, y: 0, z: 0 } : { x: 0, y: 1, z: 0 }));
+  const forward = cross(up, side);
+  return v => ({
+    x: v.x * side.x + v.y * forward.x + v.z * up.x,
+    y: v.x * side.y + v.y * forward.y + v.z * up.y,
+    z: v.x * side.z + v.y * forward.z + v.z * up.z,
+  });
+};
+
+// The events of a trace doing each segment's activity in turn, labelled as it goes, generated one at
+// a time and in time order so a trace of a whole day needn't be held in memory. About 30% of traces
+// have no gyroscope, like phones without one.
+export function* generateTraceEvents(segments: TraceSegment[], random: RandomSource): Generator<TraceEvent> {
+  const motions = segments.map(segment => createMotionModel(segment, random));
+  const orient = randomOrientation(random);
+  const hasGyroscope = random() > 0.3;
+  const jitter = () => Math.round(random() * MAX_JITTER);
+  const addNoise = (v: Vector3, amplitude: number): Vector3 => amplitude > 0
+    ? { x: v.x + (random() * 2 - 1) * amplitude, y: v.y + (random() * 2 - 1) * amplitude, z: v.z + (random() * 2 - 1) * amplitude }
+    : v;
+  // The readings of the last sample time, held back as the next segment's label may come before them
+  let pending: TraceEvent[] = [];
+
+  let start = 0;
+  for (let index = 0; index < segments.length; index++) {
+    const segment = segments[index];
+    yield* pending.filter(event => event.t <= start);
+    yield { type: 'label', t: start, activity: segment.activity };
+    yield* pending.filter(event => event.t > start);
+    pending = [];
+
+    // Sample times stay on one grid across segments
+    const first = Math.ceil(start / SAMPLE_INTERVAL) * SAMPLE_INTERVAL;
+    const isLast = index === segments.length - 1;
+    for (let t = first; isLast ? t <= start + segment.duration : t < start + segment.duration; t += SAMPLE_INTERVAL) {
+      yield* pending;
+      const { acceleration, rotation } = motions[index](t / 1000);
+      const a = orient({ x: acceleration.x, y: acceleration.y, z: 1 + acceleration.z });
+      pending = [{ type: 'accelerometer', t: t + jitter(), ...addNoise(a, segment.noise ?? 0) }];
+      if (hasGyroscope) {
+        pending.push({ type: 'gyroscope', t: t + jitter(), ...addNoise(orient(rotation), segment.noise ?? 0) });
+        pending.sort((a, b) => a.t - b.t);
+      }
+    }
+    start += segment.duration;
+  }
+  yield* pending;
+}
+
+export const getTraceDuration = (segments: TraceSegment[]): number =>
+  segments.reduce((total, segment) => total + segment.duration, 0);
+
+export const synthesizeTrace = (segments: TraceSegment[], random: RandomSource): SensorTrace => ({
+  format: TRACE_FORMAT,
+  version: TRACE_VERSION,
+  startedAt: 0,
+  duration: getTraceDuration(segments),
+  platform: 'synthetic',
+  events: Array.from(generateTraceEvents(segments, random)),
+});
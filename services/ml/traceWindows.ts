@@ -0,0 +1,72 @@
+import type { ActivityType } from '../ActivityRecognitionService';
+import { SensorFusionBuffer, SensorReading } from '../SensorFusionBuffer';
+import type { SensorTrace } from '../SensorTrace';
+
+// Cuts a labelled sensor trace into the same windows the app classifies: both motion streams go
+// through the fusion buffer, and every `interval` ms of trace time the newest `windowSize` readings
+// form a window. Used offline to train and evaluate models on recorded traces.
+
+export interface TraceWindowOptions {
+  sampleInterval?: number; // ms
+  interval?: number; // ms between windows
+  windowSize?: number; // readings per window
+}
+
+export interface LabelledWindow {
+  readings: SensorReading[];
+  windowEnd: number; // ms since the trace started
+  activity: ActivityType | null; // ground truth, null where the trace is unlabelled
+  labelChanged: boolean; // the label changed within the window, so it mixes two activities
+}
+
+// The same as ActivityRecognitionService uses live
+const DEFAULT_OPTIONS: Required<TraceWindowOptions> = {
+  sampleInterval: 100,
+  interval: 2000,
+  windowSize: 32,
+};
+
+export const getTraceWindows = (trace: SensorTrace, options: TraceWindowOptions = {}): LabelledWindow[] => {
+  const { sampleInterval, interval, windowSize } = { ...DEFAULT_OPTIONS, ...options };
+  const buffer = new SensorFusionBuffer({ sampleInterval, capacity: windowSize });
+  const windows: LabelledWindow[] = [];
+  let activity: ActivityType | null = null;
+  let labelTime = 0;
+  let nextWindow = interval;
+
+  // Windows due before `before`; like the live classifier, a window sees the events strictly before it
+  const cutWindows = (before: number) => {
+    for (; nextWindow < before && nextWindow <= trace.duration; nextWindow += interval) {
+      const readings = buffer.getReadings(windowSize);
+      if (readings.length < windowSize) continue;
+      windows.push({
+        readings,
+        windowEnd: nextWindow,
+        activity,
+        labelChanged: labelTime > readings[0].timestamp,
+      });
+    }
+  };
+
+  // Events carry trace time, which is what the buffer's timestamps become
+  trace.events.forEach(event => {
+    cutWindows(event.t);
+    switch (event.type) {
+      case 'accelerometer':
+        buffer.addAccelerometer({ x: event.x, y: event.y, z: event.z, timestamp: event.t });
+        break;
+      case 'gyroscope':
+        buffer.addGyroscope({ x: event.x, y: event.y, z: event.z, timestamp: event.t });
+        break;
+      case 'label':
+        if (event.activity !== activity) {
+          activity = event.activity;
+          labelTime = event.t;
+        }
+        break;
+    }
+  });
+  cutWindows(Infinity);
+
+  return windows;
+};
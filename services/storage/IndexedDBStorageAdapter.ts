@@ -0,0 +1,462 @@
+import { migrateWebStorageData, WebStorageData } from './migrations';
+import {
+  ActivityFilter,
+  ActivityRecord,
+  DailyStats,
+  HealthStats,
+  StepCount,
+  StepSource,
+  StorageAdapter,
+} from './StorageAdapter';
+
+const DATABASE_NAME = 'health_tracker';
+const DATABASE_VERSION = 3;
+
+const ACTIVITY_STORE = 'activity_records';
+const DAILY_STATS_STORE = 'daily_stats';
+const META_STORE = 'meta';
+const SETTINGS_STORE = 'settings';
+const STEP_COUNTS_STORE = 'step_counts';
+
+// Keys used by the old localStorage backend, imported once and then removed
+const LEGACY_ACTIVITY_RECORDS_KEY = 'health_activity_records';
+const LEGACY_DAILY_STATS_KEY = 'health_daily_stats';
+const LEGACY_VERSION_KEY = 'health_storage_version';
+const LEGACY_STEP_COUNTS_KEY = 'health_step_counts';
+const LEGACY_IMPORT_FLAG = 'legacy_local_storage_imported';
+
+// Booleans are not valid IndexedDB keys, so isOpen is stored as 0/1 to make it indexable
+type StoredActivity = Omit<ActivityRecord, 'isOpen'> & { isOpen: 0 | 1 };
+
+const toStoredActivity = (record: Omit<ActivityRecord, 'id'> & { id?: number }): StoredActivity => {
+  const stored: StoredActivity = { ...record, isOpen: record.isOpen ? 1 : 0 };
+  if (stored.id === undefined) {
+    delete stored.id; // Let the store assign the key
+  }
+  return stored;
+};
+
+const toActivityRecord = (stored: StoredActivity): ActivityRecord => ({ ...stored, isOpen: stored.isOpen === 1 });
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const isQuotaExceededError = (error: any): boolean =>
+  !!error && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// Web backend with indexed lookups by timestamp and date. Every write touches only the
+// affected records, unlike the localStorage backend which re-serializes everything.
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  readonly name = 'indexedDB';
+  private db: IDBDatabase | null = null;
+  private requestedPersistence = false;
+
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async open() {
+    this.db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = (event) => this.upgrade(request.result, request.transaction!, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => console.warn('IndexedDB upgrade blocked by another open tab');
+    });
+
+    // Another tab upgraded the schema; release our connection so it is not blocked
+    this.db.onversionchange = () => {
+      this.db?.close();
+      this.db = null;
+    };
+
+    const rebuildDailyStats = await this.importLegacyLocalStorage();
+    console.log('IndexedDB storage initialized');
+    return { rebuildDailyStats };
+  }
+
+  // Versioned schema upgrades; each case falls through to the next so any old version reaches the latest
+  private upgrade(db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) {
+    switch (oldVersion) {
+      case 0: {
+        const activities = db.createObjectStore(ACTIVITY_STORE, { keyPath: 'id', autoIncrement: true });
+        activities.createIndex('timestamp', 'timestamp');
+        activities.createIndex('date', 'date');
+        activities.createIndex('isOpen', 'isOpen');
+        db.createObjectStore(DAILY_STATS_STORE, { keyPath: 'date' });
+        db.createObjectStore(META_STORE);
+      }
+      // falls through
+      case 1:
+        db.createObjectStore(SETTINGS_STORE);
+      // falls through
+      case 2: {
+        const stepCounts = db.createObjectStore(STEP_COUNTS_STORE, { keyPath: ['date', 'source'] });
+        // Every step stored so far was estimated from activity minutes
+        transaction.objectStore(DAILY_STATS_STORE).openCursor().onsuccess = (event) => {
+          const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor) return;
+          const day = cursor.value;
+          if (day.steps > 0) {
+            stepCounts.put({ date: day.date, source: 'estimate', steps: day.steps });
+          }
+          cursor.update({ ...day, stepSource: day.steps > 0 ? 'estimate' : null });
+          cursor.continue();
+        };
+      }
+      // falls through
+      default:
+        break;
+    }
+  }
+
+  async close() {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+
+  private get database(): IDBDatabase {
+    if (!this.db) {
+      throw new Error('IndexedDB storage is not open');
+    }
+    return this.db;
+  }
+
+  // Runs fn inside one IndexedDB transaction and resolves once it has committed
+  private async runTransaction<T>(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    fn: (transaction: IDBTransaction) => Promise<T> | T
+  ): Promise<T> {
+    const attempt = () => new Promise<T>((resolve, reject) => {
+      const transaction = this.database.transaction(storeNames, mode);
+      let result: T;
+
+      transaction.oncomplete = () => resolve(result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+
+      Promise.resolve(fn(transaction))
+        .then(value => {
+          result = value;
+        })
+        .catch(error => {
+          try {
+            transaction.abort();
+          } catch {
+            // Already committed or aborted
+          }
+          reject(error);
+        });
+    });
+
+    try {
+      return await attempt();
+    } catch (error) {
+      if (!isQuotaExceededError(error)) {
+        throw error;
+      }
+      return this.handleQuotaExceeded(error, attempt);
+    }
+  }
+
+  // Browsers may grant more space once storage is marked persistent; retry once after asking
+  private async handleQuotaExceeded<T>(error: any, retry: () => Promise<T>): Promise<T> {
+    if (!this.requestedPersistence && typeof navigator !== 'undefined' && navigator.storage?.persist) {
+      this.requestedPersistence = true;
+      const persisted = await navigator.storage.persist().catch(() => false);
+      if (persisted) {
+        return retry();
+      }
+    }
+
+    console.error('Web storage quota exceeded, health data could not be saved:', error);
+    throw error;
+  }
+
+  // IndexedDB transactions commit as soon as they have no pending requests, so they cannot
+  // stay open across arbitrary awaits. Each write is committed on its own instead.
+  async transaction(task: () => Promise<void>) {
+    await task();
+  }
+
+  async insertActivity(record: Omit<ActivityRecord, 'id'>): Promise<number> {
+    return this.runTransaction([ACTIVITY_STORE], 'readwrite', async (transaction) => {
+      const key = await requestToPromise(transaction.objectStore(ACTIVITY_STORE).add(toStoredActivity(record)));
+      return key as number;
+    });
+  }
+
+  async updateActivity(id: number, changes: Partial<Omit<ActivityRecord, 'id'>>) {
+    await this.runTransaction([ACTIVITY_STORE], 'readwrite', async (transaction) => {
+      const store = transaction.objectStore(ACTIVITY_STORE);
+      const stored: StoredActivity | undefined = await requestToPromise(store.get(id));
+      if (!stored) return;
+
+      const updated = { ...toActivityRecord(stored) };
+      Object.keys(changes).forEach(key => {
+        const value = changes[key as keyof typeof changes];
+        if (value !== undefined) {
+          (updated as any)[key] = value;
+        }
+      });
+      await requestToPromise(store.put(toStoredActivity(updated)));
+    });
+  }
+
+  async getActivity(id: number): Promise<ActivityRecord | null> {
+    return this.runTransaction([ACTIVITY_STORE], 'readonly', async (transaction) => {
+      const stored: StoredActivity | undefined = await requestToPromise(
+        transaction.objectStore(ACTIVITY_STORE).get(id)
+      );
+      return stored ? toActivityRecord(stored) : null;
+    });
+  }
+
+  async queryActivities({ fromTime, toTime, types, isOpen, before, limit }: ActivityFilter): Promise<ActivityRecord[]> {
+    const matches = (record: StoredActivity) =>
+      (fromTime === undefined || record.timestamp >= fromTime) &&
+      (toTime === undefined || record.timestamp < toTime) &&
+      (!types || types.length === 0 || types.includes(record.activity)) &&
+      (!before ||
+        record.timestamp < before.timestamp ||
+        (record.timestamp === before.timestamp && (record.id ?? 0) < before.id));
+
+    return this.runTransaction([ACTIVITY_STORE], 'readonly', async (transaction) => {
+      const store = transaction.objectStore(ACTIVITY_STORE);
+
+      if (isOpen !== undefined) {
+        // Open sessions are rare, so the isOpen index is the cheapest lookup; sort afterwards
+        const stored: StoredActivity[] = await requestToPromise(store.index('isOpen').getAll(isOpen ? 1 : 0));
+        const results = stored
+          .filter(matches)
+          .sort((a, b) => b.timestamp - a.timestamp || (b.id ?? 0) - (a.id ?? 0))
+          .map(toActivityRecord);
+        return limit !== undefined ? results.slice(0, limit) : results;
+      }
+
+      // Walk the timestamp index newest first; ties come back in descending id order
+      const lower = fromTime !== undefined && Number.isFinite(fromTime) ? fromTime : undefined;
+      let upper = toTime !== undefined && Number.isFinite(toTime) ? toTime : undefined;
+      let upperOpen = true;
+      if (before && (upper === undefined || before.timestamp < upper)) {
+        upper = before.timestamp;
+        upperOpen = false;
+      }
+
+      let range: IDBKeyRange | undefined;
+      if (lower !== undefined && upper !== undefined) {
+        if (lower > upper) return [];
+        range = IDBKeyRange.bound(lower, upper, false, upperOpen);
+      } else if (lower !== undefined) {
+        range = IDBKeyRange.lowerBound(lower);
+      } else if (upper !== undefined) {
+        range = IDBKeyRange.upperBound(upper, upperOpen);
+      }
+
+      const results: ActivityRecord[] = [];
+      await new Promise<void>((resolve, reject) => {
+        const request = store.index('timestamp').openCursor(range, 'prev');
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor || (limit !== undefined && results.length >= limit)) {
+            resolve();
+            return;
+          }
+          const record = cursor.value as StoredActivity;
+          if (matches(record)) {
+            results.push(toActivityRecord(record));
+          }
+          cursor.continue();
+        };
+      });
+      return results;
+    });
+  }
+
+  async getDailyStats(fromDate: string, toDate: string): Promise<DailyStats[]> {
+    if (fromDate > toDate) return [];
+
+    return this.runTransaction([DAILY_STATS_STORE], 'readonly', async (transaction) => {
+      const rows: DailyStats[] = await requestToPromise(
+        transaction.objectStore(DAILY_STATS_STORE).getAll(IDBKeyRange.bound(fromDate, toDate))
+      );
+      return rows; // Keys are ISO dates, so key order is date order
+    });
+  }
+
+  private async getDay(store: IDBObjectStore, date: string): Promise<DailyStats> {
+    return (await requestToPromise(store.get(date))) ||
+      { date, steps: 0, calories: 0, activeMinutes: 0, sleepHours: 0, stepSource: null };
+  }
+
+  async addToDailyStats(date: string, delta: Omit<HealthStats, 'steps'>) {
+    await this.runTransaction([DAILY_STATS_STORE], 'readwrite', async (transaction) => {
+      const store = transaction.objectStore(DAILY_STATS_STORE);
+      const day = await this.getDay(store, date);
+
+      await requestToPromise(store.put({
+        ...day,
+        calories: day.calories + delta.calories,
+        activeMinutes: day.activeMinutes + delta.activeMinutes,
+        sleepHours: day.sleepHours + delta.sleepHours,
+      }));
+    });
+  }
+
+  async setDailySteps(date: string, steps: number, source: StepSource | null) {
+    await this.runTransaction([DAILY_STATS_STORE], 'readwrite', async (transaction) => {
+      const store = transaction.objectStore(DAILY_STATS_STORE);
+      const day = await this.getDay(store, date);
+      await requestToPromise(store.put({ ...day, steps, stepSource: source }));
+    });
+  }
+
+  async replaceAllDailyStats(stats: DailyStats[]) {
+    await this.runTransaction([DAILY_STATS_STORE], 'readwrite', (transaction) => {
+      const store = transaction.objectStore(DAILY_STATS_STORE);
+      store.clear();
+      stats.forEach(day => store.put(day));
+    });
+  }
+
+  async getStepCounts(fromDate: string, toDate: string): Promise<StepCount[]> {
+    if (fromDate > toDate) return [];
+
+    return this.runTransaction([STEP_COUNTS_STORE], 'readonly', (transaction) =>
+      // Arrays sort after strings, so [toDate, []] is above every [toDate, source] key
+      requestToPromise(transaction.objectStore(STEP_COUNTS_STORE).getAll(
+        IDBKeyRange.bound([fromDate], [toDate, []])
+      ))
+    );
+  }
+
+  async addStepCount(date: string, source: StepSource, steps: number) {
+    await this.runTransaction([STEP_COUNTS_STORE], 'readwrite', async (transaction) => {
+      const store = transaction.objectStore(STEP_COUNTS_STORE);
+      const existing: StepCount | undefined = await requestToPromise(store.get([date, source]));
+      await requestToPromise(store.put({ date, source, steps: (existing?.steps ?? 0) + steps }));
+    });
+  }
+
+  async replaceStepCounts(source: StepSource, counts: StepCount[]) {
+    await this.runTransaction([STEP_COUNTS_STORE], 'readwrite', async (transaction) => {
+      const store = transaction.objectStore(STEP_COUNTS_STORE);
+      const existing: StepCount[] = await requestToPromise(store.getAll());
+      existing
+        .filter(count => count.source === source)
+        .forEach(count => store.delete([count.date, count.source]));
+      counts.forEach(({ date, steps }) => store.put({ date, source, steps }));
+    });
+  }
+
+  async getSettings(): Promise<{ [key: string]: any }> {
+    return this.runTransaction([SETTINGS_STORE], 'readonly', async (transaction) => {
+      const store = transaction.objectStore(SETTINGS_STORE);
+      const [keys, values] = await Promise.all([
+        requestToPromise(store.getAllKeys()),
+        requestToPromise(store.getAll()),
+      ]);
+      const settings: { [key: string]: any } = {};
+      keys.forEach((key, index) => {
+        settings[String(key)] = values[index];
+      });
+      return settings;
+    });
+  }
+
+  async setSetting(key: string, value: any) {
+    await this.runTransaction([SETTINGS_STORE], 'readwrite', (transaction) => {
+      transaction.objectStore(SETTINGS_STORE).put(value, key);
+    });
+  }
+
+  async clear() {
+    await this.runTransaction([ACTIVITY_STORE, DAILY_STATS_STORE, STEP_COUNTS_STORE], 'readwrite', (transaction) => {
+      transaction.objectStore(ACTIVITY_STORE).clear();
+      transaction.objectStore(DAILY_STATS_STORE).clear();
+      transaction.objectStore(STEP_COUNTS_STORE).clear();
+    });
+  }
+
+  // Moves data from the old localStorage backend into IndexedDB once. The localStorage keys are
+  // only removed after the import transaction has committed, so a failed import is retried next launch.
+  private async importLegacyLocalStorage(): Promise<boolean> {
+    const alreadyImported = await this.runTransaction([META_STORE], 'readonly', (transaction) =>
+      requestToPromise(transaction.objectStore(META_STORE).get(LEGACY_IMPORT_FLAG))
+    );
+    if (alreadyImported || typeof localStorage === 'undefined') {
+      return false;
+    }
+
+    const activityRecords = localStorage.getItem(LEGACY_ACTIVITY_RECORDS_KEY);
+    const dailyStats = localStorage.getItem(LEGACY_DAILY_STATS_KEY);
+    const stepCounts = localStorage.getItem(LEGACY_STEP_COUNTS_KEY);
+    const storedVersion = parseInt(localStorage.getItem(LEGACY_VERSION_KEY) || '0', 10) || 0;
+
+    let data: WebStorageData = { activity_records: [], daily_stats: {} };
+    let rebuildDailyStats = false;
+    if (activityRecords || dailyStats) {
+      ({ data, rebuildDailyStats } = migrateWebStorageData(
+        {
+          activity_records: activityRecords ? JSON.parse(activityRecords) : [],
+          daily_stats: dailyStats ? JSON.parse(dailyStats) : {},
+          step_counts: stepCounts ? JSON.parse(stepCounts) : {},
+        },
+        storedVersion
+      ));
+    }
+
+    const stores = [ACTIVITY_STORE, DAILY_STATS_STORE, STEP_COUNTS_STORE, META_STORE];
+    await this.runTransaction(stores, 'readwrite', (transaction) => {
+      const activities = transaction.objectStore(ACTIVITY_STORE);
+      data.activity_records.forEach((record: any) => activities.put(toStoredActivity({
+        id: record.id,
+        activity: record.activity,
+        timestamp: record.timestamp,
+        endTimestamp: record.end_timestamp,
+        duration: record.duration,
+        date: record.date,
+        utcOffset: record.utc_offset ?? null,
+        isOpen: !!record.is_open,
+      })));
+
+      const days = transaction.objectStore(DAILY_STATS_STORE);
+      Object.keys(data.daily_stats).forEach(date => {
+        const day = data.daily_stats[date];
+        days.put({
+          date,
+          steps: day.steps || 0,
+          calories: day.calories || 0,
+          activeMinutes: day.active_minutes || 0,
+          sleepHours: day.sleep_hours || 0,
+          stepSource: day.step_source ?? null,
+        });
+      });
+
+      const stepCounts = transaction.objectStore(STEP_COUNTS_STORE);
+      Object.keys(data.step_counts ?? {}).forEach(date => {
+        const sources = data.step_counts![date];
+        Object.keys(sources).forEach(source => stepCounts.put({ date, source, steps: sources[source] }));
+      });
+
+      transaction.objectStore(META_STORE).put(Date.now(), LEGACY_IMPORT_FLAG);
+    });
+
+    localStorage.removeItem(LEGACY_ACTIVITY_RECORDS_KEY);
+    localStorage.removeItem(LEGACY_DAILY_STATS_KEY);
+    localStorage.removeItem(LEGACY_STEP_COUNTS_KEY);
+    localStorage.removeItem(LEGACY_VERSION_KEY);
+
+    if (data.activity_records.length > 0) {
+      console.log(`Imported ${data.activity_records.length} activity records from localStorage`);
+    }
+    return rebuildDailyStats;
+  }
+}
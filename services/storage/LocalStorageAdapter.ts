@@ -0,0 +1,107 @@
+import { MemoryStorageAdapter } from './MemoryStorageAdapter';
+import { migrateWebStorageData, WebStorageData } from './migrations';
+import { ActivityRecord } from './StorageAdapter';
+
+const ACTIVITY_RECORDS_KEY = 'health_activity_records';
+const DAILY_STATS_KEY = 'health_daily_stats';
+const VERSION_KEY = 'health_storage_version';
+const SETTINGS_KEY = 'health_settings';
+const STEP_COUNTS_KEY = 'health_step_counts';
+
+// In-memory store mirrored to localStorage. The stored format keeps the snake_case
+// field names of the original web fallback so existing data stays readable.
+export class LocalStorageAdapter extends MemoryStorageAdapter {
+  readonly name: string = 'localStorage';
+
+  static isAvailable(): boolean {
+    return typeof localStorage !== 'undefined';
+  }
+
+  async open() {
+    const activityRecords = localStorage.getItem(ACTIVITY_RECORDS_KEY);
+    const dailyStats = localStorage.getItem(DAILY_STATS_KEY);
+    const stepCounts = localStorage.getItem(STEP_COUNTS_KEY);
+    const storedVersion = parseInt(localStorage.getItem(VERSION_KEY) || '0', 10) || 0;
+
+    const stored: WebStorageData = {
+      activity_records: activityRecords ? JSON.parse(activityRecords) : [],
+      daily_stats: dailyStats ? JSON.parse(dailyStats) : {},
+      step_counts: stepCounts ? JSON.parse(stepCounts) : {},
+    };
+
+    // Upgrade data written by older app versions before using it
+    const { data, version, rebuildDailyStats } = migrateWebStorageData(stored, storedVersion);
+    this.load(data);
+
+    const settings = localStorage.getItem(SETTINGS_KEY);
+    this.settings = settings ? JSON.parse(settings) : {};
+
+    if (version !== storedVersion) {
+      this.persist();
+      localStorage.setItem(VERSION_KEY, String(version));
+    }
+
+    console.log('Web storage initialized');
+    return { rebuildDailyStats };
+  }
+
+  private load(data: WebStorageData) {
+    this.activityRecords = data.activity_records.map((record: any): ActivityRecord => ({
+      id: record.id,
+      activity: record.activity,
+      timestamp: record.timestamp,
+      endTimestamp: record.end_timestamp,
+      duration: record.duration,
+      date: record.date,
+      utcOffset: record.utc_offset ?? null,
+      isOpen: !!record.is_open,
+    }));
+    this.lastId = this.activityRecords.reduce((max, record) => Math.max(max, record.id ?? 0), 0);
+
+    this.dailyStats = {};
+    Object.keys(data.daily_stats).forEach(date => {
+      const day = data.daily_stats[date];
+      this.dailyStats[date] = {
+        steps: day.steps || 0,
+        calories: day.calories || 0,
+        activeMinutes: day.active_minutes || 0,
+        sleepHours: day.sleep_hours || 0,
+        stepSource: day.step_source ?? null,
+      };
+    });
+    this.stepCounts = data.step_counts ?? {};
+  }
+
+  protected persist() {
+    try {
+      const activityRecords = this.activityRecords.map(record => ({
+        id: record.id,
+        activity: record.activity,
+        timestamp: record.timestamp,
+        end_timestamp: record.endTimestamp,
+        duration: record.duration,
+        date: record.date,
+        utc_offset: record.utcOffset,
+        is_open: record.isOpen,
+      }));
+      const dailyStats: { [date: string]: any } = {};
+      Object.keys(this.dailyStats).forEach(date => {
+        const day = this.dailyStats[date];
+        dailyStats[date] = {
+          steps: day.steps,
+          calories: day.calories,
+          active_minutes: day.activeMinutes,
+          sleep_hours: day.sleepHours,
+          step_source: day.stepSource,
+        };
+      });
+
+      localStorage.setItem(ACTIVITY_RECORDS_KEY, JSON.stringify(activityRecords));
+      localStorage.setItem(DAILY_STATS_KEY, JSON.stringify(dailyStats));
+      localStorage.setItem(STEP_COUNTS_KEY, JSON.stringify(this.stepCounts));
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.error('Error saving to web storage:', error);
+    }
+  }
+}
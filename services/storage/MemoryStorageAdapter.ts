@@ -0,0 +1,187 @@
+import {
+  ActivityFilter,
+  ActivityRecord,
+  DailyStats,
+  HealthStats,
+  StepCount,
+  StepSource,
+  StorageAdapter,
+} from './StorageAdapter';
+
+type StoredDailyStats = Omit<DailyStats, 'date'>;
+
+// Keeps everything in memory. Used directly in tests and as the base for the web storage adapter.
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly name: string = 'memory';
+  protected activityRecords: ActivityRecord[] = [];
+  protected dailyStats: { [date: string]: StoredDailyStats } = {};
+  protected stepCounts: { [date: string]: { [source: string]: number } } = {};
+  protected settings: { [key: string]: any } = {};
+  protected lastId = 0;
+  private transactionDepth = 0;
+
+  async open() {
+    return { rebuildDailyStats: false };
+  }
+
+  async close() {}
+
+  async transaction(task: () => Promise<void>) {
+    const snapshot = {
+      activityRecords: this.activityRecords.map(record => ({ ...record })),
+      dailyStats: JSON.parse(JSON.stringify(this.dailyStats)),
+      stepCounts: JSON.parse(JSON.stringify(this.stepCounts)),
+      settings: JSON.parse(JSON.stringify(this.settings)),
+      lastId: this.lastId,
+    };
+
+    this.transactionDepth++;
+    try {
+      await task();
+    } catch (error) {
+      // Roll back to the state before the transaction
+      this.activityRecords = snapshot.activityRecords;
+      this.dailyStats = snapshot.dailyStats;
+      this.stepCounts = snapshot.stepCounts;
+      this.settings = snapshot.settings;
+      this.lastId = snapshot.lastId;
+      throw error;
+    } finally {
+      this.transactionDepth--;
+    }
+
+    this.changed();
+  }
+
+  // Called after every write; persistent subclasses save here. Writes inside a transaction are saved once at the end.
+  protected changed() {
+    if (this.transactionDepth === 0) {
+      this.persist();
+    }
+  }
+
+  protected persist() {}
+
+  async insertActivity(record: Omit<ActivityRecord, 'id'>): Promise<number> {
+    const id = ++this.lastId;
+    this.activityRecords.push({ ...record, id });
+    this.changed();
+    return id;
+  }
+
+  async updateActivity(id: number, changes: Partial<Omit<ActivityRecord, 'id'>>) {
+    const record = this.activityRecords.find(r => r.id === id);
+    if (!record) return;
+
+    Object.keys(changes).forEach(key => {
+      const value = changes[key as keyof typeof changes];
+      if (value !== undefined) {
+        (record as any)[key] = value;
+      }
+    });
+    this.changed();
+  }
+
+  async getActivity(id: number): Promise<ActivityRecord | null> {
+    const record = this.activityRecords.find(r => r.id === id);
+    return record ? { ...record } : null;
+  }
+
+  async queryActivities({ fromTime, toTime, types, isOpen, before, limit }: ActivityFilter): Promise<ActivityRecord[]> {
+    const results = this.activityRecords
+      .filter(record =>
+        (fromTime === undefined || record.timestamp >= fromTime) &&
+        (toTime === undefined || record.timestamp < toTime) &&
+        (!types || types.length === 0 || types.includes(record.activity)) &&
+        (isOpen === undefined || record.isOpen === isOpen) &&
+        (!before ||
+          record.timestamp < before.timestamp ||
+          (record.timestamp === before.timestamp && (record.id ?? 0) < before.id))
+      )
+      .sort((a, b) => b.timestamp - a.timestamp || (b.id ?? 0) - (a.id ?? 0))
+      .map(record => ({ ...record }));
+
+    return limit !== undefined ? results.slice(0, limit) : results;
+  }
+
+  async getDailyStats(fromDate: string, toDate: string): Promise<DailyStats[]> {
+    return Object.keys(this.dailyStats)
+      .filter(date => date >= fromDate && date <= toDate)
+      .sort()
+      .map(date => ({ date, ...this.dailyStats[date] }));
+  }
+
+  private getDay(date: string): StoredDailyStats {
+    return this.dailyStats[date] || { steps: 0, calories: 0, activeMinutes: 0, sleepHours: 0, stepSource: null };
+  }
+
+  async addToDailyStats(date: string, delta: Omit<HealthStats, 'steps'>) {
+    const day = this.getDay(date);
+    this.dailyStats[date] = {
+      ...day,
+      calories: day.calories + delta.calories,
+      activeMinutes: day.activeMinutes + delta.activeMinutes,
+      sleepHours: day.sleepHours + delta.sleepHours,
+    };
+    this.changed();
+  }
+
+  async setDailySteps(date: string, steps: number, source: StepSource | null) {
+    this.dailyStats[date] = { ...this.getDay(date), steps, stepSource: source };
+    this.changed();
+  }
+
+  async replaceAllDailyStats(stats: DailyStats[]) {
+    this.dailyStats = {};
+    stats.forEach(({ date, ...day }) => {
+      this.dailyStats[date] = day;
+    });
+    this.changed();
+  }
+
+  async getStepCounts(fromDate: string, toDate: string): Promise<StepCount[]> {
+    const counts: StepCount[] = [];
+    Object.keys(this.stepCounts)
+      .filter(date => date >= fromDate && date <= toDate)
+      .sort()
+      .forEach(date => {
+        Object.keys(this.stepCounts[date]).forEach(source => {
+          counts.push({ date, source: source as StepSource, steps: this.stepCounts[date][source] });
+        });
+      });
+    return counts;
+  }
+
+  async addStepCount(date: string, source: StepSource, steps: number) {
+    const day = this.stepCounts[date] || {};
+    this.stepCounts[date] = { ...day, [source]: (day[source] || 0) + steps };
+    this.changed();
+  }
+
+  async replaceStepCounts(source: StepSource, counts: StepCount[]) {
+    Object.keys(this.stepCounts).forEach(date => {
+      delete this.stepCounts[date][source];
+    });
+    counts.forEach(({ date, steps }) => {
+      this.stepCounts[date] = { ...this.stepCounts[date], [source]: steps };
+    });
+    this.changed();
+  }
+
+  async getSettings(): Promise<{ [key: string]: any }> {
+    return JSON.parse(JSON.stringify(this.settings));
+  }
+
+  async setSetting(key: string, value: any) {
+    // Round-trip through JSON so stored values behave like the persistent backends
+    this.settings[key] = JSON.parse(JSON.stringify(value));
+    this.changed();
+  }
+
+  async clear() {
+    this.activityRecords = [];
+    this.dailyStats = {};
+    this.stepCounts = {};
+    this.changed();
+  }
+}
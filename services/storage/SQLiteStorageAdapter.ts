@@ -0,0 +1,248 @@
+import * as SQLite from 'expo-sqlite';
+import { migrateSQLiteDatabase } from './migrations';
+import {
+  ActivityFilter,
+  ActivityRecord,
+  DailyStats,
+  HealthStats,
+  StepCount,
+  StepSource,
+  StorageAdapter,
+} from './StorageAdapter';
+
+// Maps ActivityRecord fields to activity_records columns
+const ACTIVITY_COLUMNS: { [key in keyof Omit<ActivityRecord, 'id'>]: string } = {
+  activity: 'activity',
+  timestamp: 'timestamp',
+  endTimestamp: 'end_timestamp',
+  duration: 'duration',
+  date: 'date',
+  utcOffset: 'utc_offset',
+  isOpen: 'is_open',
+};
+
+const toActivityRecord = (row: any): ActivityRecord => ({
+  id: row.id,
+  activity: row.activity,
+  timestamp: row.timestamp,
+  endTimestamp: row.end_timestamp,
+  duration: row.duration,
+  date: row.date,
+  utcOffset: row.utc_offset ?? null,
+  isOpen: row.is_open === 1,
+});
+
+const toColumnValue = (value: any): string | number | null =>
+  typeof value === 'boolean' ? (value ? 1 : 0) : value ?? null;
+
+export class SQLiteStorageAdapter implements StorageAdapter {
+  readonly name = 'sqlite';
+  private db: SQLite.SQLiteDatabase | null = null;
+
+  constructor(private readonly databaseName: string = 'health_tracker.db') {}
+
+  async open() {
+    this.db = await SQLite.openDatabaseAsync(this.databaseName);
+
+    // Bring the schema up to date before anything reads or writes
+    const { version, rebuildDailyStats } = await migrateSQLiteDatabase(this.db);
+    console.log('Database schema version:', version);
+
+    return { rebuildDailyStats };
+  }
+
+  async close() {
+    if (this.db) {
+      await this.db.closeAsync();
+      this.db = null;
+    }
+  }
+
+  private get database(): SQLite.SQLiteDatabase {
+    if (!this.db) {
+      throw new Error('SQLite storage is not open');
+    }
+    return this.db;
+  }
+
+  // Not exclusive: other queries on the connection can run in the middle of the transaction.
+  // withExclusiveTransactionAsync would need every statement in it to go through its own
+  // connection object, so HealthDataService instead queues its writes one at a time.
+  async transaction(task: () => Promise<void>) {
+    await this.database.withTransactionAsync(task);
+  }
+
+  async insertActivity(record: Omit<ActivityRecord, 'id'>): Promise<number> {
+    const keys = Object.keys(ACTIVITY_COLUMNS) as (keyof typeof ACTIVITY_COLUMNS)[];
+    const result = await this.database.runAsync(
+      `INSERT INTO activity_records (${keys.map(key => ACTIVITY_COLUMNS[key]).join(', ')})
+       VALUES (${keys.map(() => '?').join(', ')})`,
+      keys.map(key => toColumnValue(record[key]))
+    );
+    return result.lastInsertRowId;
+  }
+
+  async updateActivity(id: number, changes: Partial<Omit<ActivityRecord, 'id'>>) {
+    const keys = (Object.keys(changes) as (keyof typeof ACTIVITY_COLUMNS)[])
+      .filter(key => ACTIVITY_COLUMNS[key] && changes[key] !== undefined);
+    if (keys.length === 0) return;
+
+    await this.database.runAsync(
+      `UPDATE activity_records SET ${keys.map(key => `${ACTIVITY_COLUMNS[key]} = ?`).join(', ')} WHERE id = ?`,
+      [...keys.map(key => toColumnValue(changes[key])), id]
+    );
+  }
+
+  async getActivity(id: number): Promise<ActivityRecord | null> {
+    const row = await this.database.getFirstAsync('SELECT * FROM activity_records WHERE id = ?', [id]);
+    return row ? toActivityRecord(row) : null;
+  }
+
+  async queryActivities({ fromTime, toTime, types, isOpen, before, limit }: ActivityFilter): Promise<ActivityRecord[]> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (fromTime !== undefined && Number.isFinite(fromTime)) {
+      conditions.push('timestamp >= ?');
+      params.push(fromTime);
+    }
+    if (toTime !== undefined && Number.isFinite(toTime)) {
+      conditions.push('timestamp < ?');
+      params.push(toTime);
+    }
+    if (types && types.length > 0) {
+      conditions.push(`activity IN (${types.map(() => '?').join(', ')})`);
+      params.push(...types);
+    }
+    if (isOpen !== undefined) {
+      conditions.push('is_open = ?');
+      params.push(isOpen ? 1 : 0);
+    }
+    if (before) {
+      conditions.push('(timestamp < ? OR (timestamp = ? AND id < ?))');
+      params.push(before.timestamp, before.timestamp, before.id);
+    }
+    if (limit !== undefined) {
+      params.push(limit);
+    }
+
+    const rows = await this.database.getAllAsync(
+      `SELECT * FROM activity_records
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       ORDER BY timestamp DESC, id DESC
+       ${limit !== undefined ? 'LIMIT ?' : ''}`,
+      params
+    );
+    return rows.map(toActivityRecord);
+  }
+
+  async getDailyStats(fromDate: string, toDate: string): Promise<DailyStats[]> {
+    const rows = await this.database.getAllAsync(
+      `SELECT date, steps, calories, active_minutes, sleep_hours, step_source
+       FROM daily_stats
+       WHERE date >= ? AND date <= ?
+       ORDER BY date ASC`,
+      [fromDate, toDate]
+    ) as any[];
+
+    return rows.map(row => ({
+      date: row.date,
+      steps: row.steps || 0,
+      calories: row.calories || 0,
+      activeMinutes: row.active_minutes || 0,
+      sleepHours: row.sleep_hours || 0,
+      stepSource: row.step_source ?? null,
+    }));
+  }
+
+  async addToDailyStats(date: string, delta: Omit<HealthStats, 'steps'>) {
+    // Ensure daily stats record exists
+    await this.database.runAsync('INSERT OR IGNORE INTO daily_stats (date) VALUES (?)', [date]);
+    await this.database.runAsync(
+      `UPDATE daily_stats SET
+         calories = calories + ?,
+         active_minutes = active_minutes + ?,
+         sleep_hours = sleep_hours + ?
+       WHERE date = ?`,
+      [delta.calories, delta.activeMinutes, delta.sleepHours, date]
+    );
+  }
+
+  async setDailySteps(date: string, steps: number, source: StepSource | null) {
+    await this.database.runAsync('INSERT OR IGNORE INTO daily_stats (date) VALUES (?)', [date]);
+    await this.database.runAsync(
+      'UPDATE daily_stats SET steps = ?, step_source = ? WHERE date = ?',
+      [steps, source, date]
+    );
+  }
+
+  async replaceAllDailyStats(stats: DailyStats[]) {
+    const db = this.database;
+    await db.withTransactionAsync(async () => {
+      await db.execAsync('DELETE FROM daily_stats');
+      for (const day of stats) {
+        await db.runAsync(
+          `INSERT INTO daily_stats (date, steps, calories, active_minutes, sleep_hours, step_source)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          [day.date, day.steps, day.calories, day.activeMinutes, day.sleepHours, day.stepSource]
+        );
+      }
+    });
+  }
+
+  async getStepCounts(fromDate: string, toDate: string): Promise<StepCount[]> {
+    return await this.database.getAllAsync(
+      `SELECT date, source, steps FROM step_counts
+       WHERE date >= ? AND date <= ?
+       ORDER BY date ASC`,
+      [fromDate, toDate]
+    ) as StepCount[];
+  }
+
+  async addStepCount(date: string, source: StepSource, steps: number) {
+    await this.database.runAsync(
+      `INSERT INTO step_counts (date, source, steps) VALUES (?, ?, ?)
+       ON CONFLICT (date, source) DO UPDATE SET steps = steps + excluded.steps`,
+      [date, source, steps]
+    );
+  }
+
+  async replaceStepCounts(source: StepSource, counts: StepCount[]) {
+    const db = this.database;
+    await db.withTransactionAsync(async () => {
+      await db.runAsync('DELETE FROM step_counts WHERE source = ?', [source]);
+      for (const count of counts) {
+        await db.runAsync(
+          'INSERT INTO step_counts (date, source, steps) VALUES (?, ?, ?)',
+          [count.date, source, count.steps]
+        );
+      }
+    });
+  }
+
+  async getSettings(): Promise<{ [key: string]: any }> {
+    const rows = await this.database.getAllAsync('SELECT key, value FROM settings') as any[];
+    const settings: { [key: string]: any } = {};
+    rows.forEach(row => {
+      try {
+        settings[row.key] = JSON.parse(row.value);
+      } catch (error) {
+        console.warn(`Ignoring unreadable setting ${row.key}:`, error);
+      }
+    });
+    return settings;
+  }
+
+  async setSetting(key: string, value: any) {
+    await this.database.runAsync(
+      'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)',
+      [key, JSON.stringify(value)]
+    );
+  }
+
+  async clear() {
+    await this.database.execAsync('DELETE FROM activity_records');
+    await this.database.execAsync('DELETE FROM daily_stats');
+    await this.database.execAsync('DELETE FROM step_counts');
+  }
+}
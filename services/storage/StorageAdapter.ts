@@ -0,0 +1,80 @@
+// Storage backend contract for HealthDataService.
+// Adapters only store and fetch rows; all aggregation and session logic lives in HealthDataService.
+
+export interface HealthStats {
+  steps: number;
+  calories: number;
+  activeMinutes: number;
+  sleepHours: number;
+}
+
+// Where a day's step total came from. Measured counts always win over the per-minute estimate.
+export type MeasuredStepSource = 'pedometer' | 'accelerometer';
+export type StepSource = MeasuredStepSource | 'estimate';
+
+export interface DailyStats extends HealthStats {
+  date: string; // YYYY-MM-DD local calendar day
+  stepSource: StepSource | null; // null when the day has no steps from any source
+}
+
+// Steps per local day and source, kept separately so the day total can be re-resolved
+export interface StepCount {
+  date: string;
+  source: StepSource;
+  steps: number;
+}
+
+export interface ActivityRecord {
+  id?: number;
+  activity: string;
+  timestamp: number; // session start
+  endTimestamp: number; // session end (last time the activity was seen while open)
+  duration: number; // in minutes
+  date: string; // YYYY-MM-DD local calendar day
+  utcOffset: number | null; // minutes east of UTC when recorded
+  isOpen: boolean;
+}
+
+export interface ActivityFilter {
+  fromTime?: number; // inclusive start timestamp
+  toTime?: number; // exclusive end timestamp
+  types?: string[];
+  isOpen?: boolean;
+  before?: { timestamp: number; id: number }; // keyset position for paging
+  limit?: number;
+}
+
+export interface StorageAdapter {
+  readonly name: string;
+
+  // Opens the backend and applies pending migrations
+  open(): Promise<{ rebuildDailyStats: boolean }>;
+  close(): Promise<void>;
+
+  // Runs several writes as one unit; adapters without transactions at least batch persistence
+  transaction(task: () => Promise<void>): Promise<void>;
+
+  insertActivity(record: Omit<ActivityRecord, 'id'>): Promise<number>;
+  updateActivity(id: number, changes: Partial<Omit<ActivityRecord, 'id'>>): Promise<void>;
+  getActivity(id: number): Promise<ActivityRecord | null>;
+  // Newest first, ordered by timestamp then id
+  queryActivities(filter: ActivityFilter): Promise<ActivityRecord[]>;
+
+  getDailyStats(fromDate: string, toDate: string): Promise<DailyStats[]>;
+  // Adds calories, active minutes and sleep; steps are set through setDailySteps
+  addToDailyStats(date: string, delta: Omit<HealthStats, 'steps'>): Promise<void>;
+  setDailySteps(date: string, steps: number, source: StepSource | null): Promise<void>;
+  replaceAllDailyStats(stats: DailyStats[]): Promise<void>;
+
+  getStepCounts(fromDate: string, toDate: string): Promise<StepCount[]>;
+  addStepCount(date: string, source: StepSource, steps: number): Promise<void>;
+  // Replaces every count of one source, e.g. when estimates are recomputed from sessions
+  replaceStepCounts(source: StepSource, counts: StepCount[]): Promise<void>;
+
+  // Small JSON-serializable values such as goals and preferences
+  getSettings(): Promise<{ [key: string]: any }>;
+  setSetting(key: string, value: any): Promise<void>;
+
+  // Deletes tracking data (activities, daily stats and step counts); settings are kept
+  clear(): Promise<void>;
+}
@@ -0,0 +1,5 @@
+import { SQLiteStorageAdapter } from './SQLiteStorageAdapter';
+import type { StorageAdapter } from './StorageAdapter';
+
+// The storage backend for iOS and Android; see createPlatformAdapter.ts for the web build
+export const createPlatformAdapter = (): StorageAdapter => new SQLiteStorageAdapter();
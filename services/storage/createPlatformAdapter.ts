@@ -0,0 +1,15 @@
+import { IndexedDBStorageAdapter } from './IndexedDBStorageAdapter';
+import { LocalStorageAdapter } from './LocalStorageAdapter';
+import { MemoryStorageAdapter } from './MemoryStorageAdapter';
+import type { StorageAdapter } from './StorageAdapter';
+
+// The storage backend for the web build. iOS and Android resolve createPlatformAdapter.native.ts
+// instead, so this file and HealthDataService stay free of native modules and also load in Node,
+// where neither browser store exists and data is kept in memory.
+export const createPlatformAdapter = (): StorageAdapter => {
+  // IndexedDB rather than SQLite due to wa-sqlite.wasm issues
+  if (IndexedDBStorageAdapter.isAvailable()) {
+    return new IndexedDBStorageAdapter();
+  }
+  return LocalStorageAdapter.isAvailable() ? new LocalStorageAdapter() : new MemoryStorageAdapter();
+};
@@ -0,0 +1,240 @@
+import type * as SQLite from 'expo-sqlite';
+import { getUtcOffsetMinutes, toLocalDateKey } from '../../utils/dateUtils';
+
+// Schema migrations for the HealthDataService storage adapters.
+// Every change to the stored data format gets a new, higher version number here.
+// Never edit a migration that has already shipped - add a new one instead.
+
+export interface SQLiteMigration {
+  version: number;
+  description: string;
+  up: (db: SQLite.SQLiteDatabase) => Promise<void>;
+  // Set when the migration changes how records map onto days, so daily_stats must be recomputed
+  rebuildsDailyStats?: boolean;
+}
+
+export interface WebStorageData {
+  activity_records: any[];
+  daily_stats: { [date: string]: any };
+  step_counts?: { [date: string]: { [source: string]: number } };
+}
+
+export interface WebStorageMigration {
+  version: number;
+  description: string;
+  up: (data: WebStorageData) => WebStorageData;
+  rebuildsDailyStats?: boolean;
+}
+
+export interface MigrationResult {
+  version: number;
+  rebuildDailyStats: boolean;
+}
+
+export const SQLITE_MIGRATIONS: SQLiteMigration[] = [
+  {
+    version: 1,
+    description: 'Create activity_records and daily_stats tables',
+    up: async (db) => {
+      // IF NOT EXISTS keeps this safe for installs created before migrations existed
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS activity_records (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          activity TEXT NOT NULL,
+          timestamp INTEGER NOT NULL,
+          duration INTEGER NOT NULL,
+          date TEXT NOT NULL
+        );
+      `);
+
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS daily_stats (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          date TEXT UNIQUE NOT NULL,
+          steps INTEGER DEFAULT 0,
+          calories INTEGER DEFAULT 0,
+          active_minutes INTEGER DEFAULT 0,
+          sleep_hours REAL DEFAULT 0
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: 'Turn activity_records into sessions with an end timestamp',
+    up: async (db) => {
+      await db.execAsync(`
+        ALTER TABLE activity_records ADD COLUMN end_timestamp INTEGER;
+        ALTER TABLE activity_records ADD COLUMN is_open INTEGER NOT NULL DEFAULT 0;
+        UPDATE activity_records SET end_timestamp = timestamp + duration * 60000 WHERE end_timestamp IS NULL;
+        CREATE INDEX IF NOT EXISTS idx_activity_records_timestamp ON activity_records (timestamp);
+      `);
+    },
+  },
+  {
+    version: 3,
+    description: 'Key records by local calendar day and store their UTC offset',
+    rebuildsDailyStats: true,
+    up: async (db) => {
+      // Older rows were keyed by the UTC date; 'localtime' re-keys them with the device's time zone rules
+      await db.execAsync(`
+        ALTER TABLE activity_records ADD COLUMN utc_offset INTEGER;
+        UPDATE activity_records SET
+          date = date(timestamp / 1000, 'unixepoch', 'localtime'),
+          utc_offset = CAST(ROUND((julianday(timestamp / 1000, 'unixepoch', 'localtime') - julianday(timestamp / 1000, 'unixepoch')) * 1440) AS INTEGER);
+        CREATE INDEX IF NOT EXISTS idx_activity_records_date ON activity_records (date);
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: 'Create settings table for goals and preferences',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY NOT NULL,
+          value TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: 'Track step counts per source and record the source of each day\'s steps',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS step_counts (
+          date TEXT NOT NULL,
+          source TEXT NOT NULL,
+          steps INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (date, source)
+        );
+        ALTER TABLE daily_stats ADD COLUMN step_source TEXT;
+      `);
+      // Every step stored so far was estimated from activity minutes
+      await db.execAsync(`
+        INSERT OR IGNORE INTO step_counts (date, source, steps)
+          SELECT date, 'estimate', steps FROM daily_stats WHERE steps > 0;
+        UPDATE daily_stats SET step_source = 'estimate' WHERE steps > 0;
+      `);
+    },
+  },
+];
+
+export const WEB_STORAGE_MIGRATIONS: WebStorageMigration[] = [
+  {
+    version: 1,
+    description: 'Normalize activity_records and daily_stats containers',
+    up: (data) => ({
+      activity_records: Array.isArray(data.activity_records) ? data.activity_records : [],
+      daily_stats:
+        data.daily_stats && typeof data.daily_stats === 'object' && !Array.isArray(data.daily_stats)
+          ? data.daily_stats
+          : {},
+    }),
+  },
+  {
+    version: 2,
+    description: 'Turn activity_records into sessions with an end timestamp',
+    up: (data) => ({
+      ...data,
+      activity_records: data.activity_records.map(record => ({
+        ...record,
+        end_timestamp: record.end_timestamp ?? record.timestamp + record.duration * 60000,
+        is_open: record.is_open ?? false,
+      })),
+    }),
+  },
+  {
+    version: 3,
+    description: 'Key records by local calendar day and store their UTC offset',
+    rebuildsDailyStats: true,
+    up: (data) => ({
+      ...data,
+      activity_records: data.activity_records.map(record => ({
+        ...record,
+        date: toLocalDateKey(record.timestamp),
+        utc_offset: getUtcOffsetMinutes(record.timestamp),
+      })),
+    }),
+  },
+  {
+    version: 4,
+    description: 'Track step counts per source and record the source of each day\'s steps',
+    up: (data) => {
+      const stepCounts: { [date: string]: { [source: string]: number } } = {};
+      const dailyStats: { [date: string]: any } = {};
+      Object.keys(data.daily_stats).forEach(date => {
+        const day = data.daily_stats[date];
+        // Every step stored so far was estimated from activity minutes
+        if (day.steps > 0) {
+          stepCounts[date] = { estimate: day.steps };
+        }
+        dailyStats[date] = { ...day, step_source: day.steps > 0 ? 'estimate' : null };
+      });
+      return { ...data, daily_stats: dailyStats, step_counts: stepCounts };
+    },
+  },
+];
+
+export const LATEST_SQLITE_VERSION = Math.max(0, ...SQLITE_MIGRATIONS.map(m => m.version));
+export const LATEST_WEB_STORAGE_VERSION = Math.max(0, ...WEB_STORAGE_MIGRATIONS.map(m => m.version));
+
+const getPendingMigrations = <T extends { version: number }>(migrations: T[], currentVersion: number): T[] =>
+  migrations
+    .filter(migration => migration.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+
+// Applies every pending migration in its own transaction and bumps PRAGMA user_version with it,
+// so a failed step rolls back cleanly and is retried on the next launch.
+export async function migrateSQLiteDatabase(
+  db: SQLite.SQLiteDatabase,
+  migrations: SQLiteMigration[] = SQLITE_MIGRATIONS
+): Promise<MigrationResult> {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  let currentVersion = row?.user_version ?? 0;
+  let rebuildDailyStats = false;
+
+  for (const migration of getPendingMigrations(migrations, currentVersion)) {
+    try {
+      await db.withTransactionAsync(async () => {
+        await migration.up(db);
+        // PRAGMA does not accept bound parameters; version is always a number from this file
+        await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+      });
+      currentVersion = migration.version;
+      rebuildDailyStats = rebuildDailyStats || !!migration.rebuildsDailyStats;
+      console.log(`Applied database migration ${migration.version}: ${migration.description}`);
+    } catch (error) {
+      console.error(`Database migration ${migration.version} failed:`, error);
+      throw error;
+    }
+  }
+
+  return { version: currentVersion, rebuildDailyStats };
+}
+
+// Web storage has no transactions, so migrations work on a copy and the caller
+// only persists the result once every step has succeeded.
+export function migrateWebStorageData(
+  data: WebStorageData,
+  currentVersion: number,
+  migrations: WebStorageMigration[] = WEB_STORAGE_MIGRATIONS
+): MigrationResult & { data: WebStorageData } {
+  let migrated: WebStorageData = {
+    activity_records: data.activity_records,
+    daily_stats: data.daily_stats,
+    step_counts: data.step_counts,
+  };
+  let version = currentVersion;
+  let rebuildDailyStats = false;
+
+  for (const migration of getPendingMigrations(migrations, currentVersion)) {
+    migrated = migration.up(migrated);
+    version = migration.version;
+    rebuildDailyStats = rebuildDailyStats || !!migration.rebuildsDailyStats;
+    console.log(`Applied web storage migration ${migration.version}: ${migration.description}`);
+  }
+
+  return { data: migrated, version, rebuildDailyStats };
+}
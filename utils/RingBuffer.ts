@@ -0,0 +1,55 @@
+// Fixed-capacity FIFO buffer. Once full, each push overwrites the oldest item, so appending is O(1)
+// and memory stays constant no matter how long sensors keep streaming.
+
+export class RingBuffer<T> {
+  private items: (T | undefined)[];
+  private start = 0;
+  private count = 0;
+
+  constructor(readonly capacity: number) {
+    if (!Number.isInteger(capacity) || capacity <= 0) {
+      throw new Error(`RingBuffer capacity must be a positive integer, got ${capacity}`);
+    }
+    this.items = new Array(capacity);
+  }
+
+  get length(): number {
+    return this.count;
+  }
+
+  push(item: T) {
+    const end = (this.start + this.count) % this.capacity;
+    this.items[end] = item;
+    if (this.count < this.capacity) {
+      this.count++;
+    } else {
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  // 0 is the oldest item, length - 1 the newest
+  get(index: number): T | undefined {
+    if (index < 0 || index >= this.count) return undefined;
+    return this.items[(this.start + index) % this.capacity];
+  }
+
+  last(): T | undefined {
+    return this.get(this.count - 1);
+  }
+
+  // The newest `count` items (all of them by default), oldest first
+  toArray(count: number = this.count): T[] {
+    const size = Math.max(0, Math.min(count, this.count));
+    const result: T[] = [];
+    for (let i = this.count - size; i < this.count; i++) {
+      result.push(this.get(i) as T);
+    }
+    return result;
+  }
+
+  clear() {
+    this.items = new Array(this.capacity);
+    this.start = 0;
+    this.count = 0;
+  }
+}
@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { crc32, createZip, readZip } from '../zip';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+describe('zip', () => {
+  it('computes the standard CRC-32', () => {
+    assert.equal(crc32(encoder.encode('123456789')), 0xcbf43926);
+    assert.equal(crc32(new Uint8Array()), 0);
+  });
+
+  it('reads back the entries it wrote', () => {
+    const binary = Uint8Array.from({ length: 300 }, (_, i) => i % 256);
+    const archive = createZip([
+      { name: 'health-data.json', content: '{"steps":1200}' },
+      { name: 'activités.csv', content: 'date,steps\n2024-05-01,1200\n' },
+      { name: 'raw.bin', content: binary },
+    ]);
+
+    const entries = readZip(archive);
+    assert.deepEqual(entries.map(entry => entry.name), ['health-data.json', 'activités.csv', 'raw.bin']);
+    assert.equal(decoder.decode(entries[0].content), '{"steps":1200}');
+    assert.equal(decoder.decode(entries[1].content), 'date,steps\n2024-05-01,1200\n');
+    assert.deepEqual(entries[2].content, binary);
+  });
+
+  it('rejects files that are not ZIP archives', () => {
+    assert.throws(() => readZip(encoder.encode('{"steps":1200}')), /Not a ZIP archive/);
+  });
+
+  it('rejects an entry whose content no longer matches its checksum', () => {
+    const archive = createZip([{ name: 'health-data.json', content: '{"steps":1200}' }]);
+    // The content follows the 30 byte local header and the name
+    archive[30 + 'health-data.json'.length] ^= 0xff;
+
+    assert.throws(() => readZip(archive), /is corrupt/);
+  });
+});
@@ -0,0 +1,12 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Quotes a field when it contains a delimiter, quote or line break (RFC 4180)
+const escapeField = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCSV = (columns: string[], rows: CsvValue[][]): string =>
+  [columns, ...rows].map(row => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
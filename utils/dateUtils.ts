@@ -0,0 +1,108 @@
+// Local calendar day helpers for health data bucketing.
+// All date keys are the user's local calendar day (YYYY-MM-DD), never the UTC date.
+// Local Date getters are used throughout so DST transitions (23 or 25 hour days) are handled by the runtime.
+
+export interface LocalDaySegment {
+  start: number;
+  end: number;
+  date: string; // YYYY-MM-DD local calendar day
+  utcOffset: number; // minutes east of UTC at the segment start
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+export const toLocalDateKey = (date: Date | number): string => {
+  const d = typeof date === 'number' ? new Date(date) : date;
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+// Minutes east of UTC, e.g. -300 for New York in winter, 60 for Berlin in winter
+export const getUtcOffsetMinutes = (timestamp: number = Date.now()): number => {
+  const offset = -new Date(timestamp).getTimezoneOffset();
+  return offset === 0 ? 0 : offset; // Avoid -0
+};
+
+export const parseLocalDateKey = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addLocalDays = (dateKey: string, days: number): string => {
+  const date = parseLocalDateKey(dateKey);
+  date.setDate(date.getDate() + days);
+  return toLocalDateKey(date);
+};
+
+export const getStartOfLocalDay = (timestamp: number): number => {
+  const d = new Date(timestamp);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+};
+
+export const getNextLocalMidnight = (timestamp: number): number => {
+  const d = new Date(timestamp);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1).getTime();
+};
+
+// Splits [start, end] at every local midnight so each piece belongs to exactly one calendar day.
+// Travel keeps working because each piece is keyed with the time zone in effect when it is recorded.
+export const splitByLocalDay = (start: number, end: number): LocalDaySegment[] => {
+  const segments: LocalDaySegment[] = [];
+  let segmentStart = start;
+
+  do {
+    const segmentEnd = Math.min(end, getNextLocalMidnight(segmentStart));
+    segments.push({
+      start: segmentStart,
+      end: segmentEnd,
+      date: toLocalDateKey(segmentStart),
+      utcOffset: getUtcOffsetMinutes(segmentStart),
+    });
+    segmentStart = segmentEnd;
+  } while (segmentStart < end);
+
+  return segments;
+};
+
+export type CalendarGranularity = 'day' | 'week' | 'month' | 'year';
+
+// First day of the period containing dateKey; weeks start on Monday (ISO 8601)
+export const getPeriodStart = (dateKey: string, granularity: CalendarGranularity): string => {
+  const date = parseLocalDateKey(dateKey);
+
+  switch (granularity) {
+    case 'week':
+      date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+      break;
+    case 'month':
+      date.setDate(1);
+      break;
+    case 'year':
+      date.setMonth(0, 1);
+      break;
+    default:
+      break;
+  }
+
+  return toLocalDateKey(date);
+};
+
+export const getNextPeriodStart = (periodStart: string, granularity: CalendarGranularity): string => {
+  const date = parseLocalDateKey(periodStart);
+
+  switch (granularity) {
+    case 'week':
+      date.setDate(date.getDate() + 7);
+      break;
+    case 'month':
+      date.setMonth(date.getMonth() + 1);
+      break;
+    case 'year':
+      date.setFullYear(date.getFullYear() + 1);
+      break;
+    default:
+      date.setDate(date.getDate() + 1);
+      break;
+  }
+
+  return toLocalDateKey(date);
+};